@@ -5,12 +5,17 @@ use sui::clock::{Self, Clock};
 use sui::event;
 use sui::table::{Self, Table};
 
+/// 페이지 조회 한 번에 반환하는 최대 이미지 수 (devInspect 반환 크기 제한)
+const MAX_PAGE_SIZE: u64 = 50;
+
 /// Docker 이미지 레지스트리
 public struct DockerRegistry has key {
     id: UID,
     images: Table<address, vector<DockerImage>>,
     all_images: vector<DockerImage>, // 전체 이미지 목록 (조회용)
     total_images: u64,
+    tags: Table<address, vector<ImageTag>>, // 소유자별 태그 (이미지 이름 + 태그 → 버전)
+    next_image_id: u64, // 다음에 등록될 이미지의 ID
 }
 
 /// 최소 요구 사양
@@ -23,28 +28,86 @@ public struct MinRequirements has copy, drop, store {
 
 /// Docker 이미지 정보
 public struct DockerImage has copy, drop, store {
+    id: u64, // 등록 순서대로 증가하는 고유 ID (삭제되어도 재사용하지 않음, 페이지 커서)
+    owner: address, // 등록한 주소 (전체 목록에서 다른 소유자의 같은 레코드와 구분)
     download_urls: vector<String>, // URL pool (여러 다운로드 소스)
     primary_url_index: u64, // 기본 URL 인덱스
     image_name: String,
+    version: String, // 소유자 + 이미지 이름 안에서 고유 (변경 불가)
     size: u64,
+    content_digest: String, // 업로드 콘텐츠의 SHA-256 ("sha256:<hex>")
     timestamp: u64,
     upload_type: String, // "docker" or "project"
     requirements: MinRequirements, // 최소 요구 사양
 }
 
-/// 이미지 등록 이벤트
+/// 이미지 태그 (예: myapp:latest → 1.4.2), 다른 버전으로 옮길 수 있음
+public struct ImageTag has copy, drop, store {
+    image_name: String,
+    tag: String,
+    version: String,
+}
+
+/// 이미지 등록 이벤트 (오프체인 인덱서가 DockerImage를 복원할 수 있도록 전체 필드 포함)
 public struct ImageRegisteredEvent has copy, drop {
+    id: u64,
+    owner: address,
+    urls: vector<String>,
+    image_name: String,
+    version: String,
+    size: u64,
+    content_digest: String,
+    timestamp: u64,
+    upload_type: String,
+    requirements: MinRequirements,
+}
+
+/// 이미지 blob 교체 이벤트 (Seal 키 교체 후 재암호화된 blob으로 이동)
+public struct ImageBlobRotatedEvent has copy, drop {
     owner: address,
+    image_name: String,
+    version: String,
+    size: u64,
+    old_content_digest: String,
+    new_content_digest: String,
+    urls: vector<String>,
+    timestamp: u64,
+}
+
+/// 미러 URL 풀 변경 이벤트 (추가 / 제거 / 순서 변경 / 기본 URL 변경 후의 전체 목록)
+public struct ImageMirrorsUpdatedEvent has copy, drop {
+    owner: address,
+    image_name: String,
+    version: String,
     urls: vector<String>,
+    primary_url_index: u64,
+}
+
+/// 태그 지정/이동 이벤트 (previous_version은 새 태그일 때 빈 문자열)
+public struct ImageTaggedEvent has copy, drop {
+    owner: address,
     image_name: String,
+    tag: String,
+    version: String,
+    previous_version: String,
     timestamp: u64,
 }
 
+/// 태그 제거 이벤트
+public struct ImageUntaggedEvent has copy, drop {
+    owner: address,
+    image_name: String,
+    tag: String,
+    version: String,
+}
+
 /// 이미지 삭제 이벤트
-#[allow(unused_field)]
 public struct ImageDeleted has copy, drop {
     owner: address,
     image_name: String,
+    version: String,
+    content_digest: String,
+    urls: vector<String>, // 삭제된 버전이 가리키던 blob (오프체인 정리용)
 }
 
 /// 레지스트리 초기화 (한 번만 실행)
@@ -54,16 +117,21 @@ fun init(ctx: &mut TxContext) {
         images: table::new(ctx),
         all_images: vector::empty(),
         total_images: 0,
+        tags: table::new(ctx),
+        next_image_id: 0,
     };
     transfer::share_object(registry);
 }
 
 /// Docker 이미지 등록 (여러 URL 지원 + 최소 요구 사양)
+/// 같은 이미지 이름으로 다시 등록하면 새 버전이 추가되고 이전 버전은 그대로 남음
 public fun register_docker_image(
     registry: &mut DockerRegistry,
     download_urls: vector<String>,
     image_name: String,
+    version: String,
     size: u64,
+    content_digest: String,
     upload_type: String,
     min_cpu_cores: u32,
     min_memory_gb: u32,
@@ -92,6 +160,17 @@ public fun register_docker_image(
     assert!(min_storage_gb > 0, 5);
     assert!(max_price_per_hour > 0, 6);
 
+    // 콘텐츠 다이제스트 형식 검사 ("sha256:" + 64자리 hex)
+    assert!(string::length(&content_digest) == 71, 7);
+    assert!(string::sub_string(&content_digest, 0, 7) == string::utf8(b"sha256:"), 7);
+
+    // 버전 검사: 비어 있지 않고 같은 이미지 이름 안에서 중복 불가
+    assert!(string::length(&version) > 0, 9);
+    if (table::contains(&registry.images, sender)) {
+        let existing = table::borrow(&registry.images, sender);
+        assert!(find_version(existing, &image_name, &version).is_none(), 10);
+    };
+
     let requirements = MinRequirements {
         min_cpu_cores,
         min_memory_gb,
@@ -99,11 +178,18 @@ public fun register_docker_image(
         max_price_per_hour,
     };
 
+    let id = registry.next_image_id;
+    registry.next_image_id = id + 1;
+
     let docker_image = DockerImage {
+        id,
+        owner: sender,
         download_urls,
         primary_url_index: 0, // 첫 번째 URL을 기본으로 설정
         image_name,
+        version,
         size,
+        content_digest,
         timestamp,
         upload_type,
         requirements,
@@ -123,13 +209,326 @@ public fun register_docker_image(
 
     // 이벤트 발생
     event::emit(ImageRegisteredEvent {
+        id,
         owner: sender,
         urls: download_urls,
         image_name,
+        version,
+        size,
+        content_digest,
         timestamp,
+        upload_type,
+        requirements,
+    });
+}
+
+/// 이미지가 가리키는 blob 교체 (소유자 전용, 재암호화 후 URL/다이제스트/크기 갱신)
+/// 이미지 이름 + 버전으로 지정 (목록 위치는 삭제로 바뀔 수 있음)
+public fun rotate_image_blob(
+    registry: &mut DockerRegistry,
+    image_name: String,
+    version: String,
+    download_urls: vector<String>,
+    size: u64,
+    content_digest: String,
+    clock: &Clock,
+    ctx: &mut TxContext,
+) {
+    let sender = tx_context::sender(ctx);
+
+    // register_docker_image와 같은 URL / 다이제스트 검사
+    assert!(vector::length(&download_urls) > 0, 0);
+    let mut i = 0;
+    while (i < vector::length(&download_urls)) {
+        assert!(string::length(vector::borrow(&download_urls, i)) > 0, 2);
+        i = i + 1;
+    };
+    assert!(string::length(&content_digest) == 71, 7);
+    assert!(string::sub_string(&content_digest, 0, 7) == string::utf8(b"sha256:"), 7);
+
+    // 소유자 본인의 이미지만 교체 가능
+    let (index, mut image) = owned_image(registry, sender, &image_name, &version);
+    let old_content_digest = image.content_digest;
+    image.download_urls = download_urls;
+    image.primary_url_index = 0;
+    image.size = size;
+    image.content_digest = content_digest;
+    replace_image(registry, sender, index, image);
+
+    event::emit(ImageBlobRotatedEvent {
+        owner: sender,
+        image_name,
+        version,
+        size,
+        old_content_digest,
+        new_content_digest: content_digest,
+        urls: download_urls,
+        timestamp: clock::timestamp_ms(clock),
+    });
+}
+
+/// 태그를 버전에 지정; 이미 있는 태그면 새 버전으로 이동 (소유자 전용)
+public fun tag_image(
+    registry: &mut DockerRegistry,
+    image_name: String,
+    version: String,
+    tag: String,
+    clock: &Clock,
+    ctx: &mut TxContext,
+) {
+    let sender = tx_context::sender(ctx);
+
+    assert!(string::length(&tag) > 0, 12);
+    assert!(table::contains(&registry.images, sender), 8); // 등록된 이미지 없음
+    let user_images = table::borrow(&registry.images, sender);
+    assert!(find_version(user_images, &image_name, &version).is_some(), 11); // 없는 버전
+
+    if (!table::contains(&registry.tags, sender)) {
+        table::add(&mut registry.tags, sender, vector::empty());
+    };
+    let user_tags = table::borrow_mut(&mut registry.tags, sender);
+
+    let mut previous_version = string::utf8(b"");
+    let existing = find_tag(user_tags, &image_name, &tag);
+    if (existing.is_some()) {
+        let entry = vector::borrow_mut(user_tags, existing.destroy_some());
+        previous_version = entry.version;
+        entry.version = version;
+    } else {
+        vector::push_back(user_tags, ImageTag { image_name, tag, version });
+    };
+
+    event::emit(ImageTaggedEvent {
+        owner: sender,
+        image_name,
+        tag,
+        version,
+        previous_version,
+        timestamp: clock::timestamp_ms(clock),
+    });
+}
+
+/// 태그 제거 (버전 자체는 남음)
+public fun untag_image(
+    registry: &mut DockerRegistry,
+    image_name: String,
+    tag: String,
+    ctx: &mut TxContext,
+) {
+    let sender = tx_context::sender(ctx);
+
+    assert!(table::contains(&registry.tags, sender), 13); // 없는 태그
+    let user_tags = table::borrow_mut(&mut registry.tags, sender);
+    let index = find_tag(user_tags, &image_name, &tag);
+    assert!(index.is_some(), 13);
+    let removed = vector::remove(user_tags, index.destroy_some());
+
+    event::emit(ImageUntaggedEvent {
+        owner: sender,
+        image_name,
+        tag,
+        version: removed.version,
+    });
+}
+
+/// 이미지 버전 삭제 (소유자 전용): 사용자 목록과 전체 목록에서 제거하고 이 버전을 가리키던 태그도 제거
+/// Walrus blob은 체인 밖에 있으므로 삭제하지 않음 (ImageDeleted 이벤트의 urls 참고)
+public fun delete_docker_image(
+    registry: &mut DockerRegistry,
+    image_name: String,
+    version: String,
+    ctx: &mut TxContext,
+) {
+    let sender = tx_context::sender(ctx);
+
+    assert!(table::contains(&registry.images, sender), 8); // 등록된 이미지 없음
+    let user_images = table::borrow_mut(&mut registry.images, sender);
+    let index = find_version(user_images, &image_name, &version);
+    assert!(index.is_some(), 11); // 없는 버전
+    let removed = vector::remove(user_images, index.destroy_some());
+
+    // 전체 목록에서도 제거
+    let all_index = find_registered(&registry.all_images, sender, &image_name, &version);
+    if (all_index.is_some()) {
+        vector::remove(&mut registry.all_images, all_index.destroy_some());
+    };
+    registry.total_images = registry.total_images - 1;
+
+    // 삭제된 버전을 가리키던 태그 제거
+    if (table::contains(&registry.tags, sender)) {
+        let user_tags = table::borrow_mut(&mut registry.tags, sender);
+        let mut k = 0;
+        while (k < vector::length(user_tags)) {
+            let entry = vector::borrow(user_tags, k);
+            if (entry.image_name == image_name && entry.version == version) {
+                let untagged = vector::remove(user_tags, k);
+                event::emit(ImageUntaggedEvent {
+                    owner: sender,
+                    image_name,
+                    tag: untagged.tag,
+                    version,
+                });
+            } else {
+                k = k + 1;
+            };
+        };
+    };
+
+    event::emit(ImageDeleted {
+        owner: sender,
+        image_name,
+        version,
+        content_digest: removed.content_digest,
+        urls: removed.download_urls,
     });
 }
 
+/// 미러 URL 추가 (목록 끝에 추가, 소유자 전용)
+public fun add_mirror_url(
+    registry: &mut DockerRegistry,
+    image_name: String,
+    version: String,
+    url: String,
+    ctx: &mut TxContext,
+) {
+    assert!(string::length(&url) > 0, 2);
+    let sender = tx_context::sender(ctx);
+    let (index, mut image) = owned_image(registry, sender, &image_name, &version);
+    assert!(!vector::contains(&image.download_urls, &url), 14); // 이미 등록된 URL
+    vector::push_back(&mut image.download_urls, url);
+    apply_mirror_change(registry, sender, index, image);
+}
+
+/// 미러 URL 제거 (마지막 URL은 제거 불가); 기본 URL이 제거되면 첫 번째 URL이 기본이 됨
+public fun remove_mirror_url(
+    registry: &mut DockerRegistry,
+    image_name: String,
+    version: String,
+    url_index: u64,
+    ctx: &mut TxContext,
+) {
+    let sender = tx_context::sender(ctx);
+    let (index, mut image) = owned_image(registry, sender, &image_name, &version);
+    assert!(url_index < vector::length(&image.download_urls), 15); // 없는 URL 인덱스
+    assert!(vector::length(&image.download_urls) > 1, 16); // 최소 하나의 URL 필요
+    vector::remove(&mut image.download_urls, url_index);
+    if (image.primary_url_index == url_index) {
+        image.primary_url_index = 0;
+    } else if (image.primary_url_index > url_index) {
+        image.primary_url_index = image.primary_url_index - 1;
+    };
+    apply_mirror_change(registry, sender, index, image);
+}
+
+/// 미러 URL 순서 변경 (from 위치의 URL을 to 위치로 이동); 기본 URL은 같은 URL을 계속 가리킴
+public fun move_mirror_url(
+    registry: &mut DockerRegistry,
+    image_name: String,
+    version: String,
+    from: u64,
+    to: u64,
+    ctx: &mut TxContext,
+) {
+    let sender = tx_context::sender(ctx);
+    let (index, mut image) = owned_image(registry, sender, &image_name, &version);
+    let length = vector::length(&image.download_urls);
+    assert!(from < length && to < length, 15);
+    let primary_url = *vector::borrow(&image.download_urls, image.primary_url_index);
+    let url = vector::remove(&mut image.download_urls, from);
+    vector::insert(&mut image.download_urls, url, to);
+    let (_, primary_index) = vector::index_of(&image.download_urls, &primary_url);
+    image.primary_url_index = primary_index;
+    apply_mirror_change(registry, sender, index, image);
+}
+
+/// 기본 다운로드 URL 변경
+public fun set_primary_url(
+    registry: &mut DockerRegistry,
+    image_name: String,
+    version: String,
+    url_index: u64,
+    ctx: &mut TxContext,
+) {
+    let sender = tx_context::sender(ctx);
+    let (index, mut image) = owned_image(registry, sender, &image_name, &version);
+    assert!(url_index < vector::length(&image.download_urls), 15);
+    image.primary_url_index = url_index;
+    apply_mirror_change(registry, sender, index, image);
+}
+
+// 소유자의 이미지 (사용자 목록 인덱스 + 값 복사본)
+fun owned_image(registry: &DockerRegistry, owner: address, image_name: &String, version: &String): (u64, DockerImage) {
+    assert!(table::contains(&registry.images, owner), 8); // 등록된 이미지 없음
+    let user_images = table::borrow(&registry.images, owner);
+    let index = find_version(user_images, image_name, version);
+    assert!(index.is_some(), 11); // 없는 버전
+    let index = index.destroy_some();
+    (index, *vector::borrow(user_images, index))
+}
+
+// 변경된 이미지를 사용자 목록(index 위치)과 전체 목록에 반영
+fun replace_image(registry: &mut DockerRegistry, owner: address, index: u64, updated: DockerImage) {
+    let user_images = table::borrow_mut(&mut registry.images, owner);
+    *vector::borrow_mut(user_images, index) = updated;
+
+    let all_index = find_registered(&registry.all_images, owner, &updated.image_name, &updated.version);
+    if (all_index.is_some()) {
+        *vector::borrow_mut(&mut registry.all_images, all_index.destroy_some()) = updated;
+    };
+}
+
+// 미러 변경을 사용자 목록과 전체 목록에 반영하고 이벤트 발생
+fun apply_mirror_change(registry: &mut DockerRegistry, owner: address, index: u64, updated: DockerImage) {
+    replace_image(registry, owner, index, updated);
+
+    event::emit(ImageMirrorsUpdatedEvent {
+        owner,
+        image_name: updated.image_name,
+        version: updated.version,
+        urls: updated.download_urls,
+        primary_url_index: updated.primary_url_index,
+    });
+}
+
+// 이미지 이름 + 버전으로 사용자 이미지 인덱스 검색
+fun find_version(images: &vector<DockerImage>, image_name: &String, version: &String): Option<u64> {
+    let mut i = 0;
+    while (i < vector::length(images)) {
+        let image = vector::borrow(images, i);
+        if (&image.image_name == image_name && &image.version == version) {
+            return option::some(i)
+        };
+        i = i + 1;
+    };
+    option::none()
+}
+
+// 전체 목록에서 소유자 + 이미지 이름 + 버전으로 검색 (같은 레코드를 가진 다른 소유자의 항목과 구분)
+fun find_registered(images: &vector<DockerImage>, owner: address, image_name: &String, version: &String): Option<u64> {
+    let mut i = 0;
+    while (i < vector::length(images)) {
+        let image = vector::borrow(images, i);
+        if (image.owner == owner && &image.image_name == image_name && &image.version == version) {
+            return option::some(i)
+        };
+        i = i + 1;
+    };
+    option::none()
+}
+
+// 이미지 이름 + 태그로 태그 인덱스 검색
+fun find_tag(tags: &vector<ImageTag>, image_name: &String, tag: &String): Option<u64> {
+    let mut i = 0;
+    while (i < vector::length(tags)) {
+        let entry = vector::borrow(tags, i);
+        if (&entry.image_name == image_name && &entry.tag == tag) {
+            return option::some(i)
+        };
+        i = i + 1;
+    };
+    option::none()
+}
+
 /// 사용자의 이미지 목록 조회
 public fun get_user_images(registry: &DockerRegistry, user: address): vector<DockerImage> {
     if (table::contains(&registry.images, user)) {
@@ -139,12 +538,102 @@ public fun get_user_images(registry: &DockerRegistry, user: address): vector<Doc
     }
 }
 
+/// 한 이미지의 버전 이력 조회 (등록 순서)
+public fun get_image_versions(registry: &DockerRegistry, user: address, image_name: String): vector<DockerImage> {
+    let mut versions = vector::empty();
+    if (table::contains(&registry.images, user)) {
+        let user_images = table::borrow(&registry.images, user);
+        let mut i = 0;
+        while (i < vector::length(user_images)) {
+            let image = vector::borrow(user_images, i);
+            if (image.image_name == image_name) {
+                vector::push_back(&mut versions, *image);
+            };
+            i = i + 1;
+        };
+    };
+    versions
+}
+
+/// 사용자의 모든 태그 조회
+public fun get_user_tags(registry: &DockerRegistry, user: address): vector<ImageTag> {
+    if (table::contains(&registry.tags, user)) {
+        *table::borrow(&registry.tags, user)
+    } else {
+        vector::empty()
+    }
+}
+
+/// 태그 또는 버전 문자열을 이미지로 해석 (태그 우선)
+public fun resolve_image(registry: &DockerRegistry, user: address, image_name: String, reference: String): DockerImage {
+    let mut version = reference;
+    if (table::contains(&registry.tags, user)) {
+        let user_tags = table::borrow(&registry.tags, user);
+        let index = find_tag(user_tags, &image_name, &reference);
+        if (index.is_some()) {
+            version = vector::borrow(user_tags, index.destroy_some()).version;
+        };
+    };
+
+    assert!(table::contains(&registry.images, user), 11);
+    let user_images = table::borrow(&registry.images, user);
+    let index = find_version(user_images, &image_name, &version);
+    assert!(index.is_some(), 11);
+    *vector::borrow(user_images, index.destroy_some())
+}
+
+/// 사용자 이미지 페이지 조회 (ID가 cursor 이상인 이미지부터 최대 limit개, limit은 MAX_PAGE_SIZE로 제한)
+public fun get_user_images_page(
+    registry: &DockerRegistry,
+    user: address,
+    cursor: u64,
+    limit: u64,
+): vector<DockerImage> {
+    if (table::contains(&registry.images, user)) {
+        page_from(table::borrow(&registry.images, user), cursor, limit)
+    } else {
+        vector::empty()
+    }
+}
+
+/// 전체 이미지 페이지 조회 (등록 순서, ID가 cursor 이상인 이미지부터 최대 limit개)
+/// 다음 페이지는 마지막 이미지 ID + 1부터; 그 사이에 삭제가 있어도 건너뛰거나 중복되는 항목이 없음
+/// 반환 개수가 limit보다 적으면 마지막 페이지
+public fun get_all_images_page(registry: &DockerRegistry, cursor: u64, limit: u64): vector<DockerImage> {
+    page_from(&registry.all_images, cursor, limit)
+}
+
+// 목록은 ID 오름차순 (등록 순서로 추가, 삭제해도 순서 유지)이므로 cursor 위치를 이진 탐색
+fun page_from(images: &vector<DockerImage>, cursor: u64, limit: u64): vector<DockerImage> {
+    let limit = if (limit > MAX_PAGE_SIZE) MAX_PAGE_SIZE else limit;
+    let length = vector::length(images);
+    let mut low = 0;
+    let mut high = length;
+    while (low < high) {
+        let middle = (low + high) / 2;
+        if (vector::borrow(images, middle).id < cursor) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        };
+    };
+
+    let mut page = vector::empty();
+    let mut i = low;
+    while (i < length && i - low < limit) {
+        vector::push_back(&mut page, *vector::borrow(images, i));
+        i = i + 1;
+    };
+    page
+}
+
 /// 전체 이미지 수 조회
 public fun get_total_images(registry: &DockerRegistry): u64 {
     registry.total_images
 }
 
 /// 모든 사용자의 이미지 목록 조회 (전체 레지스트리)
+/// 레지스트리가 커지면 devInspect 제한을 넘으므로 get_all_images_page 사용 권장
 public fun get_all_images(registry: &DockerRegistry): vector<DockerImage> {
     registry.all_images
 }
@@ -0,0 +1,141 @@
+module daas_vader::seal_policy;
+
+use std::string::String;
+use sui::address;
+use sui::event;
+use sui::vec_map::{Self, VecMap};
+
+/// 암호화된 이미지의 접근 정책 (Seal key server가 seal_approve_job으로 확인)
+/// Seal identity = 정책 객체 ID + nonce
+public struct ImageAccessPolicy has key {
+    id: UID,
+    owner: address,
+    image_name: String,
+    grants: VecMap<ID, address>, // 진행 중인 작업 ID -> 작업을 수락한 제공자 주소
+}
+
+/// 정책 생성 이벤트
+public struct PolicyCreatedEvent has copy, drop {
+    policy_id: ID,
+    owner: address,
+    image_name: String,
+}
+
+/// 제공자에게 복호화 권한 부여 이벤트 (작업 ACCEPTED)
+public struct AccessGrantedEvent has copy, drop {
+    policy_id: ID,
+    job_id: ID,
+    provider: address,
+}
+
+/// 복호화 권한 회수 이벤트 (작업 COMPLETED / REJECTED)
+public struct AccessRevokedEvent has copy, drop {
+    policy_id: ID,
+    job_id: ID,
+    provider: address,
+}
+
+/// 이미지 접근 정책 생성 (공유 객체)
+public fun create_policy(image_name: String, ctx: &mut TxContext) {
+    let policy = ImageAccessPolicy {
+        id: object::new(ctx),
+        owner: tx_context::sender(ctx),
+        image_name,
+        grants: vec_map::empty(),
+    };
+
+    event::emit(PolicyCreatedEvent {
+        policy_id: object::id(&policy),
+        owner: policy.owner,
+        image_name,
+    });
+    transfer::share_object(policy);
+}
+
+/// 작업이 수락되면 소유자가 제공자에게 복호화 권한 부여
+public fun grant_job_access(
+    policy: &mut ImageAccessPolicy,
+    job_id: ID,
+    provider: address,
+    ctx: &TxContext,
+) {
+    assert!(tx_context::sender(ctx) == policy.owner, 1); // 소유자만 권한 부여 가능
+
+    // 같은 작업에 대한 재부여는 제공자 주소를 갱신
+    if (vec_map::contains(&policy.grants, &job_id)) {
+        let (_, _) = vec_map::remove(&mut policy.grants, &job_id);
+    };
+    vec_map::insert(&mut policy.grants, job_id, provider);
+
+    event::emit(AccessGrantedEvent {
+        policy_id: object::id(policy),
+        job_id,
+        provider,
+    });
+}
+
+/// 작업이 완료/거절되면 소유자가 권한 회수 (이미 회수된 작업은 무시)
+public fun revoke_job_access(policy: &mut ImageAccessPolicy, job_id: ID, ctx: &TxContext) {
+    assert!(tx_context::sender(ctx) == policy.owner, 1); // 소유자만 권한 회수 가능
+
+    if (vec_map::contains(&policy.grants, &job_id)) {
+        let (_, provider) = vec_map::remove(&mut policy.grants, &job_id);
+        event::emit(AccessRevokedEvent {
+            policy_id: object::id(policy),
+            job_id,
+            provider,
+        });
+    };
+}
+
+/// 주소가 복호화 가능한지 확인 (소유자 또는 진행 중인 작업의 제공자)
+public fun has_access(policy: &ImageAccessPolicy, user: address): bool {
+    if (user == policy.owner) {
+        return true
+    };
+
+    let mut i = 0;
+    while (i < vec_map::size(&policy.grants)) {
+        let (_, provider) = vec_map::get_entry_by_idx(&policy.grants, i);
+        if (*provider == user) {
+            return true
+        };
+        i = i + 1;
+    };
+    false
+}
+
+public fun owner(policy: &ImageAccessPolicy): address {
+    policy.owner
+}
+
+public fun image_name(policy: &ImageAccessPolicy): String {
+    policy.image_name
+}
+
+// id가 prefix로 시작하는지 확인
+fun is_prefix(prefix: vector<u8>, id: &vector<u8>): bool {
+    if (vector::length(&prefix) > vector::length(id)) {
+        return false
+    };
+
+    let mut i = 0;
+    while (i < vector::length(&prefix)) {
+        if (*vector::borrow(&prefix, i) != *vector::borrow(id, i)) {
+            return false
+        };
+        i = i + 1;
+    };
+    true
+}
+
+/// Seal: 소유자 전용 데이터 (identity = 소유자 주소 + nonce)
+entry fun seal_approve(id: vector<u8>, ctx: &TxContext) {
+    assert!(is_prefix(address::to_bytes(tx_context::sender(ctx)), &id), 0); // 접근 권한 없음
+}
+
+/// Seal: 작업 기반 이미지 접근 (identity = 정책 객체 ID + nonce)
+entry fun seal_approve_job(id: vector<u8>, policy: &ImageAccessPolicy, ctx: &TxContext) {
+    assert!(is_prefix(object::id_to_bytes(&object::id(policy)), &id), 0); // 다른 정책의 identity
+    assert!(has_access(policy, tx_context::sender(ctx)), 0); // 접근 권한 없음
+}
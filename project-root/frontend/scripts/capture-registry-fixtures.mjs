@@ -0,0 +1,98 @@
+// Captures the registry fixtures in src/lib/__fixtures__ from a deployed docker_registry
+// Usage: NEXT_PUBLIC_PACKAGE_ID=0x… NEXT_PUBLIC_DOCKER_REGISTRY_ID=0x… npm run capture:fixtures
+//   NEXT_PUBLIC_SUI_RPC_URL  fullnode to read from (default: testnet)
+//   EMPTY_USER_ADDRESS       address without images, for the empty get_user_images_page (default: 0x0)
+// The deployment needs two or more images, an ImageTaggedEvent, an ImageDeleted and one seal_policy event
+// (read as an event of another module). See "Generated Types" in DOCKER_REGISTRY_INTEGRATION.md.
+
+import { writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+const root = dirname(dirname(fileURLToPath(import.meta.url)));
+const OUTPUT_DIR = resolve(root, 'src/lib/__fixtures__');
+const MODULE = 'docker_registry';
+const FOREIGN_MODULE = 'seal_policy';
+const PAGE_LIMIT = 50; // Keeps the vector length a single ULEB128 byte
+
+const packageId = process.env.NEXT_PUBLIC_PACKAGE_ID;
+const registryId = process.env.NEXT_PUBLIC_DOCKER_REGISTRY_ID;
+if (!packageId || !registryId) {
+  throw new Error('NEXT_PUBLIC_PACKAGE_ID and NEXT_PUBLIC_DOCKER_REGISTRY_ID must point at the deployment to capture');
+}
+const rpcUrl = process.env.NEXT_PUBLIC_SUI_RPC_URL || getFullnodeUrl('testnet');
+const client = new SuiClient({ url: rpcUrl });
+
+// Same call DockerRegistryClient.inspect makes; only the fields the tests read are kept
+const devInspect = async (fn, addArguments, sender = normalizeSuiAddress('0x0')) => {
+  const tx = new Transaction();
+  tx.moveCall({ target: `${packageId}::${MODULE}::${fn}`, arguments: addArguments(tx) });
+  const result = await client.devInspectTransactionBlock({ transactionBlock: tx, sender });
+  if (result.error) throw new Error(`${fn} devInspect failed: ${result.error}`);
+  return {
+    effects: { status: result.effects.status },
+    results: (result.results ?? []).map(({ returnValues }) => ({ returnValues }))
+  };
+};
+
+const imageCount = response => response.results[0]?.returnValues?.[0]?.[0]?.[0];
+
+// Oldest event of `module` (optionally of one struct), paging forward until one is found
+const findEvent = async (module, name) => {
+  let cursor = null;
+  do {
+    const page = await client.queryEvents({
+      query: { MoveEventModule: { package: packageId, module } },
+      cursor,
+      limit: PAGE_LIMIT,
+      order: 'ascending'
+    });
+    const event = page.data.find(candidate => !name || candidate.type.endsWith(`::${module}::${name}`));
+    if (event) return event;
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+  throw new Error(`No ${module}${name ? `::${name}` : ''} event in ${packageId}`);
+};
+
+const write = (name, data) => {
+  writeFileSync(resolve(OUTPUT_DIR, name), `${JSON.stringify(data, null, 2)}\n`);
+  console.log(`✅ ${name}`);
+};
+
+console.log(`📡 ${rpcUrl} — ${packageId}::${MODULE}, registry ${registryId}`);
+
+const allImages = await devInspect('get_all_images_page', tx => [
+  tx.object(registryId),
+  tx.pure.u64(0),
+  tx.pure.u64(PAGE_LIMIT)
+]);
+if (!(imageCount(allImages) >= 2)) {
+  throw new Error('get_all_images_page returned fewer than two images; register some first');
+}
+
+const emptyUser = normalizeSuiAddress(process.env.EMPTY_USER_ADDRESS || '0x0');
+const emptyUserImages = await devInspect(
+  'get_user_images_page',
+  tx => [tx.object(registryId), tx.pure.address(emptyUser), tx.pure.u64(0), tx.pure.u64(PAGE_LIMIT)],
+  emptyUser
+);
+if (imageCount(emptyUserImages) !== 0) {
+  throw new Error(`${emptyUser} owns images; set EMPTY_USER_ADDRESS to an address without any`);
+}
+
+// Same order docker-registry.test.ts destructures them in
+const events = [
+  await findEvent(MODULE, 'ImageRegisteredEvent'),
+  await findEvent(MODULE, 'ImageTaggedEvent'),
+  await findEvent(MODULE, 'ImageDeleted'),
+  await findEvent(FOREIGN_MODULE)
+];
+
+write('get_all_images_page.devinspect.json', allImages);
+write('get_user_images_page.empty.devinspect.json', emptyUserImages);
+write('registry-events.json', events);
+console.log(`📋 ${imageCount(allImages)} images, events: ${events.map(event => event.type.split('::').pop()).join(', ')}`);
+console.log('⚠️ The expected values in src/lib/docker-registry.test.ts describe the synthetic fixtures; update them to the captured data');
@@ -0,0 +1,81 @@
+// Generates BCS schemas and TypeScript types for the docker_registry Move structs
+// Usage: npm run gen:registry (re-run whenever contracts/sources/docker_registry.move changes)
+
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+const root = dirname(dirname(fileURLToPath(import.meta.url)));
+const MOVE_SOURCE = resolve(root, '../../contracts/sources/docker_registry.move');
+const OUTPUT = resolve(root, 'src/lib/docker-registry.generated.ts');
+
+// Move primitive → @mysten/sui/bcs expression
+const PRIMITIVES = {
+  bool: 'bcs.bool()',
+  u8: 'bcs.u8()',
+  u16: 'bcs.u16()',
+  u32: 'bcs.u32()',
+  u64: 'bcs.u64()',
+  u128: 'bcs.u128()',
+  u256: 'bcs.u256()',
+  address: 'bcs.Address',
+  ID: 'bcs.Address',
+  String: 'bcs.string()'
+};
+
+const source = readFileSync(MOVE_SOURCE, 'utf8');
+const moduleName = source.match(/^module\s+\w+::(\w+);/m)?.[1];
+if (!moduleName) throw new Error(`No module declaration in ${MOVE_SOURCE}`);
+
+// Objects (`has key`) hold UID/Table handles that are never returned by value, so only data structs are generated
+const structs = [...source.matchAll(/public struct (\w+) has ([\w, ]+) \{([\s\S]*?)\n\}/g)]
+  .filter(([, , abilities]) => !abilities.split(',').map(a => a.trim()).includes('key'))
+  .map(([, name, abilities, body]) => ({
+    name,
+    // copy + drop without store: only emitted as events, never kept in the registry
+    isEvent: !abilities.includes('store'),
+    fields: body
+      .split('\n')
+      .map(line => line.replace(/\/\/.*$/, '').trim())
+      .filter(Boolean)
+      .map(line => {
+        const match = line.match(/^(\w+):\s*(.+?),?$/);
+        if (!match) throw new Error(`Unparsable field in ${name}: ${line}`);
+        return { name: match[1], type: match[2] };
+      })
+  }));
+
+const known = new Set();
+const toBcs = (type, structName) => {
+  const vector = type.match(/^vector<(.+)>$/);
+  if (vector) return `bcs.vector(${toBcs(vector[1], structName)})`;
+  if (PRIMITIVES[type]) return PRIMITIVES[type];
+  if (known.has(type)) return type;
+  throw new Error(`${structName}: unsupported or undeclared type ${type}`);
+};
+
+const blocks = structs.map(({ name, fields }) => {
+  const lines = fields.map(field => `  ${field.name}: ${toBcs(field.type, name)}`);
+  known.add(name);
+  return [
+    `export const ${name} = bcs.struct('${name}', {`,
+    lines.join(',\n'),
+    '});',
+    `export type ${name} = typeof ${name}.$inferType;`
+  ].join('\n');
+});
+
+const output = `// Generated by scripts/generate-registry-types.mjs from contracts/sources/${moduleName}.move — do not edit
+// Field order matches the Move declarations, which is what BCS decoding depends on.
+
+import { bcs } from '@mysten/sui/bcs';
+
+export const MODULE_NAME = '${moduleName}';
+
+${blocks.join('\n\n')}
+
+export const EVENT_TYPES = [${structs.filter(s => s.isEvent).map(s => `'${s.name}'`).join(', ')}] as const;
+`;
+
+writeFileSync(OUTPUT, output);
+console.log(`✅ ${structs.length} structs → ${OUTPUT}`);
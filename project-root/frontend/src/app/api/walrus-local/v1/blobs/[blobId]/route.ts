@@ -0,0 +1,57 @@
+// Local Walrus aggregator: GET /api/walrus-local/v1/blobs/<blobId> (supports single byte ranges)
+
+import { NextResponse } from 'next/server';
+import { createFileSystemBlobStore, isLocalWalrusEnabled, isValidBlobId } from '@/lib/walrus-local-store';
+import { parseRange } from '@/lib/http-range';
+
+export const runtime = 'nodejs';
+
+const store = createFileSystemBlobStore();
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ blobId: string }> }
+) {
+  if (!isLocalWalrusEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { blobId } = await params;
+
+  if (!isValidBlobId(blobId)) {
+    return NextResponse.json({ error: 'Invalid blob ID' }, { status: 400 });
+  }
+
+  const bytes = await store.get(blobId);
+  if (!bytes) {
+    return NextResponse.json({ error: 'Blob not found' }, { status: 404 });
+  }
+
+  const range = parseRange(request.headers.get('range'), bytes.byteLength);
+  if (range === 'invalid') {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${bytes.byteLength}` },
+    });
+  }
+  if (range) {
+    const body = bytes.subarray(range.start, range.end + 1);
+    return new Response(body as Uint8Array<ArrayBuffer>, {
+      status: 206,
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(body.byteLength),
+        'Content-Range': `bytes ${range.start}-${range.end}/${bytes.byteLength}`,
+        'Accept-Ranges': 'bytes',
+      },
+    });
+  }
+
+  return new Response(bytes as Uint8Array<ArrayBuffer>, {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': String(bytes.byteLength),
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
@@ -0,0 +1,54 @@
+// Local Walrus publisher: PUT /api/walrus-local/v1/blobs
+// Mirrors the public publisher response shape so the HTTP transport works unchanged
+
+import { NextRequest, NextResponse } from 'next/server';
+import { computeLocalBlobId } from '@/lib/walrus-transport';
+import {
+  LOCAL_WALRUS_CONFIG,
+  createFileSystemBlobStore,
+  isLocalWalrusEnabled,
+  readBodyWithLimit
+} from '@/lib/walrus-local-store';
+
+export const runtime = 'nodejs';
+
+const store = createFileSystemBlobStore();
+
+export async function PUT(request: NextRequest) {
+  if (!isLocalWalrusEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const tooLarge = () => NextResponse.json(
+    { error: `Blob exceeds ${LOCAL_WALRUS_CONFIG.maxBlobSize} bytes` },
+    { status: 413 }
+  );
+  if (Number(request.headers.get('content-length') ?? 0) > LOCAL_WALRUS_CONFIG.maxBlobSize) {
+    return tooLarge();
+  }
+  const bytes = await readBodyWithLimit(request.body, LOCAL_WALRUS_CONFIG.maxBlobSize);
+  if (!bytes) {
+    return tooLarge();
+  }
+
+  const blobId = await computeLocalBlobId(bytes);
+  const epochs = parseInt(request.nextUrl.searchParams.get('epochs') || '1');
+
+  if (await store.has(blobId)) {
+    return NextResponse.json({
+      alreadyCertified: { blobId, endEpoch: epochs }
+    });
+  }
+
+  await store.put(blobId, bytes);
+
+  return NextResponse.json({
+    newlyCreated: {
+      blobObject: {
+        blobId,
+        size: bytes.byteLength,
+        storage: { startEpoch: 0, endEpoch: epochs }
+      }
+    }
+  });
+}
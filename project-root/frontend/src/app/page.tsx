@@ -13,14 +13,20 @@ import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import RoleSelector from '@/components/RoleSelector'
-import { ConnectButton, useCurrentAccount } from '@mysten/dapp-kit'
+import { ConnectButton, useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage } from '@mysten/dapp-kit'
 import ProjectUpload from '@/components/ProjectUpload'
 import ContractingLoader from '@/components/ContractingLoader'
 import MonitoringDashboard from '@/components/monitoring/MonitoringDashboard'
 import ProviderDashboard from '@/components/provider/ProviderDashboard'
 import MinRequirementsSetup from '@/components/MinRequirementsSetup'
+import ImageVersionsPanel from '@/components/ImageVersionsPanel'
 import { WalletInfo, ProjectUploadData, Deployment } from '@/types'
 import { jobRequestService } from '@/services/jobRequestService'
+import { createSealService } from '@/lib/seal-client'
+import { getOrCreateImageAccessPolicy, syncJobAccess } from '@/lib/seal-policy'
+import { JOB_STATUS, type JobRequest } from '@/contracts/types'
+import { encryptDeploymentSecrets, splitEnvironment, type EnvVariable } from '@/lib/deployment-secrets'
+import type { DockerImage } from '@/lib/docker-registry'
 
 type UserRole = 'user' | 'provider' | null
 type Step = 'wallet' | 'requirements' | 'upload' | 'contracting' | 'monitor'
@@ -38,9 +44,14 @@ export default function Home() {
     min_storage_gb: number
     max_price_per_hour: number
   } | null>(null)
+  const [envVariables, setEnvVariables] = useState<EnvVariable[]>([])
+  // Registry image version the job deploys (freshly uploaded or picked from the version history)
+  const [selectedImage, setSelectedImage] = useState<Pick<DockerImage, 'imageName' | 'version'> | null>(null)
 
   // Get current wallet account from dapp-kit
   const currentAccount = useCurrentAccount()
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage()
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction()
 
   const steps = [
     { id: 'wallet', title: 'Connect Wallet', icon: Wallet, description: 'Connect your Sui wallet to get started' },
@@ -83,6 +94,27 @@ export default function Home() {
     }
   }, [currentAccount, currentStep, walletInfo])
 
+  // Keeps each job's ImageAccessPolicy in line with its status: the accepting provider gets decryption access,
+  // completed/rejected jobs lose it. Grants are signed by the image owner, so this runs on the requester's side.
+  const ownerAddress = currentAccount?.address
+  useEffect(() => {
+    if (!ownerAddress) return
+    const sync = async (job: JobRequest) => {
+      if (!job.policy_id || job.status === JOB_STATUS.PENDING) return
+      try {
+        await syncJobAccess(job.policy_id, job, input => signAndExecute(input))
+      } catch (error) {
+        console.error(`❌ 작업 ${job.id} 접근 권한 동기화 실패:`, error)
+      }
+    }
+
+    // Catch up on transitions made while this page was closed
+    jobRequestService.getRequesterRequests(ownerAddress).then(async jobs => {
+      for (const job of jobs) await sync(job)
+    })
+    return jobRequestService.subscribeToRequesterJobs(ownerAddress, sync)
+  }, [ownerAddress, signAndExecute])
+
   const handleWalletConnect = async (wallet: WalletInfo) => {
     setWalletInfo(wallet)
     setIsCheckingJobs(true)
@@ -115,6 +147,8 @@ export default function Home() {
     setProjectData(null)
     setDeployment(null)
     setMinRequirements(null)
+    setEnvVariables([])
+    setSelectedImage(null)
   }
 
   const handleProjectUpload = async (files: File[]) => {
@@ -130,21 +164,87 @@ export default function Home() {
   }
 
   // New function to handle successful upload completion
-  const handleUploadComplete = (uploadResult: { success: boolean; message: string; cid_code?: string; blobId?: string }) => {
+  const handleUploadComplete = (uploadResult: {
+    success: boolean
+    message: string
+    cid_code?: string
+    blobId?: string
+    imageName?: string
+    version?: string
+  }) => {
     console.log('Upload completed with result:', uploadResult)
+    if (uploadResult.imageName && uploadResult.version) {
+      setSelectedImage({ imageName: uploadResult.imageName, version: uploadResult.version })
+    }
     // Automatically move to contracting step after upload completion
     setCurrentStep('contracting')
   }
 
-  const handleContractingComplete = () => {
+  // Deploy an already registered version instead of uploading again
+  const handleVersionSelect = (image: DockerImage) => {
+    setSelectedImage({ imageName: image.imageName, version: image.version })
+    setProjectData({ files: [], name: image.imageName, description: `${image.imageName}:${image.version}` })
+    setCurrentStep('contracting')
+  }
+
+  const handleContractingComplete = async () => {
+    // Secret values are encrypted into their own blob; only plain variables stay in the deployment
+    const { environment, secrets } = splitEnvironment(envVariables)
+    const imageName = selectedImage?.imageName ?? projectData?.name ?? 'my-project'
+    let policyId: string | undefined
+    let secretsRef: Deployment['secrets']
+    if (Object.keys(secrets).length > 0) {
+      if (!currentAccount) {
+        alert('Secret 변수를 암호화하려면 지갑 연결이 필요합니다.')
+        return
+      }
+      try {
+        // Encrypted under the image's access policy: only the provider that accepts the job can decrypt
+        policyId = await getOrCreateImageAccessPolicy(currentAccount.address, imageName, input => signAndExecute(input))
+        const sealService = createSealService({ address: currentAccount.address, signPersonalMessage })
+        secretsRef = (await encryptDeploymentSecrets(secrets, { sealService, policyId })) ?? undefined
+      } catch (error) {
+        console.error('❌ Secret 암호화 실패:', error)
+        alert(`Secret 암호화 실패: ${error instanceof Error ? error.message : String(error)}`)
+        return
+      }
+    }
+    // The job request carries the secrets ref; the node that accepts it decrypts the blob at container start
+    try {
+      await jobRequestService.createJobRequest(null, {
+        requesterAddress: currentAccount?.address ?? walletInfo?.address ?? '',
+        providerAddress: '', // Open request: the provider is known once a node accepts it
+        projectName: projectData?.name ?? imageName,
+        requirements: {
+          cpu_cores: minRequirements?.min_cpu_cores ?? 1,
+          memory_gb: minRequirements?.min_memory_gb ?? 1,
+          storage_gb: minRequirements?.min_storage_gb ?? 1,
+          bandwidth_mbps: 0
+        },
+        estimatedDuration: 0, // Runs until the requester stops it
+        offeredPrice: minRequirements?.max_price_per_hour ?? 0,
+        imageName: selectedImage ? `${selectedImage.imageName}:${selectedImage.version}` : imageName,
+        policyId,
+        secrets: secretsRef
+      })
+    } catch (error) {
+      console.error('❌ 작업 요청 생성 실패:', error)
+      alert(`작업 요청 생성 실패: ${error instanceof Error ? error.message : String(error)}`)
+      return
+    }
+
+    // Plaintext secret values are not kept around once they are on Walrus
+    setEnvVariables(variables => variables.filter(variable => !variable.secret))
+
     // Automatically create deployment and move to monitoring after contracting completion
     const mockDeployment: Deployment = {
       id: 'deploy-1',
       projectId: 'project-1',
-      version: 'v1.0.0',
+      version: selectedImage?.version ?? 'v1.0.0',
       nodes: [], // Node selection step removed
       status: 'running',
-      environment: {},
+      environment,
+      secrets: secretsRef,
       runtime: 'nodejs',
       resources: {
         cpu: 2,
@@ -167,6 +267,8 @@ export default function Home() {
     setProjectData(null)
     setDeployment(null)
     setMinRequirements(null)
+    setEnvVariables([])
+    setSelectedImage(null)
   }
 
   const handleMinRequirementsComplete = (requirements: {
@@ -174,8 +276,9 @@ export default function Home() {
     min_memory_gb: number
     min_storage_gb: number
     max_price_per_hour: number
-  }) => {
+  }, variables: EnvVariable[]) => {
     setMinRequirements(requirements)
+    setEnvVariables(variables)
     setCurrentStep('upload')
   }
 
@@ -228,26 +331,29 @@ export default function Home() {
 
       case 'upload':
         return (
-          <ProjectUpload
-            onFileUpload={handleProjectUpload}
-            onUploadComplete={handleUploadComplete}
-            maxFileSize={500 * 1024 * 1024} // 500MB for docker images
-            acceptedFileTypes={[
-              '.zip', '.tar.gz', '.tgz', '.tar',
-              '.docker', '.dockerimage',
-              'Dockerfile', '.dockerfile',
-              '.yaml', '.yml',  // Docker compose files
-              '*'  // Accept all files
-            ]}
-            minRequirements={minRequirements}
-          />
+          <>
+            <ProjectUpload
+              onFileUpload={handleProjectUpload}
+              onUploadComplete={handleUploadComplete}
+              acceptedFileTypes={[
+                '.zip', '.tar.gz', '.tgz', '.tar',
+                '.docker', '.dockerimage',
+                'Dockerfile', '.dockerfile',
+                '.yaml', '.yml',  // Docker compose files
+                '*'  // Accept all files
+              ]}
+              minRequirements={minRequirements}
+            />
+            {/* Or deploy a version that is already in the registry */}
+            <ImageVersionsPanel onSelect={handleVersionSelect} selected={selectedImage} />
+          </>
         )
 
       case 'contracting':
         return (
           <ContractingLoader
             onComplete={handleContractingComplete}
-            projectName={projectData?.name || 'Your Project'}
+            projectName={selectedImage ? `${selectedImage.imageName}:${selectedImage.version}` : projectData?.name || 'Your Project'}
           />
         )
 
@@ -0,0 +1,54 @@
+'use client'
+
+import React from 'react'
+import { ArrowLeft, ShieldAlert } from 'lucide-react'
+import { ConnectButton, useCurrentAccount } from '@mysten/dapp-kit'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import SealRecovery from '@/components/SealRecovery'
+import Link from 'next/link'
+
+export default function RecoveryPage() {
+  const currentAccount = useCurrentAccount()
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      {/* Header */}
+      <header className="border-b bg-background/80 backdrop-blur-sm sticky top-0 z-40">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="sm">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  돌아가기
+                </Button>
+              </Link>
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-8 rounded-lg bg-primary flex items-center justify-center">
+                  <ShieldAlert className="w-5 h-5 text-primary-foreground" />
+                </div>
+                <h1 className="text-xl font-bold">Seal 백업 키 복구</h1>
+              </div>
+              <Badge variant="outline">Offline Recovery</Badge>
+            </div>
+            {!currentAccount && <ConnectButton />}
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h2 className="text-2xl font-bold mb-2">Key server 없이 복호화</h2>
+          <p className="text-muted-foreground">
+            Seal key server를 사용할 수 없을 때 백업 키로 암호화된 blob을 직접 복호화합니다.
+            백업 키는 접근 정책을 거치지 않으므로 안전하게 보관하세요.
+          </p>
+        </div>
+
+        <SealRecovery />
+      </div>
+    </div>
+  )
+}
@@ -5,6 +5,9 @@ import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import ProjectUpload from '@/components/ProjectUpload'
+import BlobLifetimePanel from '@/components/BlobLifetimePanel'
+import SealKeyRotationPanel from '@/components/SealKeyRotationPanel'
+import ImageVersionsPanel from '@/components/ImageVersionsPanel'
 import { useCurrentAccount, ConnectButton } from '@mysten/dapp-kit'
 import { Upload, Home } from 'lucide-react'
 import Link from 'next/link'
@@ -86,7 +89,6 @@ export default function UploadPage() {
               <ProjectUpload
                 onFileUpload={handleProjectUpload}
                 onUploadComplete={handleUploadComplete}
-                maxFileSize={500 * 1024 * 1024} // 500MB for docker images
                 acceptedFileTypes={[
                   '.zip', '.tar.gz', '.tgz', '.tar', 
                   '.docker', '.dockerimage',
@@ -98,6 +100,15 @@ export default function UploadPage() {
             )}
           </Card>
 
+          {/* Version history and tags of registered images */}
+          <ImageVersionsPanel />
+
+          {/* Storage lifetime of previous uploads */}
+          <BlobLifetimePanel />
+
+          {/* Re-encrypt Seal-protected uploads under a new key */}
+          <SealKeyRotationPanel />
+
           {/* Info Section */}
           <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-4">
             <Card className="p-4">
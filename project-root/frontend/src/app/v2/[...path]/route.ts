@@ -0,0 +1,240 @@
+// OCI Distribution API:
+//   GET|HEAD /v2/<name>/manifests/<reference>    PUT    /v2/<name>/manifests/<reference>
+//   GET|HEAD /v2/<name>/blobs/<digest>           POST   /v2/<name>/blobs/uploads/
+//   GET      /v2/<name>/tags/list                GET|PATCH|PUT|DELETE /v2/<name>/blobs/uploads/<uuid>
+// <name> may contain slashes, so the path is matched by matchOciRoute instead of with nested route segments
+
+import { NextRequest } from 'next/server';
+import { parseRange } from '@/lib/http-range';
+import { readBodyWithLimit } from '@/lib/walrus-local-store';
+import {
+  OCI_API_HEADERS,
+  OciRegistryError,
+  listRepositoryTags,
+  matchOciRoute,
+  ociErrorResponse,
+  pageTags,
+  parseRepository,
+  resolveBlob,
+  resolveManifest
+} from '@/lib/oci-registry';
+import {
+  OCI_PUSH_CONFIG,
+  appendUpload,
+  assertCanPush,
+  authorizePush,
+  cancelUpload,
+  completeUpload,
+  findPushedBlob,
+  getUploadSession,
+  mountBlob,
+  pushManifest,
+  startUpload,
+  type UploadSession
+} from '@/lib/oci-push';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+const unsupported = (method: string, path: string[]) =>
+  new OciRegistryError('UNSUPPORTED', `unsupported endpoint: ${method} /v2/${path.join('/')}`, 404);
+
+// Headers describing an upload in progress; Range is inclusive, so an empty upload reports 0-0
+const uploadHeaders = (name: string, session: UploadSession) => ({
+  ...OCI_API_HEADERS,
+  Location: `/v2/${name}/blobs/uploads/${session.uuid}`,
+  'Docker-Upload-UUID': session.uuid,
+  Range: `0-${Math.max(0, session.size - 1)}`
+});
+
+const blobCreated = (name: string, digest: string) =>
+  new Response(null, {
+    status: 201,
+    headers: {
+      ...OCI_API_HEADERS,
+      Location: `/v2/${name}/blobs/${digest}`,
+      'Docker-Content-Digest': digest
+    }
+  });
+
+// Start offset of a PATCH chunk; Content-Range is "<start>-<end>" (no "bytes" unit in the distribution spec)
+const chunkStart = (request: NextRequest): number | undefined => {
+  const value = request.headers.get('content-range');
+  const match = value?.match(/^(?:bytes )?(\d+)-(\d+)$/);
+  if (!value) return undefined;
+  if (!match) {
+    throw new OciRegistryError('BLOB_UPLOAD_INVALID', `invalid Content-Range: ${value}`, 416);
+  }
+  return Number(match[1]);
+};
+
+const handle = async (request: NextRequest, path: string[], withBody: boolean): Promise<Response> => {
+  try {
+    const route = matchOciRoute(path);
+    if (!route) {
+      throw unsupported(request.method, path);
+    }
+    const repository = parseRepository(route.name);
+
+    if (route.kind === 'tags') {
+      const { searchParams } = request.nextUrl;
+      const page = pageTags(
+        await listRepositoryTags(repository),
+        searchParams.has('n') ? Number(searchParams.get('n')) : undefined,
+        searchParams.get('last')
+      );
+      const headers = new Headers(OCI_API_HEADERS);
+      if (page.next) {
+        headers.set('Link', `</v2/${route.name}/tags/list?n=${page.next.n}&last=${encodeURIComponent(page.next.last)}>; rel="next"`);
+      }
+      return Response.json({ name: route.name, tags: page.tags }, { headers });
+    }
+
+    if (route.kind === 'upload') {
+      authorizePush(request.headers.get('authorization'));
+      assertCanPush(repository);
+      const session = await getUploadSession(route.uuid);
+      return new Response(null, { status: 204, headers: uploadHeaders(route.name, session) });
+    }
+
+    if (route.kind === 'manifest') {
+      const oci = await resolveManifest(repository, route.reference);
+      return new Response(withBody ? (oci.manifest as Uint8Array<ArrayBuffer>) : null, {
+        headers: {
+          ...OCI_API_HEADERS,
+          'Content-Type': oci.mediaType,
+          'Content-Length': String(oci.manifest.byteLength),
+          'Docker-Content-Digest': oci.digest
+        }
+      });
+    }
+
+    if (route.kind !== 'blob') {
+      throw unsupported(request.method, path);
+    }
+
+    // Blobs pushed here are readable before a manifest references them
+    const blob = (await findPushedBlob(route.digest)) ?? await resolveBlob(repository, route.digest);
+    const headers = {
+      ...OCI_API_HEADERS,
+      'Content-Type': 'application/octet-stream',
+      'Docker-Content-Digest': blob.digest,
+      'Accept-Ranges': 'bytes'
+    };
+    const range = parseRange(request.headers.get('range'), blob.size);
+    if (range === 'invalid') {
+      return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${blob.size}` } });
+    }
+    if (range) {
+      return new Response(withBody ? await blob.open(range, request.signal) : null, {
+        status: 206,
+        headers: {
+          ...headers,
+          'Content-Length': String(range.end - range.start + 1),
+          'Content-Range': `bytes ${range.start}-${range.end}/${blob.size}`
+        }
+      });
+    }
+    return new Response(withBody ? await blob.open(undefined, request.signal) : null, {
+      headers: { ...headers, 'Content-Length': String(blob.size) }
+    });
+  } catch (error) {
+    return ociErrorResponse(error);
+  }
+};
+
+const handlePush = async (request: NextRequest, path: string[]): Promise<Response> => {
+  try {
+    authorizePush(request.headers.get('authorization'));
+    const route = matchOciRoute(path);
+    if (!route) {
+      throw unsupported(request.method, path);
+    }
+    const repository = parseRepository(route.name);
+    assertCanPush(repository);
+    const { searchParams } = request.nextUrl;
+
+    if (route.kind === 'uploads' && request.method === 'POST') {
+      const from = searchParams.get('from');
+      const mount = searchParams.get('mount');
+      if (mount && from) {
+        const mounted = await mountBlob(mount, parseRepository(from));
+        if (mounted) return blobCreated(route.name, mounted.digest);
+      }
+
+      // Monolithic upload: the whole blob in a single POST
+      const digest = searchParams.get('digest');
+      const session = await startUpload();
+      if (digest) {
+        const pushed = await completeUpload(session.uuid, digest, request.body);
+        return blobCreated(route.name, pushed.digest);
+      }
+      return new Response(null, { status: 202, headers: uploadHeaders(route.name, session) });
+    }
+
+    if (route.kind === 'upload' && request.method === 'PATCH') {
+      const session = await appendUpload(route.uuid, request.body, chunkStart(request));
+      return new Response(null, { status: 202, headers: uploadHeaders(route.name, session) });
+    }
+
+    if (route.kind === 'upload' && request.method === 'PUT') {
+      const digest = searchParams.get('digest');
+      if (!digest) {
+        throw new OciRegistryError('DIGEST_INVALID', 'digest query parameter is required', 400);
+      }
+      const pushed = await completeUpload(route.uuid, digest, request.body);
+      return blobCreated(route.name, pushed.digest);
+    }
+
+    if (route.kind === 'upload' && request.method === 'DELETE') {
+      await cancelUpload(route.uuid);
+      return new Response(null, { status: 204, headers: OCI_API_HEADERS });
+    }
+
+    if (route.kind === 'manifest' && request.method === 'PUT') {
+      const body = await readBodyWithLimit(request.body, OCI_PUSH_CONFIG.maxManifestSize);
+      if (!body) {
+        throw new OciRegistryError('SIZE_INVALID', `manifest exceeds ${OCI_PUSH_CONFIG.maxManifestSize} bytes`, 413);
+      }
+      const result = await pushManifest(repository, route.reference, body, request.headers.get('content-type'));
+      return new Response(null, {
+        status: 201,
+        headers: {
+          ...OCI_API_HEADERS,
+          Location: `/v2/${route.name}/manifests/${result.digest}`,
+          'Docker-Content-Digest': result.digest
+        }
+      });
+    }
+
+    throw unsupported(request.method, path);
+  } catch (error) {
+    return ociErrorResponse(error);
+  }
+};
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return handle(request, (await params).path, true);
+}
+
+export async function HEAD(request: NextRequest, { params }: RouteContext) {
+  return handle(request, (await params).path, false);
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  return handlePush(request, (await params).path);
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  return handlePush(request, (await params).path);
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  return handlePush(request, (await params).path);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  return handlePush(request, (await params).path);
+}
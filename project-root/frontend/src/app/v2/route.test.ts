@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { OCI_CONFIG } from '@/lib/oci-registry';
+import { OCI_PUSH_CONFIG, completeUpload, findPushedBlob, startUpload } from '@/lib/oci-push';
+import * as ping from './route';
+import * as api from './[...path]/route';
+
+vi.mock('@/lib/walrus-client', () => ({
+  uploadToWalrus: vi.fn(async () => ({ status: 'success', blobId: 'pushed-blob-id' }))
+}));
+
+const TOKEN = 'push-token';
+const signer = new Ed25519Keypair();
+const repository = `${signer.toSuiAddress()}/myapp`;
+let uploadDir: string;
+
+beforeAll(async () => {
+  uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'oci-push-'));
+  OCI_PUSH_CONFIG.token = TOKEN;
+  OCI_PUSH_CONFIG.directory = uploadDir;
+  OCI_PUSH_CONFIG.sessionTtlMs = 60_000;
+  OCI_CONFIG.signerKey = signer.getSecretKey(); // Read on the first push
+});
+
+afterAll(async () => {
+  await fs.rm(uploadDir, { recursive: true, force: true });
+});
+
+const request = (method: string, url: string, init: { authorization?: string; body?: Uint8Array; headers?: Record<string, string> } = {}) =>
+  new NextRequest(new URL(url, 'http://localhost:3000'), {
+    method,
+    body: init.body as BodyInit | undefined,
+    headers: { ...init.headers, ...(init.authorization ? { Authorization: init.authorization } : {}) }
+  });
+
+const context = (url: string) => ({
+  params: Promise.resolve({ path: new URL(url, 'http://localhost:3000').pathname.replace(/^\/v2\//, '').split('/') })
+});
+
+const sha256 = (bytes: Uint8Array) => `sha256:${createHash('sha256').update(bytes).digest('hex')}`;
+
+describe('/v2/ ping', () => {
+  it('challenges requests without the push token', async () => {
+    const response = ping.GET(request('GET', '/v2/'));
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toMatch(/^Basic realm=/);
+    expect(ping.HEAD(request('HEAD', '/v2/')).status).toBe(401);
+  });
+
+  it('accepts Basic credentials saved by docker login', () => {
+    const basic = `Basic ${Buffer.from(`push:${TOKEN}`).toString('base64')}`;
+    expect(ping.GET(request('GET', '/v2/', { authorization: basic })).status).toBe(200);
+    expect(ping.GET(request('GET', '/v2/', { authorization: 'Basic ' + Buffer.from('push:wrong').toString('base64') })).status).toBe(401);
+  });
+});
+
+describe('blob push', () => {
+  const basic = `Basic ${Buffer.from(`push:${TOKEN}`).toString('base64')}`;
+
+  it('rejects an unauthenticated upload before writing anything', async () => {
+    const url = `/v2/${repository}/blobs/uploads/`;
+    const response = await api.POST(request('POST', url), context(url));
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toMatch(/^Basic realm=/);
+    await expect(fs.readdir(path.join(uploadDir, 'sessions'))).rejects.toThrow();
+  });
+
+  it('follows ping → challenge → authenticated chunked upload', async () => {
+    // Client sees the challenge, then retries with its saved credentials
+    const challenged = ping.GET(request('GET', '/v2/'));
+    expect(challenged.headers.get('www-authenticate')).toBeTruthy();
+
+    const startUrl = `/v2/${repository}/blobs/uploads/`;
+    const started = await api.POST(request('POST', startUrl, { authorization: basic }), context(startUrl));
+    expect(started.status).toBe(202);
+    const location = started.headers.get('location')!;
+
+    const data = new TextEncoder().encode('layer bytes');
+    const patched = await api.PATCH(
+      request('PATCH', location, { authorization: basic, body: data, headers: { 'Content-Range': `0-${data.length - 1}` } }),
+      context(location)
+    );
+    expect(patched.status).toBe(202);
+    expect(patched.headers.get('range')).toBe(`0-${data.length - 1}`);
+
+    const digest = sha256(data);
+    const finishUrl = `${location}?digest=${digest}`;
+    const finished = await api.PUT(request('PUT', finishUrl, { authorization: `Bearer ${TOKEN}` }), context(finishUrl));
+    expect(finished.status).toBe(201);
+    expect(finished.headers.get('docker-content-digest')).toBe(digest);
+    expect(await findPushedBlob(digest)).toMatchObject({ blobId: 'pushed-blob-id', size: data.length });
+  });
+});
+
+describe('staged blob cleanup', () => {
+  const stagedFiles = async () => (await fs.readdir(path.join(uploadDir, 'blobs'))).filter(name => !name.endsWith('.json'));
+
+  it('drops the upload when the digest is already stored', async () => {
+    const data = new TextEncoder().encode('stored twice');
+    const first = await startUpload();
+    await completeUpload(first.uuid, sha256(data), new Blob([data]).stream());
+    // A manifest used it, which removes the staged copy
+    await fs.rm(path.join(uploadDir, 'blobs', sha256(data).slice('sha256:'.length)));
+    const before = await stagedFiles();
+
+    const second = await startUpload();
+    await completeUpload(second.uuid, sha256(data), new Blob([data]).stream());
+    expect(await stagedFiles()).toEqual(before);
+    expect(await fs.readdir(path.join(uploadDir, 'sessions'))).not.toContain(second.uuid);
+  });
+
+  it('expires staged blobs no manifest used', async () => {
+    const old = new Date(Date.now() - 120_000);
+    for (const name of await stagedFiles()) {
+      await fs.utimes(path.join(uploadDir, 'blobs', name), old, old);
+    }
+
+    await startUpload();
+    expect(await stagedFiles()).toEqual([]);
+    expect((await fs.readdir(path.join(uploadDir, 'blobs'))).some(name => name.endsWith('.json'))).toBe(true);
+  });
+});
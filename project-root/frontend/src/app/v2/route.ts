@@ -0,0 +1,25 @@
+// OCI Distribution API version check: GET /v2/ (docker login / pull start here)
+// With push enabled, a request without the push token gets the auth challenge: docker and containerd only send
+// the credentials saved by `docker login` to registries whose ping asked for them. Pulls continue without them.
+
+import { NextRequest } from 'next/server';
+import { OCI_API_HEADERS, OciRegistryError, ociErrorResponse } from '@/lib/oci-registry';
+import { OCI_PUSH_CONFIG, hasPushCredentials } from '@/lib/oci-push';
+
+export const runtime = 'nodejs';
+
+const challenge = (request: NextRequest): Response | null =>
+  OCI_PUSH_CONFIG.token && !hasPushCredentials(request.headers.get('authorization'))
+    ? ociErrorResponse(new OciRegistryError('UNAUTHORIZED', 'authentication required', 401))
+    : null;
+
+export function GET(request: NextRequest) {
+  return challenge(request) ?? Response.json({}, { headers: OCI_API_HEADERS });
+}
+
+export function HEAD(request: NextRequest) {
+  const unauthorized = challenge(request);
+  return unauthorized
+    ? new Response(null, { status: 401, headers: unauthorized.headers })
+    : new Response(null, { headers: OCI_API_HEADERS });
+}
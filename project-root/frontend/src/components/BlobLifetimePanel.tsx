@@ -0,0 +1,238 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { AlertTriangle, Clock, RefreshCw } from 'lucide-react'
+import { useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import {
+  listBlobLifetimes,
+  getBlobLifetime,
+  fetchStoredEndEpoch,
+  getWalrusEpochInfo,
+  getLifetimeStatus,
+  estimateExpiry,
+  extendBlobLifetimes,
+  subscribeBlobLifetimes,
+  type BlobLifetimeRecord,
+  type BlobLifetimeStatus,
+  type WalrusEpochInfo
+} from '@/lib/walrus-lifetime'
+import { extractBlobId } from '@/lib/walrus-client'
+
+const STATUS_STYLES: Record<BlobLifetimeStatus, string> = {
+  active: 'bg-green-500/10 text-green-500 border-green-500/20',
+  expiring: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  expired: 'bg-red-500/10 text-red-500 border-red-500/20',
+  unknown: 'bg-muted text-muted-foreground'
+}
+
+const STATUS_LABELS: Record<BlobLifetimeStatus, string> = {
+  active: '보관 중',
+  expiring: '만료 임박',
+  expired: '만료됨',
+  unknown: '알 수 없음'
+}
+
+const useWalrusEpochInfo = (): WalrusEpochInfo | null => {
+  const [epochInfo, setEpochInfo] = useState<WalrusEpochInfo | null>(null)
+
+  useEffect(() => {
+    getWalrusEpochInfo()
+      .then(setEpochInfo)
+      .catch(error => console.warn('⚠️ Walrus epoch 조회 실패:', error))
+  }, [])
+
+  return epochInfo
+}
+
+const describeExpiry = (endEpoch: number | undefined, epochInfo: WalrusEpochInfo | null): string => {
+  if (endEpoch === undefined) return 'end epoch unknown'
+  if (!epochInfo) return `epoch ${endEpoch}`
+  return `epoch ${endEpoch} · ~${estimateExpiry(endEpoch, epochInfo).toLocaleDateString()}`
+}
+
+/**
+ * Compact expiry badge for a registered image; renders nothing for blobs uploaded elsewhere
+ */
+// Local upload record first; otherwise the end epoch is read from Walrus (owned Blob objects for deletable blobs)
+export const BlobExpiryBadge: React.FC<{ blobUrl: string; owner?: string }> = ({ blobUrl, owner }) => {
+  const blobId = extractBlobId(blobUrl)
+  const [endEpoch, setEndEpoch] = useState<number | undefined>(undefined)
+  const epochInfo = useWalrusEpochInfo()
+
+  useEffect(() => {
+    if (!blobId) return
+    let cancelled = false
+    const load = async () => {
+      const record = await getBlobLifetime(blobId)
+      const next = record?.endEpoch ?? await fetchStoredEndEpoch(blobId, owner).catch(error => {
+        console.warn('⚠️ Blob 만료 epoch 조회 실패:', error)
+        return undefined
+      })
+      if (!cancelled) setEndEpoch(next)
+    }
+    load()
+    const unsubscribe = subscribeBlobLifetimes(load)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [blobId, owner])
+
+  if (endEpoch === undefined) return null
+
+  const status = getLifetimeStatus(endEpoch, epochInfo)
+  return (
+    <Badge variant="outline" className={STATUS_STYLES[status]} title={describeExpiry(endEpoch, epochInfo)}>
+      <Clock className="w-3 h-3 mr-1" />
+      {STATUS_LABELS[status]} · {describeExpiry(endEpoch, epochInfo)}
+    </Badge>
+  )
+}
+
+const BlobLifetimePanel: React.FC = () => {
+  const currentAccount = useCurrentAccount()
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction()
+  const epochInfo = useWalrusEpochInfo()
+  const [records, setRecords] = useState<BlobLifetimeRecord[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [epochs, setEpochs] = useState(5)
+  const [isExtending, setIsExtending] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const owner = currentAccount?.address
+
+  useEffect(() => {
+    if (!owner) return
+    const load = () => listBlobLifetimes(owner).then(setRecords)
+    load()
+    return subscribeBlobLifetimes(load)
+  }, [owner])
+
+  const handleExtend = useCallback(async (targets: BlobLifetimeRecord[]) => {
+    if (!owner || targets.length === 0) return
+
+    setIsExtending(true)
+    setMessage(null)
+    try {
+      const results = await extendBlobLifetimes(targets, {
+        epochs,
+        owner,
+        signAndExecute: input => signAndExecute(input)
+      })
+      const failed = results.filter(result => result.status === 'error')
+      setMessage(
+        failed.length === 0
+          ? `✅ ${results.length}개 항목을 ${epochs} epoch 연장했습니다`
+          : `⚠️ ${failed.length}/${results.length}개 연장 실패: ${failed[0].error}`
+      )
+      setSelected(new Set())
+    } catch (error) {
+      setMessage(`❌ 연장 실패: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setIsExtending(false)
+    }
+  }, [owner, epochs, signAndExecute])
+
+  if (!owner || records.length === 0) return null
+
+  const statuses = new Map(records.map(record => [record.blobId, getLifetimeStatus(record.endEpoch, epochInfo)]))
+  const atRisk = records.filter(record => {
+    const status = statuses.get(record.blobId)
+    return status === 'expiring' || status === 'expired'
+  })
+
+  const toggle = (blobId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(blobId)) {
+        next.delete(blobId)
+      } else {
+        next.add(blobId)
+      }
+      return next
+    })
+  }
+
+  return (
+    <Card className="p-6 mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Clock className="w-4 h-4" />
+          Storage Lifetime
+        </h3>
+        {epochInfo && (
+          <span className="text-xs text-muted-foreground">Current epoch: {epochInfo.epoch}</span>
+        )}
+      </div>
+
+      {atRisk.length > 0 && (
+        <div className="flex items-center justify-between gap-3 p-3 mb-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10 text-sm">
+          <span className="flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-500" />
+            {atRisk.length}개 이미지의 저장 기간이 곧 만료되거나 만료되었습니다
+          </span>
+          <Button size="sm" variant="outline" disabled={isExtending} onClick={() => handleExtend(atRisk)}>
+            모두 연장
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {records.map(record => {
+          const status = statuses.get(record.blobId) ?? 'unknown'
+          return (
+            <div key={record.blobId} className="flex items-center gap-3 p-3 rounded-lg bg-muted/30 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.has(record.blobId)}
+                onChange={() => toggle(record.blobId)}
+                disabled={isExtending}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{record.label}</div>
+                <div className="text-xs text-muted-foreground font-mono truncate">{record.blobId}</div>
+              </div>
+              <div className="text-xs text-muted-foreground whitespace-nowrap">
+                {describeExpiry(record.endEpoch, epochInfo)}
+              </div>
+              <Badge variant="outline" className={STATUS_STYLES[status]}>
+                {STATUS_LABELS[status]}
+              </Badge>
+              <Button size="sm" variant="outline" disabled={isExtending} onClick={() => handleExtend([record])}>
+                <RefreshCw className="w-3 h-3 mr-1" />
+                Extend
+              </Button>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center gap-3 mt-4">
+        <Input
+          type="number"
+          min={1}
+          value={epochs}
+          onChange={event => setEpochs(Math.max(1, Number(event.target.value) || 1))}
+          className="w-24"
+          disabled={isExtending}
+        />
+        <span className="text-sm text-muted-foreground">epochs</span>
+        <Button
+          size="sm"
+          disabled={isExtending || selected.size === 0}
+          onClick={() => handleExtend(records.filter(record => selected.has(record.blobId)))}
+        >
+          {isExtending ? '연장 중...' : `선택 항목 연장 (${selected.size})`}
+        </Button>
+      </div>
+
+      {message && <p className="text-sm mt-3">{message}</p>}
+    </Card>
+  )
+}
+
+export default BlobLifetimePanel
@@ -24,6 +24,7 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { SECRET_MASK, looksLikeSecretName, redactEnvInSpec } from '@/lib/deployment-secrets'
 
 interface BuildMetadata {
   sourceId: string
@@ -39,7 +40,7 @@ interface BuildMetadata {
       requests: { cpu: string; memory: string }
       limits: { cpu: string; memory: string }
     }
-    env: Array<{ name: string; value: string }>
+    env: Array<{ name: string; value: string; secret?: boolean }>
     command?: string[]
   }
   environment: {
@@ -565,7 +566,9 @@ export default function BuildDashboard({ backendUrl, authToken }: BuildDashboard
                               {buildResult.metadata.kubernetesSpec.env.map((env, index) => (
                                 <div key={index} className="flex items-center justify-between p-2 bg-muted rounded text-sm">
                                   <code>{env.name}</code>
-                                  <code className="text-muted-foreground">{env.value}</code>
+                                  <code className="text-muted-foreground">
+                                    {env.secret || looksLikeSecretName(env.name) ? SECRET_MASK : env.value}
+                                  </code>
                                 </div>
                               ))}
                             </div>
@@ -575,7 +578,14 @@ export default function BuildDashboard({ backendUrl, authToken }: BuildDashboard
                             <label className="text-sm font-medium">Deployment YAML</label>
                             <div className="mt-2 p-3 bg-black text-green-400 rounded-lg overflow-x-auto">
                               <pre className="text-xs whitespace-pre-wrap">
-                                {JSON.stringify(buildResult.kubernetes.deployment, null, 2)}
+                                {JSON.stringify(
+                                  redactEnvInSpec(
+                                    buildResult.kubernetes.deployment,
+                                    buildResult.metadata.kubernetesSpec.env.filter(env => env.secret).map(env => env.name)
+                                  ),
+                                  null,
+                                  2
+                                )}
                               </pre>
                             </div>
                           </div>
@@ -0,0 +1,78 @@
+'use client'
+
+import React from 'react'
+import { Lock, LockOpen, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { looksLikeSecretName, type EnvVariable } from '@/lib/deployment-secrets'
+
+interface EnvironmentVariablesEditorProps {
+  variables: EnvVariable[]
+  onChange: (variables: EnvVariable[]) => void
+}
+
+// Secret values are typed into password fields and only leave the browser Seal-encrypted
+const EnvironmentVariablesEditor: React.FC<EnvironmentVariablesEditorProps> = ({ variables, onChange }) => {
+  const update = (index: number, patch: Partial<EnvVariable>) => {
+    onChange(variables.map((variable, i) => {
+      if (i !== index) return variable
+      const next = { ...variable, ...patch }
+      // Pre-mark credential-looking names until the user toggles the lock themselves
+      if (patch.name !== undefined && !variable.secret && looksLikeSecretName(patch.name)) {
+        next.secret = true
+      }
+      return next
+    }))
+  }
+
+  return (
+    <div className="space-y-2">
+      {variables.map((variable, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder="NAME"
+            value={variable.name}
+            onChange={(e) => update(index, { name: e.target.value.toUpperCase() })}
+            className="font-mono w-1/3"
+          />
+          <Input
+            placeholder="value"
+            type={variable.secret ? 'password' : 'text'}
+            autoComplete="off"
+            value={variable.value}
+            onChange={(e) => update(index, { value: e.target.value })}
+            className="font-mono flex-1"
+          />
+          <Button
+            type="button"
+            variant={variable.secret ? 'default' : 'outline'}
+            size="sm"
+            title={variable.secret ? 'Secret (Seal 암호화)' : '평문 변수'}
+            onClick={() => update(index, { secret: !variable.secret })}
+          >
+            {variable.secret ? <Lock className="w-4 h-4" /> : <LockOpen className="w-4 h-4" />}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(variables.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...variables, { name: '', value: '', secret: false }])}
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add variable
+      </Button>
+    </div>
+  )
+}
+
+export default EnvironmentVariablesEditor
@@ -0,0 +1,232 @@
+'use client'
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
+import { ArrowUp, Download, Plus, RefreshCw, Star, Trash2 } from 'lucide-react'
+import { useSignAndExecuteTransaction } from '@mysten/dapp-kit'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { getDockerRegistryClient, type MirrorChange } from '@/lib/docker-registry'
+import { isAbortError, isIntegrityError } from '@/lib/walrus-client'
+import { saveStreamToDisk } from '@/lib/walrus-stream'
+import {
+  checkMirrors,
+  downloadWithFailover,
+  getMirrorStatuses,
+  subscribeMirrorStatuses,
+  type MirrorSource,
+  type MirrorStatus
+} from '@/lib/mirror-downloader'
+
+interface ImageMirrorListProps {
+  imageName: string
+  version: string
+  source: MirrorSource
+  // Owner view: add, remove, reorder and pick the primary mirror on-chain
+  editable?: boolean
+  onChanged?: () => void
+}
+
+const STATUS_STYLES: Record<MirrorStatus['status'], string> = {
+  healthy: 'bg-green-500/10 text-green-500 border-green-500/20',
+  degraded: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  down: 'bg-red-500/10 text-red-500 border-red-500/20'
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Download mirrors of one image version with their health, and failover download
+ */
+const ImageMirrorList: React.FC<ImageMirrorListProps> = ({ imageName, version, source, editable, onChanged }) => {
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction()
+  const [statuses, setStatuses] = useState<MirrorStatus[]>(() => getMirrorStatuses(source))
+  const [newUrl, setNewUrl] = useState('')
+  const [isChecking, setIsChecking] = useState(false)
+  const [pending, setPending] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // Rebuilt from primitives so a parent re-render with the same mirror list does not re-run the health check
+  const urlList = source.downloadUrls.join('\n')
+  const { primaryUrlIndex, contentDigest } = source
+  const mirrors = useMemo<MirrorSource>(
+    () => ({ downloadUrls: urlList ? urlList.split('\n') : [], primaryUrlIndex, contentDigest }),
+    [urlList, primaryUrlIndex, contentDigest]
+  )
+
+  const check = useCallback(async () => {
+    setIsChecking(true)
+    try {
+      setStatuses(await checkMirrors(mirrors))
+    } finally {
+      setIsChecking(false)
+    }
+  }, [mirrors])
+
+  useEffect(() => {
+    setStatuses(getMirrorStatuses(mirrors))
+    const unsubscribe = subscribeMirrorStatuses(mirrors, () => setStatuses(getMirrorStatuses(mirrors)))
+    check()
+    return unsubscribe
+  }, [mirrors, check])
+
+  // Resolves to whether the change landed on-chain
+  const change = async (key: string, mirrorChange: MirrorChange, done: string): Promise<boolean> => {
+    setPending(key)
+    setMessage(null)
+    try {
+      const registry = getDockerRegistryClient()
+      const digest = await registry.updateMirrors(imageName, version, mirrorChange, {
+        signAndExecuteTransaction: input => signAndExecute(input)
+      })
+      await registry.waitForTransaction(digest)
+      setMessage(`✅ ${done}`)
+      onChanged?.()
+      return true
+    } catch (error) {
+      console.error('❌ 미러 변경 실패:', error)
+      setMessage(`❌ ${errorMessage(error)}`)
+      return false
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleAdd = async () => {
+    const url = newUrl.trim()
+    if (!url) return
+    if (await change('add', { kind: 'add', url }, `미러 추가: ${url}`)) setNewUrl('')
+  }
+
+  const handleRemove = (mirror: MirrorStatus) => {
+    if (!confirm(`${mirror.url} 미러를 제거할까요?`)) return
+    change(`remove:${mirror.index}`, { kind: 'remove', urlIndex: mirror.index }, `미러 제거: ${mirror.url}`)
+  }
+
+  const handleDownload = async () => {
+    setPending('download')
+    setMessage(null)
+    try {
+      let from = ''
+      let bytesRead = 0
+      await saveStreamToDisk(async () => {
+        const download = await downloadWithFailover(mirrors, { onProgress: read => { bytesRead = read } })
+        from = download.source
+        return download.stream
+      }, { suggestedName: `${imageName}_${version}`.replace(/[^\w.-]+/g, '_') })
+      setMessage(`✅ ${bytesRead} bytes 다운로드 (${from})`)
+    } catch (error) {
+      if (isAbortError(error)) {
+        setMessage('다운로드가 취소되었습니다')
+      } else if (isIntegrityError(error)) {
+        setMessage('❌ 무결성 검증 실패: 파일이 저장되지 않았습니다')
+      } else {
+        setMessage(`❌ ${errorMessage(error)}`)
+      }
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const busy = pending !== null
+
+  return (
+    <div className="space-y-2 text-xs">
+      {statuses.map(mirror => (
+        <div key={`${mirror.index}:${mirror.url}`} className="flex items-center gap-2">
+          <Badge
+            variant="outline"
+            className={mirror.checked ? STATUS_STYLES[mirror.status] : ''}
+            title={mirror.lastError ? `last error: ${mirror.lastError}` : undefined}
+          >
+            {mirror.checked ? mirror.status : 'unchecked'}
+            {mirror.avgLatencyMs !== null && ` · ${Math.round(mirror.avgLatencyMs)}ms`}
+          </Badge>
+          {mirror.primary && (
+            <Badge variant="secondary" className="gap-1">
+              <Star className="w-3 h-3" />
+              primary
+            </Badge>
+          )}
+          <a
+            href={mirror.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex-1 min-w-0 truncate text-blue-600 hover:underline font-mono"
+          >
+            {mirror.url}
+          </a>
+          {editable && (
+            <>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy || mirror.index === 0}
+                onClick={() => change(
+                  `move:${mirror.index}`,
+                  { kind: 'move', from: mirror.index, to: mirror.index - 1 },
+                  `미러 순서 변경: ${mirror.url}`
+                )}
+                aria-label={`${mirror.url} 위로 이동`}
+              >
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy || mirror.primary}
+                onClick={() => change(
+                  `primary:${mirror.index}`,
+                  { kind: 'setPrimary', urlIndex: mirror.index },
+                  `기본 미러 변경: ${mirror.url}`
+                )}
+                aria-label={`${mirror.url} 기본 미러로 지정`}
+              >
+                <Star className="w-3 h-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={busy || statuses.length <= 1}
+                onClick={() => handleRemove(mirror)}
+                aria-label={`${mirror.url} 제거`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </>
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        {editable && (
+          <>
+            <Input
+              placeholder="https://mirror.example.com/..."
+              value={newUrl}
+              onChange={event => setNewUrl(event.target.value)}
+              className="flex-1 min-w-48 h-8"
+              disabled={busy}
+            />
+            <Button size="sm" variant="outline" disabled={busy || !newUrl.trim()} onClick={handleAdd}>
+              <Plus className="w-3 h-3 mr-1" />
+              {pending === 'add' ? '처리 중...' : 'Add mirror'}
+            </Button>
+          </>
+        )}
+        <Button size="sm" variant="outline" disabled={isChecking} onClick={check}>
+          <RefreshCw className={`w-3 h-3 mr-1 ${isChecking ? 'animate-spin' : ''}`} />
+          Check
+        </Button>
+        <Button size="sm" variant="outline" disabled={busy} onClick={handleDownload}>
+          <Download className="w-3 h-3 mr-1" />
+          {pending === 'download' ? '다운로드 중...' : 'Download (failover)'}
+        </Button>
+      </div>
+
+      {message && <p className="text-muted-foreground break-all">{message}</p>}
+    </div>
+  )
+}
+
+export default ImageMirrorList
@@ -0,0 +1,262 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { History, Link2, Plus, Tag, Trash2, X } from 'lucide-react'
+import { useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import ImageMirrorList from '@/components/ImageMirrorList'
+import {
+  getDockerRegistryClient,
+  isRegistryConfigured,
+  type DockerImage,
+  type ImageVersionHistory
+} from '@/lib/docker-registry'
+import { extractBlobId } from '@/lib/walrus-client'
+import { deleteBlobs } from '@/lib/walrus-lifetime'
+
+interface ImageVersionsPanelProps {
+  // When set, each version gets a "Use" button (e.g. choosing what a new job deploys)
+  onSelect?: (image: DockerImage) => void
+  selected?: Pick<DockerImage, 'imageName' | 'version'> | null
+}
+
+/**
+ * Version history and tags of the connected wallet's registry images
+ */
+const ImageVersionsPanel: React.FC<ImageVersionsPanelProps> = ({ onSelect, selected }) => {
+  const currentAccount = useCurrentAccount()
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction()
+  const [histories, setHistories] = useState<ImageVersionHistory[]>([])
+  const [newTags, setNewTags] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [pending, setPending] = useState<string | null>(null)
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null)
+  const [showingMirrors, setShowingMirrors] = useState<string | null>(null)
+  const [alsoDeleteBlobs, setAlsoDeleteBlobs] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const owner = currentAccount?.address
+
+  const load = useCallback(async () => {
+    if (!owner || !isRegistryConfigured()) return
+    setIsLoading(true)
+    try {
+      setHistories(await getDockerRegistryClient().getVersionHistories(owner))
+    } catch (error) {
+      console.error('❌ 이미지 버전 조회 실패:', error)
+      setMessage(`❌ ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [owner])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  // task returns the message to show once it (and the registry reload) is done
+  const run = async (key: string, task: () => Promise<string>) => {
+    setPending(key)
+    setMessage(null)
+    try {
+      setMessage(await task())
+      await load()
+    } catch (error) {
+      console.error('❌ 레지스트리 변경 실패:', error)
+      setMessage(`❌ ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const signer = { signAndExecuteTransaction: (input: Parameters<typeof signAndExecute>[0]) => signAndExecute(input) }
+  const confirmed = (digest: string) => getDockerRegistryClient().waitForTransaction(digest)
+
+  const handleTag = (image: DockerImage) => {
+    const key = `${image.imageName}:${image.version}`
+    const tag = (newTags[key] ?? '').trim()
+    if (!tag) return
+    run(key, async () => {
+      await confirmed(await getDockerRegistryClient().tagImage(image.imageName, image.version, tag, signer))
+      setNewTags(prev => ({ ...prev, [key]: '' }))
+      return `✅ ${image.imageName}:${tag} → ${image.version}`
+    })
+  }
+
+  const handleUntag = (imageName: string, tag: string) => {
+    if (!confirm(`${imageName}:${tag} 태그를 제거할까요? (버전은 남습니다)`)) return
+    run(`${imageName}#${tag}`, async () => {
+      await confirmed(await getDockerRegistryClient().untagImage(imageName, tag, signer))
+      return `✅ ${imageName}:${tag} 태그 제거`
+    })
+  }
+
+  const handleDelete = (image: DockerImage) => {
+    if (!owner) return
+    const key = `${image.imageName}:${image.version}`
+    const withBlobs = alsoDeleteBlobs
+    setConfirmingDelete(null)
+    run(key, async () => {
+      // Unpublish first so the registry never points at a deleted blob
+      await confirmed(await getDockerRegistryClient().deleteImage(image.imageName, image.version, signer))
+      if (!withBlobs) return `✅ ${key} 삭제 (Walrus blob은 만료될 때까지 남음)`
+
+      // Blobs another version still points at (same content registered twice) are kept
+      const stillUsed = new Set(
+        histories
+          .flatMap(history => history.versions)
+          .filter(other => other !== image)
+          .flatMap(other => other.downloadUrls.map(extractBlobId))
+      )
+      const blobIds = [...new Set(image.downloadUrls.map(extractBlobId))]
+        .filter((blobId): blobId is string => !!blobId && !stillUsed.has(blobId))
+      const results = await deleteBlobs(blobIds, { owner, signAndExecute: signer.signAndExecuteTransaction })
+      const kept = results.filter(result => result.status !== 'deleted')
+      return kept.length === 0
+        ? `✅ ${key} 삭제 (Walrus blob ${results.length}개 포함)`
+        : `⚠️ ${key}는 레지스트리에서 삭제했지만 blob ${kept.length}개는 남음: ${kept[0].reason ?? kept[0].error}`
+    })
+  }
+
+  if (!owner) return null
+
+  return (
+    <Card className="p-6 mt-8">
+      <h3 className="font-semibold flex items-center gap-2 mb-4">
+        <History className="w-4 h-4" />
+        Image Versions
+      </h3>
+
+      {isLoading && histories.length === 0 && (
+        <p className="text-sm text-muted-foreground">불러오는 중...</p>
+      )}
+      {!isLoading && histories.length === 0 && (
+        <p className="text-sm text-muted-foreground">등록된 이미지가 없습니다.</p>
+      )}
+
+      <div className="space-y-6">
+        {histories.map(history => (
+          <div key={history.imageName} className="space-y-2">
+            <div className="font-medium">{history.imageName}</div>
+            {[...history.versions].reverse().map(image => {
+              const key = `${image.imageName}:${image.version}`
+              const tags = history.tags.filter(tag => tag.version === image.version)
+              const isSelected = selected?.imageName === image.imageName && selected.version === image.version
+              return (
+                <div
+                  key={key}
+                  className={`flex flex-wrap items-center gap-3 p-3 rounded-lg text-sm ${isSelected ? 'bg-primary/10' : 'bg-muted/30'}`}
+                >
+                  <div className="min-w-0">
+                    <div className="font-mono">{image.version}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(image.timestamp).toLocaleString()} · {image.contentDigest.slice(7, 19) || 'no digest'}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1 flex-1">
+                    {tags.map(tag => (
+                      <Badge key={tag.tag} variant="outline" className="gap-1">
+                        <Tag className="w-3 h-3" />
+                        {tag.tag}
+                        <button
+                          type="button"
+                          aria-label={`${tag.tag} 태그 제거`}
+                          disabled={pending !== null}
+                          onClick={() => handleUntag(tag.imageName, tag.tag)}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                  <Input
+                    placeholder="tag"
+                    value={newTags[key] ?? ''}
+                    onChange={event => setNewTags(prev => ({ ...prev, [key]: event.target.value }))}
+                    className="w-28 h-8"
+                    disabled={pending !== null}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={pending !== null || !(newTags[key] ?? '').trim()}
+                    onClick={() => handleTag(image)}
+                    title="태그 지정 (다른 버전에 있으면 이 버전으로 이동)"
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    {pending === key ? '처리 중...' : 'Tag'}
+                  </Button>
+                  {onSelect && (
+                    <Button size="sm" variant={isSelected ? 'default' : 'outline'} onClick={() => onSelect(image)}>
+                      Use
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setShowingMirrors(showingMirrors === key ? null : key)}
+                    title="다운로드 미러 관리"
+                  >
+                    <Link2 className="w-3 h-3 mr-1" />
+                    Mirrors ({image.downloadUrls.length})
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={pending !== null}
+                    onClick={() => {
+                      setAlsoDeleteBlobs(false)
+                      setConfirmingDelete(confirmingDelete === key ? null : key)
+                    }}
+                    aria-label={`${key} 삭제`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                  {showingMirrors === key && (
+                    <div className="basis-full pt-2 border-t">
+                      <ImageMirrorList
+                        imageName={image.imageName}
+                        version={image.version}
+                        source={image}
+                        editable
+                        onChanged={load}
+                      />
+                    </div>
+                  )}
+                  {confirmingDelete === key && (
+                    <div className="basis-full flex flex-wrap items-center gap-3 pt-2 border-t border-destructive/20">
+                      <span className="text-destructive">
+                        {key}를 레지스트리에서 삭제합니다. 이 버전의 태그도 제거되며 되돌릴 수 없습니다.
+                      </span>
+                      <label className="flex items-center gap-2 text-muted-foreground">
+                        <input
+                          type="checkbox"
+                          checked={alsoDeleteBlobs}
+                          onChange={event => setAlsoDeleteBlobs(event.target.checked)}
+                        />
+                        Walrus blob도 삭제
+                      </label>
+                      <Button size="sm" variant="destructive" onClick={() => handleDelete(image)}>
+                        삭제
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setConfirmingDelete(null)}>
+                        취소
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+
+      {message && <p className="text-sm mt-3">{message}</p>}
+    </Card>
+  )
+}
+
+export default ImageVersionsPanel
@@ -2,11 +2,13 @@
 
 import React, { useState } from 'react'
 import { motion } from 'framer-motion'
-import { ArrowRight, Cpu, HardDrive, MemoryStick, DollarSign } from 'lucide-react'
+import { ArrowRight, Cpu, HardDrive, MemoryStick, DollarSign, KeyRound } from 'lucide-react'
 import { Card } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import EnvironmentVariablesEditor from '@/components/EnvironmentVariablesEditor'
+import { validateEnvVariables, type EnvVariable } from '@/lib/deployment-secrets'
 
 export interface MinRequirements {
   min_cpu_cores: number
@@ -16,7 +18,7 @@ export interface MinRequirements {
 }
 
 interface MinRequirementsSetupProps {
-  onComplete: (requirements: MinRequirements) => void
+  onComplete: (requirements: MinRequirements, envVariables: EnvVariable[]) => void
   onCancel?: () => void
 }
 
@@ -32,6 +34,8 @@ const MinRequirementsSetup: React.FC<MinRequirementsSetupProps> = ({
   })
 
   const [errors, setErrors] = useState<Partial<MinRequirements>>({})
+  const [envVariables, setEnvVariables] = useState<EnvVariable[]>([])
+  const [envErrors, setEnvErrors] = useState<string[]>([])
 
   const validateRequirements = (): boolean => {
     const newErrors: Partial<MinRequirements> = {}
@@ -57,8 +61,13 @@ const MinRequirementsSetup: React.FC<MinRequirementsSetupProps> = ({
   }
 
   const handleSubmit = () => {
-    if (validateRequirements()) {
-      onComplete(requirements)
+    // Empty rows are ignored rather than reported
+    const filledVariables = envVariables.filter(variable => variable.name || variable.value)
+    const variableErrors = validateEnvVariables(filledVariables)
+    setEnvErrors(variableErrors)
+
+    if (validateRequirements() && variableErrors.length === 0) {
+      onComplete(requirements, filledVariables)
     }
   }
 
@@ -227,6 +236,23 @@ const MinRequirementsSetup: React.FC<MinRequirementsSetupProps> = ({
               </div>
             </div>
 
+            {/* Environment Variables */}
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <KeyRound className="w-5 h-5 text-red-600" />
+                <Label className="text-lg font-semibold">
+                  Environment variables
+                </Label>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Variables marked with the lock are encrypted with Seal into a separate Walrus blob; only the assigned node can decrypt them when the container starts.
+              </p>
+              <EnvironmentVariablesEditor variables={envVariables} onChange={setEnvVariables} />
+              {envErrors.map(error => (
+                <p key={error} className="text-red-500 text-sm">{error}</p>
+              ))}
+            </div>
+
             {/* Summary */}
             <div className="bg-muted/30 p-6 rounded-lg">
               <h3 className="font-semibold mb-4">Summary</h3>
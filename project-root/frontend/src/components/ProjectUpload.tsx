@@ -9,17 +9,28 @@ import { Card } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Progress } from '@/components/ui/progress'
-import { WalletInfo } from '@/types'
-import { useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit'
-import { uploadToWalrus, type WalrusProjectUploadResult } from '@/lib/walrus-client'
-import { PACKAGE_ID, REGISTRY_ID } from '@/lib/docker-registry'
-import { Transaction } from '@mysten/sui/transactions'
+import { WalletInfo, UploadProgress } from '@/types'
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage } from '@mysten/dapp-kit'
+import { uploadToWalrus, uploadProjectWithSeal, isAbortError, setWalrusTransport, type WalrusProjectUploadResult, type WalrusUploadOptions, type WalrusUploadProgress, type WalrusUploadResult } from '@/lib/walrus-client'
+import { createSealService } from '@/lib/seal-client'
+import { PACKAGE_ID, REGISTRY_ID, defaultImageVersion, getDockerRegistryClient, parseImageReference } from '@/lib/docker-registry'
+import WalrusEndpointStatus from '@/components/WalrusEndpointStatus'
+import { uploadDockerImageToWalrus } from '@/lib/walrus-docker'
+import { isDockerSaveArchive } from '@/lib/docker-image-tar'
+import { recordBlobLifetime } from '@/lib/walrus-lifetime'
+import { collectArchiveEntries, createProjectArchive, type ArchiveFormat } from '@/lib/project-archive'
+import StorageCostEstimate from '@/components/StorageCostEstimate'
+import { createWalletTransport } from '@/lib/walrus-transport'
+import { createWalletIntegratedClient } from '@/lib/walrus-wallet-client'
+
+// Wallet payment replaces the public publisher; local/memory transports never reach Walrus
+const WALLET_PAYMENT_AVAILABLE = !process.env.NEXT_PUBLIC_WALRUS_TRANSPORT || process.env.NEXT_PUBLIC_WALRUS_TRANSPORT === 'http'
 
 interface FileUpload {
   id: string
   file: File
   progress: number
-  status: 'uploading' | 'completed' | 'error'
+  status: UploadProgress['status']
   path: string
   type: 'project' | 'docker'
 }
@@ -47,6 +58,8 @@ interface UploadResult {
   message: string
   cid_code?: string
   blobId?: string
+  imageName?: string
+  version?: string // 온체인에 등록된 버전
 }
 
 interface ProjectUploadProps {
@@ -65,33 +78,44 @@ interface ProjectUploadProps {
 
 const ProjectUpload: React.FC<ProjectUploadProps> = ({
   onUploadComplete,
-  maxFileSize = 500 * 1024 * 1024, // 500MB for docker images
+  maxFileSize, // 기본값 없음: 대용량 파일은 청크 업로드로 처리
   acceptedFileTypes = ['.zip', '.tar.gz', '.tgz', '.tar', '.docker', '.dockerimage'],
   walletInfo,
   minRequirements
 }) => {
   // Wallet hooks
   const currentAccount = useCurrentAccount()
-  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction()
+  const { mutate: signAndExecuteTransaction, mutateAsync: signAndExecuteTransactionAsync } = useSignAndExecuteTransaction()
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage()
 
   const [activeTab, setActiveTab] = useState<'project' | 'docker'>('project')
   const [isDragOver, setIsDragOver] = useState(false)
   const [uploads, setUploads] = useState<FileUpload[]>([])
   const [uploadResponse, setUploadResponse] = useState<WalrusProjectUploadResult | null>(null)
   const [dockerImageName, setDockerImageName] = useState('')
+  const [imageVersion, setImageVersion] = useState('')
+  const [imageTags, setImageTags] = useState('latest')
   const [fileTree, setFileTree] = useState<FileTreeNode[]>([])
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
+  const [archiveFormat, setArchiveFormat] = useState<ArchiveFormat>('tar.gz')
+  const [storageEpochs, setStorageEpochs] = useState(10)
+  const [permanentStorage, setPermanentStorage] = useState(false)
+  const [payWithWallet, setPayWithWallet] = useState(WALLET_PAYMENT_AVAILABLE)
+  const [encryptUpload, setEncryptUpload] = useState(false)
+  const [pendingUpload, setPendingUpload] = useState<{ files: File[]; uploadType: 'project' | 'docker' } | null>(null)
   const [uploadProgress, setUploadProgress] = useState<{
-    stage: 'idle' | 'preparing' | 'processing' | 'uploading' | 'completed' | 'error'
+    stage: 'idle' | 'preparing' | 'processing' | 'uploading' | 'completed' | 'error' | 'cancelled'
     message: string
     txHash?: string
     blobId?: string
     percentage?: number
+    transfer?: WalrusUploadProgress
   }>({ stage: 'idle', message: '' })
 
   const fileInputRef = useRef<HTMLInputElement>(null)
   const dockerFileInputRef = useRef<HTMLInputElement>(null)
   const folderInputRef = useRef<HTMLInputElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   const resetUploadState = useCallback(() => {
     setUploadProgress({ stage: 'idle', message: '' })
@@ -231,90 +255,134 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
     ))
   }
 
+  // 진행 중인 업로드 취소
+  const cancelUpload = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
   // Walrus에 직접 업로드하는 함수
   const uploadToWalrusDirectly = useCallback(async (files: File[], imageNam: string = '') => {
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    // 실제 전송 바이트 기반 진행률 (Walrus 전송이 전체의 0~80%, 이후 온체인 등록)
+    const handleTransferProgress = (transfer: WalrusUploadProgress) => {
+      setUploadProgress({
+        stage: 'uploading',
+        message: 'Walrus에 업로드 중...',
+        percentage: Math.round(transfer.percentage * 0.8),
+        transfer
+      })
+      setUploads(prev => prev.map(u =>
+        u.status === 'uploading' ? { ...u, progress: transfer.percentage } : u
+      ))
+    }
+
     try {
       if (!currentAccount) {
         throw new Error('지갑을 먼저 연결해주세요')
       }
 
+      // 지갑 결제: 연결된 지갑이 storage를 예약/인증하고 Blob 객체를 소유 (blob마다 서명 2번)
+      if (payWithWallet) {
+        setWalrusTransport(createWalletTransport({
+          client: await createWalletIntegratedClient(),
+          walletAddress: currentAccount.address,
+          signAndExecute: input => signAndExecuteTransactionAsync(input)
+        }))
+      }
+
       setUploadProgress({
         stage: 'preparing',
         message: activeTab === 'docker' ? 'Docker 이미지 준비 중...' : '프로젝트 준비 중...',
-        percentage: 10
-      })
-
-      setUploadProgress({
-        stage: 'uploading',
-        message: 'Walrus에 업로드 중...',
-        percentage: 50
+        percentage: 0
       })
 
       let result: WalrusProjectUploadResult
+      let storedUpload: WalrusUploadResult
+
+      // Seal 암호화: 이 지갑만 복호화할 수 있는 암호문 하나로 업로드 (Docker 레이어 재사용 없음)
+      const sealService = encryptUpload
+        ? createSealService({ address: currentAccount.address, signPersonalMessage })
+        : undefined
+      let sealId: string | undefined
+      const uploadSealed = async (data: Blob, options: WalrusUploadOptions): Promise<WalrusUploadResult> => {
+        const sealed = await uploadProjectWithSeal(data, undefined, sealService, options)
+        sealId = sealed.sealMetadata?.code?.id
+        return sealed.codeUpload ?? { status: 'error', blobId: '', error: sealed.error }
+      }
 
       if (files.length === 1 && (files[0].name.endsWith('.zip') || files[0].name.endsWith('.tar') || files[0].name.endsWith('.tar.gz'))) {
-        // 단일 압축 파일은 직접 업로드
-        const uploadResult = await uploadToWalrus(files[0], {
+        const uploadOptions = {
           walletAddress: currentAccount.address,
-          epochs: 10,
-          permanent: false,
+          epochs: storageEpochs,
+          permanent: permanentStorage,
+          onProgress: handleTransferProgress,
+          signal: controller.signal,
           metadata: {
             projectName: activeTab === 'docker' ? (imageNam || files[0].name) : files[0].name,
             fileType: activeTab === 'docker' ? 'docker-image' : 'project-archive',
             uploadType: activeTab
           }
-        })
+        }
+
+        // docker save tar는 레이어 단위로 업로드 (이미 저장된 레이어는 재사용), 그 외 압축 파일은 직접 업로드
+        const isLayeredImage = !sealService && activeTab === 'docker' && files[0].name.endsWith('.tar') && await isDockerSaveArchive(files[0])
+        const uploadResult = sealService
+          ? await uploadSealed(files[0], uploadOptions)
+          : isLayeredImage
+            ? await uploadDockerImageToWalrus(files[0], uploadOptions)
+            : await uploadToWalrus(files[0], uploadOptions)
+        storedUpload = uploadResult
 
         result = {
           status: uploadResult.status === 'error' ? 'error' : 'success',
           codeBlobId: uploadResult.blobId,
           codeUrl: uploadResult.url,
           codeSize: uploadResult.size,
+          codeDigest: uploadResult.digest,
           error: uploadResult.error
         }
       } else {
-        // 여러 파일들은 JSON으로 묶어서 업로드
-        const filesData: Array<{ path: string; content: string; size: number }> = []
-
-        for (const file of files) {
-          const content = await file.text()
-          filesData.push({
-            path: file.webkitRelativePath || file.name,
-            content,
-            size: file.size
-          })
-        }
-
-        const projectData = {
-          projectName: activeTab === 'docker' ? imageNam : 'project-folder',
-          fileType: 'project-folder',
-          uploadType: activeTab,
-          timestamp: new Date().toISOString(),
-          totalFiles: files.length,
-          totalSize: files.reduce((sum, f) => sum + f.size, 0),
-          files: filesData,
-          isArchive: false
-        }
+        // 여러 파일은 바이트/경로/권한을 보존하는 아카이브(tar.gz 또는 zip)로 묶어서 업로드
+        setUploadProgress({
+          stage: 'preparing',
+          message: `${archiveFormat} 아카이브 생성 중...`,
+          percentage: 0
+        })
 
-        // JSON을 Blob으로 변환하여 업로드
-        const jsonBlob = new Blob([JSON.stringify(projectData, null, 2)], { type: 'application/json' })
+        const entries = await collectArchiveEntries(files)
+        const archive = await createProjectArchive(entries, archiveFormat)
+        const projectName = activeTab === 'docker'
+          ? imageNam
+          : (files[0].webkitRelativePath.split('/')[0] || 'project-folder')
 
-        const uploadResult = await uploadToWalrus(jsonBlob, {
+        const archiveOptions = {
           walletAddress: currentAccount.address,
-          epochs: 10,
-          permanent: false,
+          epochs: storageEpochs,
+          permanent: permanentStorage,
+          onProgress: handleTransferProgress,
+          signal: controller.signal,
           metadata: {
-            projectName: projectData.projectName,
-            fileType: projectData.fileType,
-            totalFiles: projectData.totalFiles
+            projectName,
+            fileType: 'project-archive',
+            archiveFormat,
+            uploadType: activeTab,
+            totalFiles: files.length,
+            totalSize: files.reduce((sum, f) => sum + f.size, 0)
           }
-        })
+        }
+        const uploadResult = sealService
+          ? await uploadSealed(archive, archiveOptions)
+          : await uploadToWalrus(archive, archiveOptions)
+        storedUpload = uploadResult
 
         result = {
           status: uploadResult.status === 'error' ? 'error' : 'success',
           codeBlobId: uploadResult.blobId,
           codeUrl: uploadResult.url,
           codeSize: uploadResult.size,
+          codeDigest: uploadResult.digest,
           error: uploadResult.error
         }
       }
@@ -324,6 +392,14 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
         const blobId = result.codeBlobId || result.dockerBlobId || 'unknown'
         const downloadUrl = result.codeUrl || result.dockerUrl || 'unknown'
 
+        // 만료 추적을 위해 저장 기간 기록
+        await recordBlobLifetime(storedUpload, {
+          label: imageNam || files[0].name,
+          owner: currentAccount.address,
+          deletable: !permanentStorage,
+          sealId
+        })
+
         setUploadProgress({
           stage: 'uploading',
           message: '블록체인에 등록 중...',
@@ -349,12 +425,6 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
           try {
             console.log('📝 온체인 등록 시작...')
 
-            // Transaction 생성
-            const tx = new Transaction()
-
-            // Clock 객체 참조
-            const clockId = '0x6'
-
             // URL 배열 생성 (백업 URL 포함 가능)
             const urls = [downloadUrl]
 
@@ -364,21 +434,29 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
               urls.push(`https://publisher-devnet.walrus.space/v1/${blobId}`)
             }
 
-            // register_docker_image 함수 호출 (최소 요구 사양 포함)
-            tx.moveCall({
-              target: `${PACKAGE_ID}::docker_registry::register_docker_image`,
-              arguments: [
-                tx.object(REGISTRY_ID),
-                tx.pure.vector('string', urls),
-                tx.pure.string(imageNam || files[0].name),
-                tx.pure.u64(files.reduce((sum, f) => sum + f.size, 0)),
-                tx.pure.string(activeTab === 'docker' ? 'docker' : 'project'),
-                tx.pure.u32(minRequirements?.min_cpu_cores ?? 1),
-                tx.pure.u32(minRequirements?.min_memory_gb ?? 1),
-                tx.pure.u32(minRequirements?.min_storage_gb ?? 10),
-                tx.pure.u64(minRequirements?.max_price_per_hour ?? 100),
-                tx.object(clockId),
-              ],
+            // 이름의 `:태그`는 태그로, 버전은 입력값 또는 업로드 시각
+            const reference = parseImageReference(imageNam || files[0].name)
+            const version = imageVersion.trim() || defaultImageVersion()
+            const tags = [...new Set([
+              ...imageTags.split(',').map(tag => tag.trim()).filter(Boolean),
+              ...(reference.reference ? [reference.reference] : [])
+            ])]
+
+            // register_docker_image 트랜잭션 생성 (최소 요구 사양 포함, 태그는 같은 트랜잭션에서 지정)
+            const tx = getDockerRegistryClient().buildRegisterTransaction({
+              urls,
+              imageName: reference.imageName,
+              version,
+              tags,
+              size: files.reduce((sum, f) => sum + f.size, 0),
+              contentDigest: result.codeDigest || result.dockerDigest || '',
+              uploadType: activeTab === 'docker' ? 'docker' : 'project',
+              requirements: {
+                minCpuCores: minRequirements?.min_cpu_cores ?? 1,
+                minMemoryGb: minRequirements?.min_memory_gb ?? 1,
+                minStorageGb: minRequirements?.min_storage_gb ?? 10,
+                maxPricePerHour: minRequirements?.max_price_per_hour ?? 100
+              }
             })
 
             // 지갑 연결 및 권한 재확인
@@ -421,7 +499,9 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
                       success: true,
                       message: `${activeTab === 'docker' ? 'Docker 이미지' : '프로젝트'}가 블록체인에 성공적으로 등록되었습니다`,
                       cid_code: blobId,
-                      blobId: blobId
+                      blobId: blobId,
+                      imageName: reference.imageName,
+                      version
                     })
                   } else {
                     console.log('⚠️ onUploadComplete callback is not provided!')
@@ -490,6 +570,18 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
 
       return result
     } catch (error) {
+      if (controller.signal.aborted) {
+        console.log('🛑 업로드 취소됨')
+        setUploadProgress({
+          stage: 'cancelled',
+          message: '업로드가 취소되었습니다',
+          percentage: 0
+        })
+        const abortError = new Error('업로드가 취소되었습니다')
+        abortError.name = 'AbortError'
+        throw abortError
+      }
+
       console.error('Upload error:', error)
       setUploadProgress({
         stage: 'error',
@@ -497,8 +589,15 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
         percentage: 0
       })
       throw error
+    } finally {
+      if (payWithWallet) {
+        setWalrusTransport(null)
+      }
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
     }
-  }, [activeTab, currentAccount, onUploadComplete, signAndExecuteTransaction])
+  }, [activeTab, archiveFormat, storageEpochs, permanentStorage, payWithWallet, encryptUpload, imageVersion, imageTags, currentAccount, onUploadComplete, signAndExecuteTransaction, signAndExecuteTransactionAsync, signPersonalMessage])
 
 
   const handleFolderSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -546,7 +645,8 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
       setUploads(prev => prev.map(u => ({ ...u, status: 'completed', progress: 100 })))
     } catch (error) {
       console.error('Upload error:', error)
-      setUploads(prev => prev.map(u => ({ ...u, status: 'error', progress: 0 })))
+      const status = isAbortError(error) ? 'cancelled' : 'error'
+      setUploads(prev => prev.map(u => ({ ...u, status, progress: 0 })))
     }
   }, [currentAccount, selectedFiles, uploadToWalrusDirectly, resetUploadState])
 
@@ -560,7 +660,7 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
 
     // 파일 유효성 검사
     const validFiles = files.filter(file => {
-      if (file.size > maxFileSize) {
+      if (maxFileSize && file.size > maxFileSize) {
         console.error(`File ${file.name} exceeds size limit`)
         return false
       }
@@ -617,6 +717,15 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
       return
     }
 
+    // 바로 업로드하지 않고 예상 비용을 보여준 뒤 사용자가 확인하면 업로드
+    setPendingUpload({ files: validFiles, uploadType })
+  }, [currentAccount, maxFileSize, acceptedFileTypes, resetUploadState])
+
+  const handleConfirmPendingUpload = useCallback(async () => {
+    if (!pendingUpload) return
+    const { files: validFiles, uploadType } = pendingUpload
+    setPendingUpload(null)
+
     // 새 업로드 항목 추가
     const newUploads: FileUpload[] = validFiles.map((file, index) => ({
       id: `${Date.now()}-${index}`,
@@ -642,11 +751,12 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
 
     } catch (error) {
       console.error('Upload error:', error)
+      const status = isAbortError(error) ? 'cancelled' : 'error'
       setUploads(prev => prev.map(u =>
-        validFiles.includes(u.file) ? { ...u, status: 'error', progress: 0 } : u
+        validFiles.includes(u.file) ? { ...u, status, progress: 0 } : u
       ))
     }
-  }, [currentAccount, maxFileSize, acceptedFileTypes, dockerImageName, uploadToWalrusDirectly, resetUploadState])
+  }, [pendingUpload, dockerImageName, uploadToWalrusDirectly])
 
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files
@@ -685,6 +795,13 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
   }
 
+  const formatEta = (seconds: number | null) => {
+    if (seconds === null || !isFinite(seconds)) return '계산 중...'
+    const minutes = Math.floor(seconds / 60)
+    const secs = Math.round(seconds % 60)
+    return minutes > 0 ? `${minutes}m ${secs}s` : `${secs}s`
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 p-4 md:p-8">
       <div className="max-w-4xl mx-auto">
@@ -706,6 +823,9 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
               <Badge variant="outline">Balance: {walletInfo.balance} SUI</Badge>
             )}
           </div>
+          <div className="mt-2">
+            <WalrusEndpointStatus />
+          </div>
         </motion.div>
 
         <Card className="backdrop-blur-xl bg-background/50 border-primary/10">
@@ -757,7 +877,7 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
                   Drag and drop files or click to select
                 </p>
                 <p className="text-xs text-muted-foreground mb-4">
-                  Supported formats: .zip, .tar.gz, .tgz (max {formatFileSize(maxFileSize)})
+                  Supported formats: .zip, .tar.gz, .tgz{maxFileSize ? ` (max ${formatFileSize(maxFileSize)})` : ''}
                 </p>
                 <div className="flex gap-2 justify-center">
                   <Button
@@ -783,7 +903,7 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
                 <div>
                   <label className="text-sm font-medium mb-2 block">Docker Image Name</label>
                   <Input
-                    placeholder="e.g.: myapp:latest"
+                    placeholder="e.g.: myapp or myapp:stable"
                     value={dockerImageName}
                     onChange={(e) => setDockerImageName(e.target.value)}
                     className="mb-4"
@@ -828,7 +948,7 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
                     tar 파일을 드래그하거나 클릭하여 선택하세요
                   </p>
                   <p className="text-xs text-muted-foreground mb-4">
-                    지원 형식: .tar, .tar.gz, .tgz (최대 {formatFileSize(maxFileSize)})
+                    지원 형식: .tar, .tar.gz, .tgz{maxFileSize ? ` (최대 ${formatFileSize(maxFileSize)})` : ''}
                   </p>
                   <Button
                     onClick={() => dockerFileInputRef.current?.click()}
@@ -842,8 +962,88 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
               </div>
             </TabsContent>
           </Tabs>
+
+          {/* 레지스트리 버전 / 태그 (같은 이름으로 다시 올리면 새 버전) */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 border-t border-primary/10">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Version</label>
+              <Input
+                placeholder="e.g.: 1.4.2 (비우면 업로드 시각)"
+                value={imageVersion}
+                onChange={(e) => setImageVersion(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Tags</label>
+              <Input
+                placeholder="latest, stable"
+                value={imageTags}
+                onChange={(e) => setImageTags(e.target.value)}
+              />
+            </div>
+          </div>
         </Card>
 
+        {/* 업로드 전 비용 확인 */}
+        {pendingUpload && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-6"
+          >
+            <Card className="p-6 backdrop-blur-xl bg-background/50 border-primary/10">
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold">업로드 확인</h3>
+                  <Badge variant="secondary">
+                    {pendingUpload.files.length}개 파일 ({formatFileSize(pendingUpload.files.reduce((sum, f) => sum + f.size, 0))})
+                  </Badge>
+                </div>
+                <div className="text-sm text-muted-foreground truncate">
+                  {pendingUpload.files.map(f => f.name).join(', ')}
+                </div>
+                <StorageCostEstimate
+                  size={pendingUpload.files.reduce((sum, f) => sum + f.size, 0)}
+                  epochs={storageEpochs}
+                  permanent={permanentStorage}
+                  onEpochsChange={setStorageEpochs}
+                  onPermanentChange={setPermanentStorage}
+                  sizeNote={pendingUpload.uploadType === 'docker' ? '이 지갑으로 등록한 이미지나 이 브라우저에서 이미 저장한 레이어는 재사용되어 비용이 줄어들 수 있음' : undefined}
+                  paidBy={WALLET_PAYMENT_AVAILABLE ? (payWithWallet ? 'wallet' : 'publisher') : undefined}
+                />
+                {WALLET_PAYMENT_AVAILABLE && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={payWithWallet}
+                      onChange={event => setPayWithWallet(event.target.checked)}
+                    />
+                    지갑으로 저장 비용 결제 (Blob 객체를 지갑이 소유, blob마다 서명 2번)
+                  </label>
+                )}
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={encryptUpload}
+                    onChange={event => setEncryptUpload(event.target.checked)}
+                  />
+                  Seal로 암호화 (이 지갑만 복호화 가능, Docker 레이어 재사용 없음)
+                </label>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setPendingUpload(null)}>
+                    <X className="w-4 h-4 mr-2" />
+                    취소
+                  </Button>
+                  <Button onClick={handleConfirmPendingUpload}>
+                    <Upload className="w-4 h-4 mr-2" />
+                    업로드 시작
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          </motion.div>
+        )}
+
         {/* 선택된 파일 트리 표시 */}
         {fileTree.length > 0 && (
           <motion.div
@@ -855,13 +1055,41 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <h3 className="text-lg font-semibold">선택된 파일</h3>
-                  <Badge variant="secondary">
-                    {selectedFiles.length}개 파일 ({formatFileSize(selectedFiles.reduce((sum, f) => sum + f.size, 0))})
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    {(['tar.gz', 'zip'] as const).map(format => (
+                      <Button
+                        key={format}
+                        size="sm"
+                        variant={archiveFormat === format ? 'default' : 'outline'}
+                        onClick={() => setArchiveFormat(format)}
+                      >
+                        .{format}
+                      </Button>
+                    ))}
+                    <Badge variant="secondary">
+                      {selectedFiles.length}개 파일 ({formatFileSize(selectedFiles.reduce((sum, f) => sum + f.size, 0))})
+                    </Badge>
+                  </div>
                 </div>
                 <div className="max-h-96 overflow-y-auto border rounded-lg p-2">
                   {renderFileTree(fileTree)}
                 </div>
+                <StorageCostEstimate
+                  size={selectedFiles.reduce((sum, f) => sum + f.size, 0)}
+                  epochs={storageEpochs}
+                  permanent={permanentStorage}
+                  onEpochsChange={setStorageEpochs}
+                  onPermanentChange={setPermanentStorage}
+                  sizeNote={archiveFormat === 'tar.gz' ? '압축 전 크기 기준 (실제 비용은 더 낮을 수 있음)' : undefined}
+                />
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={encryptUpload}
+                    onChange={event => setEncryptUpload(event.target.checked)}
+                  />
+                  Seal로 암호화 (이 지갑만 복호화 가능, Docker 레이어 재사용 없음)
+                </label>
                 <div className="flex justify-end gap-2">
                   <Button
                     variant="outline"
@@ -900,19 +1128,34 @@ const ProjectUpload: React.FC<ProjectUploadProps> = ({
                   {uploadProgress.stage === 'completed' && (
                     <CheckCircle2 className="w-5 h-5 text-green-500" />
                   )}
-                  {uploadProgress.stage === 'error' && (
+                  {(uploadProgress.stage === 'error' || uploadProgress.stage === 'cancelled') && (
                     <XCircle className="w-5 h-5 text-red-500" />
                   )}
                   {['preparing', 'processing', 'uploading'].includes(uploadProgress.stage) && (
-                    <Loader className="w-5 h-5 animate-spin text-primary" />
+                    <div className="flex items-center gap-2">
+                      <Loader className="w-5 h-5 animate-spin text-primary" />
+                      {uploadProgress.transfer && uploadProgress.transfer.percentage < 100 && (
+                        <Button variant="outline" size="sm" onClick={cancelUpload}>
+                          <X className="w-4 h-4 mr-1" />
+                          취소
+                        </Button>
+                      )}
+                    </div>
                   )}
                 </div>
 
                 <div className="space-y-2">
                   <p className="text-sm text-muted-foreground">{uploadProgress.message}</p>
-                  {uploadProgress.percentage && (
+                  {uploadProgress.percentage !== undefined && uploadProgress.percentage > 0 && (
                     <Progress value={uploadProgress.percentage} className="h-2" />
                   )}
+                  {uploadProgress.stage === 'uploading' && uploadProgress.transfer && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(uploadProgress.transfer.bytesSent)} / {formatFileSize(uploadProgress.transfer.totalBytes)}
+                      {' • '}{formatFileSize(Math.round(uploadProgress.transfer.throughput))}/s
+                      {' • '}남은 시간 {formatEta(uploadProgress.transfer.eta)}
+                    </p>
+                  )}
                 </div>
 
                 {uploadProgress.blobId && (
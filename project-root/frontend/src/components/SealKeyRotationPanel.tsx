@@ -0,0 +1,177 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { KeyRound, RotateCw, Trash2 } from 'lucide-react'
+import { useCurrentAccount, useSignAndExecuteTransaction, useSignPersonalMessage } from '@mysten/dapp-kit'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { listBlobLifetimes, subscribeBlobLifetimes, type BlobLifetimeRecord } from '@/lib/walrus-lifetime'
+import { createSealService } from '@/lib/seal-client'
+import { rotateSealedBlobs, type SealRotationStep } from '@/lib/seal-rotation'
+import { escrowBackupKey, prepareBackupEscrow } from '@/lib/seal-backup'
+
+const STEP_LABELS: Record<SealRotationStep, string> = {
+  decrypting: '복호화 중',
+  encrypting: '재암호화 중',
+  registering: '레지스트리 갱신 중',
+  marking: '이전 blob 정리 중',
+  done: '완료'
+}
+
+/**
+ * Re-encrypts Seal-protected uploads under a new identity, e.g. after a team member leaves
+ * or a provider is compromised
+ */
+const SealKeyRotationPanel: React.FC = () => {
+  const currentAccount = useCurrentAccount()
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction()
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage()
+  const [records, setRecords] = useState<BlobLifetimeRecord[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [policyId, setPolicyId] = useState('')
+  const [steps, setSteps] = useState<Record<string, SealRotationStep>>({})
+  const [escrowKeys, setEscrowKeys] = useState(false)
+  const [isRotating, setIsRotating] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const owner = currentAccount?.address
+
+  useEffect(() => {
+    if (!owner) return
+    const load = () => listBlobLifetimes(owner).then(all => setRecords(all.filter(record => record.sealId)))
+    load()
+    return subscribeBlobLifetimes(load)
+  }, [owner])
+
+  const handleRotate = useCallback(async (targets: BlobLifetimeRecord[]) => {
+    if (!owner || targets.length === 0) return
+    if (!confirm(`${targets.length}개 blob을 새 키로 재암호화합니다. blob마다 지갑 서명이 필요합니다. 계속할까요?`)) return
+
+    setIsRotating(true)
+    setMessage(null)
+    try {
+      if (escrowKeys) {
+        try {
+          await prepareBackupEscrow(owner, signPersonalMessage)
+        } catch (error) {
+          setMessage(`❌ ${error instanceof Error ? error.message : String(error)}`)
+          return
+        }
+      }
+      const results = await rotateSealedBlobs(
+        targets.map(record => ({ blobId: record.blobId, label: record.label })),
+        {
+          sealService: createSealService({ address: owner, signPersonalMessage }),
+          signAndExecute: input => signAndExecute(input),
+          newPolicyId: policyId.trim() || undefined,
+          onStep: (blobId, step) => setSteps(prev => ({ ...prev, [blobId]: step })),
+          onBackupKey: escrowKeys
+            ? async backup => {
+              await escrowBackupKey(backup, owner, signPersonalMessage)
+            }
+            : undefined
+        }
+      )
+      const failed = results.filter(result => result.status === 'error')
+      setMessage(
+        failed.length === 0
+          ? `✅ ${results.length}개 blob의 키를 교체했습니다`
+          : `⚠️ ${failed.length}/${results.length}개 교체 실패: ${failed[0].error}`
+      )
+      setSelected(new Set())
+    } finally {
+      setIsRotating(false)
+      setSteps({})
+    }
+  }, [owner, policyId, escrowKeys, signAndExecute, signPersonalMessage])
+
+  if (!owner || records.length === 0) return null
+
+  const active = records.filter(record => !record.pendingDeletion)
+
+  const toggle = (blobId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(blobId)) {
+        next.delete(blobId)
+      } else {
+        next.add(blobId)
+      }
+      return next
+    })
+  }
+
+  return (
+    <Card className="p-6 mt-8">
+      <h3 className="font-semibold flex items-center gap-2 mb-4">
+        <KeyRound className="w-4 h-4" />
+        Seal Key Rotation
+      </h3>
+
+      <div className="space-y-2">
+        {records.map(record => (
+          <div key={record.blobId} className="flex items-center gap-3 p-3 rounded-lg bg-muted/30 text-sm">
+            <input
+              type="checkbox"
+              checked={selected.has(record.blobId)}
+              onChange={() => toggle(record.blobId)}
+              disabled={isRotating || !!record.pendingDeletion}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="font-medium truncate">{record.label}</div>
+              <div className="text-xs text-muted-foreground font-mono truncate">{record.blobId}</div>
+            </div>
+            {steps[record.blobId] && (
+              <span className="text-xs text-muted-foreground">{STEP_LABELS[steps[record.blobId]]}</span>
+            )}
+            {record.pendingDeletion ? (
+              <Badge variant="outline" className="bg-muted text-muted-foreground" title={`→ ${record.pendingDeletion.supersededBy}`}>
+                <Trash2 className="w-3 h-3 mr-1" />
+                삭제 대기
+              </Badge>
+            ) : (
+              <Button size="sm" variant="outline" disabled={isRotating} onClick={() => handleRotate([record])}>
+                <RotateCw className="w-3 h-3 mr-1" />
+                Rotate
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3 mt-4">
+        <Input
+          placeholder="새 ImageAccessPolicy ID (비우면 소유자 전용)"
+          value={policyId}
+          onChange={event => setPolicyId(event.target.value)}
+          className="font-mono flex-1"
+          disabled={isRotating}
+        />
+        <Button
+          size="sm"
+          disabled={isRotating || selected.size === 0}
+          onClick={() => handleRotate(active.filter(record => selected.has(record.blobId)))}
+        >
+          {isRotating ? '교체 중...' : `선택 항목 키 교체 (${selected.size})`}
+        </Button>
+      </div>
+
+      <label className="flex items-center gap-2 mt-3 text-sm text-muted-foreground">
+        <input
+          type="checkbox"
+          checked={escrowKeys}
+          onChange={event => setEscrowKeys(event.target.checked)}
+          disabled={isRotating}
+        />
+        새 백업 키를 이 브라우저에 지갑 암호화로 보관 (key server 장애 시 <Link href="/recovery" className="underline">복구</Link>에 사용)
+      </label>
+
+      {message && <p className="text-sm mt-3">{message}</p>}
+    </Card>
+  )
+}
+
+export default SealKeyRotationPanel
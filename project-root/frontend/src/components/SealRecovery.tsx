@@ -0,0 +1,203 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { Download, FileKey, KeyRound, Trash2, Unlock } from 'lucide-react'
+import { useCurrentAccount, useSignPersonalMessage } from '@mysten/dapp-kit'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { readFromWalrus } from '@/lib/walrus-client'
+import { parseSealEnvelope } from '@/lib/seal-client'
+import {
+  createBackupKeyFile,
+  decryptWithBackupKey,
+  deleteEscrowedBackupKey,
+  downloadBackupKeyFile,
+  listEscrowedBackupKeys,
+  openBackupKeyFile,
+  unlockEscrowedBackupKey,
+  type EscrowedBackupKey,
+  type SealBackupKey
+} from '@/lib/seal-backup'
+
+const saveBytes = (data: Uint8Array, filename: string) => {
+  const url = URL.createObjectURL(new Blob([data as Uint8Array<ArrayBuffer>]))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Decrypts Seal-protected blobs with an escrowed backup key when key servers are unavailable
+ */
+const SealRecovery: React.FC = () => {
+  const currentAccount = useCurrentAccount()
+  const { mutateAsync: signPersonalMessage } = useSignPersonalMessage()
+  const [escrowed, setEscrowed] = useState<EscrowedBackupKey[]>([])
+  const [blobId, setBlobId] = useState('')
+  const [keyFile, setKeyFile] = useState<File | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [exportPassphrase, setExportPassphrase] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const owner = currentAccount?.address
+
+  const loadEscrowed = useCallback(() => {
+    if (owner) listEscrowedBackupKeys(owner).then(setEscrowed)
+  }, [owner])
+
+  useEffect(loadEscrowed, [loadEscrowed])
+
+  const run = async (task: () => Promise<string>) => {
+    setIsWorking(true)
+    setMessage(null)
+    try {
+      setMessage(await task())
+    } catch (error) {
+      console.error('❌ Seal 복구 실패:', error)
+      setMessage(`❌ ${errorMessage(error)}`)
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const recover = async (backup: SealBackupKey, targetBlobId: string): Promise<string> => {
+    if (!targetBlobId) throw new Error('Blob ID를 입력하세요')
+    const ciphertext = await readFromWalrus(targetBlobId)
+    if (parseSealEnvelope(ciphertext).id !== backup.envelope.id) {
+      throw new Error('이 백업 키는 해당 blob의 키가 아닙니다')
+    }
+    const plaintext = await decryptWithBackupKey(ciphertext, backup.key)
+    saveBytes(plaintext, `${targetBlobId}.decrypted`)
+    return `✅ ${targetBlobId}: ${plaintext.length} bytes 복호화 완료 (key server 없이)`
+  }
+
+  const handleRecoverFromFile = () => run(async () => {
+    if (!keyFile) throw new Error('백업 키 파일을 선택하세요')
+    const backup = await openBackupKeyFile(await keyFile.text(), passphrase)
+    return recover(backup, blobId.trim() || backup.blobId || '')
+  })
+
+  const handleRecoverEscrowed = (record: EscrowedBackupKey) => run(async () => {
+    const backup = await unlockEscrowedBackupKey(record, signPersonalMessage)
+    return recover(backup, blobId.trim() || record.blobId || '')
+  })
+
+  const handleExport = (record: EscrowedBackupKey) => run(async () => {
+    const backup = await unlockEscrowedBackupKey(record, signPersonalMessage)
+    downloadBackupKeyFile(await createBackupKeyFile(backup, exportPassphrase))
+    return '✅ 백업 키 파일을 내보냈습니다. 패스프레이즈는 따로 보관하세요.'
+  })
+
+  const handleDelete = async (record: EscrowedBackupKey) => {
+    if (!confirm('이 백업 키를 삭제하면 key server 없이 복구할 수 없습니다. 삭제할까요?')) return
+    await deleteEscrowedBackupKey(record.sealId)
+    loadEscrowed()
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6 space-y-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <FileKey className="w-4 h-4" />
+          Recover with a backup key file
+        </h3>
+        <div className="space-y-2">
+          <Label htmlFor="recovery-blob-id">Blob ID (비우면 파일에 기록된 blob)</Label>
+          <Input
+            id="recovery-blob-id"
+            value={blobId}
+            onChange={event => setBlobId(event.target.value)}
+            className="font-mono"
+            disabled={isWorking}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="recovery-key-file">Backup key file</Label>
+          <Input
+            id="recovery-key-file"
+            type="file"
+            accept="application/json,.json"
+            onChange={event => setKeyFile(event.target.files?.[0] ?? null)}
+            disabled={isWorking}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="recovery-passphrase">Passphrase</Label>
+          <Input
+            id="recovery-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={event => setPassphrase(event.target.value)}
+            disabled={isWorking}
+          />
+        </div>
+        <Button onClick={handleRecoverFromFile} disabled={isWorking || !keyFile || !passphrase}>
+          <Unlock className="w-4 h-4 mr-2" />
+          {isWorking ? '복호화 중...' : 'Decrypt & download'}
+        </Button>
+      </Card>
+
+      {owner && (
+        <Card className="p-6 space-y-4">
+          <h3 className="font-semibold flex items-center gap-2">
+            <KeyRound className="w-4 h-4" />
+            Escrowed backup keys
+          </h3>
+          {escrowed.length === 0 ? (
+            <p className="text-sm text-muted-foreground">이 브라우저에 보관된 백업 키가 없습니다.</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {escrowed.map(record => (
+                  <div key={record.sealId} className="flex items-center gap-3 p-3 rounded-lg bg-muted/30 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{record.label ?? record.blobId ?? record.sealId}</div>
+                      <div className="text-xs text-muted-foreground font-mono truncate">{record.blobId ?? record.sealId}</div>
+                    </div>
+                    <Button size="sm" variant="outline" disabled={isWorking} onClick={() => handleRecoverEscrowed(record)}>
+                      <Unlock className="w-3 h-3 mr-1" />
+                      Recover
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isWorking || exportPassphrase.length < 8}
+                      onClick={() => handleExport(record)}
+                    >
+                      <Download className="w-3 h-3 mr-1" />
+                      Export
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={isWorking} onClick={() => handleDelete(record)}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="export-passphrase">Export passphrase (8자 이상)</Label>
+                <Input
+                  id="export-passphrase"
+                  type="password"
+                  value={exportPassphrase}
+                  onChange={event => setExportPassphrase(event.target.value)}
+                  disabled={isWorking}
+                />
+              </div>
+            </>
+          )}
+        </Card>
+      )}
+
+      {message && <p className="text-sm">{message}</p>}
+    </div>
+  )
+}
+
+export default SealRecovery
@@ -0,0 +1,179 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Coins, Loader } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  estimateWalrusUploadCost,
+  formatTokenAmount,
+  type WalrusCostEstimate,
+  type WalrusStorageModeCost
+} from '@/lib/walrus-client'
+
+interface StorageCostEstimateProps {
+  size: number
+  epochs: number
+  permanent: boolean
+  onEpochsChange: (epochs: number) => void
+  onPermanentChange: (permanent: boolean) => void
+  sizeNote?: string // e.g. why the uploaded size may differ from `size`
+  paidBy?: 'wallet' | 'publisher' // Who the upload will be paid by, when it differs from the active transport
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+// Epoch changes are typed one digit at a time; wait before hitting the RPC
+const ESTIMATE_DEBOUNCE_MS = 400
+
+const StorageModeOption: React.FC<{
+  title: string
+  description: string
+  cost: WalrusStorageModeCost
+  selected: boolean
+  onSelect: () => void
+}> = ({ title, description, cost, selected, onSelect }) => (
+  <button
+    type="button"
+    onClick={onSelect}
+    className={`flex-1 text-left p-3 rounded-lg border text-sm transition-colors ${
+      selected ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+    }`}
+  >
+    <div className="font-medium">{title}</div>
+    <div className="text-xs text-muted-foreground mb-2">{description}</div>
+    <div className="font-mono">{formatTokenAmount(cost.totalWal)} WAL</div>
+    <div className="text-xs text-muted-foreground">
+      {cost.deletableEarly
+        ? `삭제 시 최대 ${formatTokenAmount(cost.reclaimableWal)} WAL 분량의 storage 재사용 가능`
+        : '만료 epoch까지 삭제 불가'}
+    </div>
+  </button>
+)
+
+/**
+ * Storage/gas estimate shown before an upload is confirmed; also where epochs and storage mode are picked
+ */
+const StorageCostEstimate: React.FC<StorageCostEstimateProps> = ({
+  size,
+  epochs,
+  permanent,
+  onEpochsChange,
+  onPermanentChange,
+  sizeNote,
+  paidBy
+}) => {
+  const [estimate, setEstimate] = useState<WalrusCostEstimate | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (size <= 0) return
+    let cancelled = false
+    setIsLoading(true)
+
+    const timer = setTimeout(() => {
+      estimateWalrusUploadCost(size, { epochs, paidBy })
+        .then(result => {
+          if (cancelled) return
+          setEstimate(result)
+          setError(null)
+        })
+        .catch(estimateError => {
+          if (cancelled) return
+          console.warn('⚠️ 저장 비용 추정 실패:', estimateError)
+          setError(estimateError instanceof Error ? estimateError.message : String(estimateError))
+        })
+        .finally(() => {
+          if (!cancelled) setIsLoading(false)
+        })
+    }, ESTIMATE_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [size, epochs, paidBy])
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg border bg-muted/20">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium flex items-center gap-2">
+          <Coins className="w-4 h-4" />
+          예상 저장 비용
+        </h4>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            value={epochs}
+            onChange={event => onEpochsChange(Math.max(1, Number(event.target.value) || 1))}
+            className="w-20 h-8"
+          />
+          <span className="text-sm text-muted-foreground">epochs</span>
+        </div>
+      </div>
+
+      {isLoading && !estimate && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader className="w-4 h-4 animate-spin" />
+          현재 Walrus 가격 조회 중...
+        </div>
+      )}
+
+      {error && !estimate && (
+        <p className="text-sm text-muted-foreground">비용을 추정할 수 없습니다: {error}</p>
+      )}
+
+      {estimate && (
+        <>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            <span className="text-muted-foreground">인코딩 후 크기</span>
+            <span className="font-mono text-right">
+              {formatBytes(estimate.encodedSize)} ({estimate.blobCount} blob)
+            </span>
+            <span className="text-muted-foreground">저장 비용 ({estimate.epochs} epochs)</span>
+            <span className="font-mono text-right">{formatTokenAmount(estimate.storageWal)} WAL</span>
+            <span className="text-muted-foreground">업로드 비용</span>
+            <span className="font-mono text-right">{formatTokenAmount(estimate.writeWal)} WAL</span>
+            <span className="text-muted-foreground">예상 가스</span>
+            <span className="font-mono text-right">~{formatTokenAmount(estimate.gasMist)} SUI</span>
+          </div>
+
+          <div className="flex gap-2">
+            <StorageModeOption
+              title="Deletable"
+              description="소유자가 만료 전에 삭제할 수 있음"
+              cost={estimate.comparison.deletable}
+              selected={!permanent}
+              onSelect={() => onPermanentChange(false)}
+            />
+            <StorageModeOption
+              title="Permanent"
+              description="만료 epoch까지 보관이 보장됨"
+              cost={estimate.comparison.permanent}
+              selected={permanent}
+              onSelect={() => onPermanentChange(true)}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            {estimate.paidBy === 'publisher' ? (
+              <Badge variant="outline">현재 publisher가 비용을 지불합니다</Badge>
+            ) : (
+              <Badge variant="outline">연결된 지갑이 비용을 지불하고 Blob 객체를 소유합니다</Badge>
+            )}
+            {sizeNote && <span>{sizeNote}</span>}
+            {isLoading && <Loader className="w-3 h-3 animate-spin" />}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default StorageCostEstimate
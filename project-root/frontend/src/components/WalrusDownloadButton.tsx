@@ -0,0 +1,82 @@
+'use client'
+
+import React, { useState, useRef } from 'react'
+import { Download, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { extractBlobId, isAbortError, isIntegrityError } from '@/lib/walrus-client'
+import { saveWalrusBlobToDisk } from '@/lib/walrus-stream'
+
+interface WalrusDownloadButtonProps {
+  blobUrl: string
+  fileName: string
+  expectedDigest?: string
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+// Streams the blob to disk instead of buffering it in the tab; hidden for non-Walrus mirrors
+const WalrusDownloadButton: React.FC<WalrusDownloadButtonProps> = ({ blobUrl, fileName, expectedDigest }) => {
+  const blobId = extractBlobId(blobUrl)
+  const [progress, setProgress] = useState<{ bytesRead: number; totalBytes?: number } | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  if (!blobId) return null
+
+  const handleDownload = async () => {
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setMessage(null)
+    setProgress({ bytesRead: 0 })
+
+    try {
+      await saveWalrusBlobToDisk(blobId, {
+        suggestedName: fileName,
+        expectedDigest,
+        signal: controller.signal,
+        onProgress: (bytesRead, totalBytes) => setProgress({ bytesRead, totalBytes })
+      })
+      setMessage('✅ 저장 완료')
+    } catch (error) {
+      if (isAbortError(error)) {
+        setMessage('다운로드가 취소되었습니다')
+      } else if (isIntegrityError(error)) {
+        setMessage('❌ 무결성 검증 실패: 파일이 저장되지 않았습니다')
+      } else {
+        setMessage(`❌ 다운로드 실패: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    } finally {
+      abortControllerRef.current = null
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      {progress ? (
+        <>
+          <span className="text-muted-foreground">
+            {formatBytes(progress.bytesRead)}
+            {progress.totalBytes !== undefined && ` / ${formatBytes(progress.totalBytes)}`}
+          </span>
+          <Button size="sm" variant="outline" onClick={() => abortControllerRef.current?.abort()}>
+            <X className="w-3 h-3 mr-1" />
+            Cancel
+          </Button>
+        </>
+      ) : (
+        <Button size="sm" variant="outline" onClick={handleDownload}>
+          <Download className="w-3 h-3 mr-1" />
+          Save to disk
+        </Button>
+      )}
+      {message && <span className="text-muted-foreground">{message}</span>}
+    </div>
+  )
+}
+
+export default WalrusDownloadButton
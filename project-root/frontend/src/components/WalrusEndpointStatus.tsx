@@ -0,0 +1,82 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Server, Database } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { getWalrusEndpointHealth, subscribeWalrusEndpointHealth, type EndpointHealth } from '@/lib/walrus-client'
+import { getWalrusCacheStats, subscribeWalrusCacheStats, type WalrusCacheStats } from '@/lib/walrus-cache'
+
+const STATUS_STYLES: Record<EndpointHealth['status'], string> = {
+  healthy: 'bg-green-500/10 text-green-500 border-green-500/20',
+  degraded: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  down: 'bg-red-500/10 text-red-500 border-red-500/20'
+}
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
+const describe = (endpoint: EndpointHealth): string => {
+  const parts = [
+    `${endpoint.role}: ${endpoint.url}`,
+    `status: ${endpoint.status}`,
+    `error rate: ${Math.round(endpoint.errorRate * 100)}%`
+  ]
+  if (endpoint.avgLatencyMs !== null) parts.push(`latency: ${Math.round(endpoint.avgLatencyMs)}ms`)
+  if (endpoint.lastError) parts.push(`last error: ${endpoint.lastError}`)
+  return parts.join('\n')
+}
+
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)}MB`
+
+const describeCache = (stats: WalrusCacheStats): string => [
+  `cache: ${stats.entries} blobs, ${formatMegabytes(stats.totalBytes)} / ${formatMegabytes(stats.maxBytes)}`,
+  `hits: ${stats.hits}, misses: ${stats.misses}`,
+  `served from cache: ${formatMegabytes(stats.bytesServed)}`,
+  `evictions: ${stats.evictions}, integrity failures: ${stats.integrityFailures}`
+].join('\n')
+
+const WalrusEndpointStatus: React.FC = () => {
+  const [endpoints, setEndpoints] = useState<EndpointHealth[]>(() => getWalrusEndpointHealth())
+  const [cacheStats, setCacheStats] = useState<WalrusCacheStats | null>(null)
+
+  useEffect(() => {
+    // Pools notify after every request; re-read the snapshot to pick up the new state
+    return subscribeWalrusEndpointHealth(() => setEndpoints(getWalrusEndpointHealth()))
+  }, [])
+
+  useEffect(() => {
+    const load = () => getWalrusCacheStats().then(setCacheStats)
+    load()
+    return subscribeWalrusCacheStats(load)
+  }, [])
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+      <Server className="w-3 h-3 text-muted-foreground" />
+      {endpoints.map(endpoint => (
+        <Badge
+          key={`${endpoint.role}:${endpoint.url}`}
+          variant="outline"
+          className={STATUS_STYLES[endpoint.status]}
+          title={describe(endpoint)}
+        >
+          {endpoint.role === 'publisher' ? 'PUB' : 'AGG'} {hostOf(endpoint.url)}
+          {endpoint.avgLatencyMs !== null && ` · ${Math.round(endpoint.avgLatencyMs)}ms`}
+        </Badge>
+      ))}
+      {cacheStats && cacheStats.maxBytes > 0 && (
+        <Badge variant="outline" title={describeCache(cacheStats)}>
+          <Database className="w-3 h-3 mr-1" />
+          {cacheStats.hits}/{cacheStats.hits + cacheStats.misses} hits · {formatMegabytes(cacheStats.totalBytes)}
+        </Badge>
+      )}
+    </div>
+  )
+}
+
+export default WalrusEndpointStatus
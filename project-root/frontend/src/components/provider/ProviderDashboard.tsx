@@ -11,6 +11,11 @@ import TaskSelector from '@/components/tasks/TaskSelector'
 import NodeSetup from './NodeSetup'
 import { WalletInfo, Task } from '@/types'
 import StakingPoolStats from '../StakingPoolStats'
+import { BlobExpiryBadge } from '../BlobLifetimePanel'
+import WalrusDownloadButton from '../WalrusDownloadButton'
+import ImageMirrorList from '../ImageMirrorList'
+import { jobRequestService } from '@/services/jobRequestService'
+import { JOB_STATUS, type JobRequest, type JobStatus } from '@/contracts/types'
 
 type Step = 'wallet' | 'node' | 'tasks' | 'deploy'
 type ViewState = 'wallet' | 'node' | 'node-setup' | 'tasks' | 'deploy'
@@ -28,6 +33,9 @@ const ProviderDashboard: React.FC<ProviderDashboardProps> = ({ onRoleChange }) =
   const [isDeploying, setIsDeploying] = useState(false)
   const [hasNode, setHasNode] = useState(false)
   const [isCheckingNode, setIsCheckingNode] = useState(false)
+  // Open job request for the selected image this node accepted; its ImageAccessPolicy grant follows the status
+  const [acceptedJob, setAcceptedJob] = useState<JobRequest | null>(null)
+  const [isUpdatingJob, setIsUpdatingJob] = useState(false)
 
   const steps = [
     { id: 'wallet', title: 'Connect Wallet', icon: Wallet, description: 'Connect your Sui wallet to get started' },
@@ -64,6 +72,7 @@ const ProviderDashboard: React.FC<ProviderDashboardProps> = ({ onRoleChange }) =
     setCurrentView('wallet')
     setSelectedTask(null)
     setHasNode(false)
+    setAcceptedJob(null)
   }
 
   const handleNodeCreate = () => {
@@ -85,16 +94,20 @@ const ProviderDashboard: React.FC<ProviderDashboardProps> = ({ onRoleChange }) =
   }
 
   const handleStartDeploy = async () => {
-    if (!selectedTask) return
+    if (!selectedTask || !currentAccount) return
 
     setIsDeploying(true)
 
     try {
-      // TODO: integrate contract calls to select task and start deployment
       console.log('Starting deployment for selected task:', selectedTask)
 
-      // Dummy deployment simulation
-      await new Promise(resolve => setTimeout(resolve, 2000))
+      // Accepting the image's open request lets the owner grant this node access to its image and secrets
+      const [request] = await jobRequestService.getOpenRequests(selectedTask.name)
+      setAcceptedJob(
+        request
+          ? await jobRequestService.updateRequestStatus(null, request, JOB_STATUS.ACCEPTED, currentAccount.address)
+          : null
+      )
 
       setCurrentStep('deploy')
       setCurrentView('deploy')
@@ -106,6 +119,19 @@ const ProviderDashboard: React.FC<ProviderDashboardProps> = ({ onRoleChange }) =
     }
   }
 
+  // Completing or giving up the job makes the owner revoke this node's access
+  const handleJobStatus = async (status: JobStatus) => {
+    if (!acceptedJob) return
+    setIsUpdatingJob(true)
+    try {
+      setAcceptedJob(await jobRequestService.updateRequestStatus(null, acceptedJob, status))
+    } catch (error) {
+      console.error('Job status update failed:', error)
+    } finally {
+      setIsUpdatingJob(false)
+    }
+  }
+
   const isStepCompleted = (stepId: string) => {
     switch (stepId) {
       case 'wallet': return walletInfo !== null
@@ -308,6 +334,33 @@ const ProviderDashboard: React.FC<ProviderDashboardProps> = ({ onRoleChange }) =
                         {selectedTask.walrusBlobUrl}
                       </a>
                     </div>
+                    {selectedTask.contentDigest && (
+                      <div className="mt-2 text-xs text-muted-foreground break-all">
+                        SHA-256: <span className="font-mono">{selectedTask.contentDigest}</span>
+                      </div>
+                    )}
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      <BlobExpiryBadge blobUrl={selectedTask.walrusBlobUrl} owner={selectedTask.createdBy} />
+                      <WalrusDownloadButton
+                        blobUrl={selectedTask.walrusBlobUrl}
+                        fileName={selectedTask.name.replace(/[^\w.-]+/g, '_')}
+                        expectedDigest={selectedTask.contentDigest}
+                      />
+                    </div>
+                    {selectedTask.mirrorUrls && selectedTask.mirrorUrls.length > 1 && (
+                      <div className="mt-4">
+                        <div className="text-sm text-muted-foreground mb-2">Mirrors:</div>
+                        <ImageMirrorList
+                          imageName={selectedTask.name.slice(0, selectedTask.name.lastIndexOf(':'))}
+                          version={selectedTask.name.slice(selectedTask.name.lastIndexOf(':') + 1)}
+                          source={{
+                            downloadUrls: selectedTask.mirrorUrls,
+                            primaryUrlIndex: selectedTask.primaryUrlIndex ?? 0,
+                            contentDigest: selectedTask.contentDigest ?? ''
+                          }}
+                        />
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex flex-wrap gap-2 mt-4">
@@ -335,6 +388,49 @@ const ProviderDashboard: React.FC<ProviderDashboardProps> = ({ onRoleChange }) =
               </>
             )}
 
+            {acceptedJob && selectedTask && (
+              <Card className="p-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold">Job request</h3>
+                  <Badge variant="outline">
+                    {acceptedJob.status === JOB_STATUS.ACCEPTED
+                      ? 'accepted'
+                      : acceptedJob.status === JOB_STATUS.COMPLETED ? 'completed' : 'rejected'}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground font-mono break-all">{acceptedJob.id}</p>
+                {acceptedJob.secrets && (
+                  <div className="space-y-1 text-sm">
+                    <p>
+                      Secret variables: <span className="font-mono">{acceptedJob.secrets.names.join(', ')}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Save the reference below as secrets.json on the node and start the container with
+                      NODE_PRIVATE_KEY set to this wallet&apos;s key; the values are decrypted only there.
+                    </p>
+                    <pre className="text-xs bg-muted p-2 rounded overflow-x-auto">{JSON.stringify(acceptedJob.secrets)}</pre>
+                    <pre className="text-xs bg-muted p-2 rounded overflow-x-auto">
+                      {`npm run run-job -- ${window.location.host}/${selectedTask.createdBy}/${selectedTask.name} secrets.json`}
+                    </pre>
+                  </div>
+                )}
+                {acceptedJob.status === JOB_STATUS.ACCEPTED && (
+                  <div className="flex gap-2 justify-end">
+                    <Button
+                      variant="outline"
+                      disabled={isUpdatingJob}
+                      onClick={() => handleJobStatus(JOB_STATUS.REJECTED)}
+                    >
+                      Give up job
+                    </Button>
+                    <Button disabled={isUpdatingJob} onClick={() => handleJobStatus(JOB_STATUS.COMPLETED)}>
+                      Complete job
+                    </Button>
+                  </div>
+                )}
+              </Card>
+            )}
+
             <div className="flex justify-center">
               <Button
                 variant="outline"
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef, useCallback } from 'react'
 import { motion } from 'framer-motion'
 import {
   Search,
@@ -19,7 +19,8 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Task, TaskFilter } from '@/types'
-import { moveRegistryAdapter, isRegistryConfigured } from '@/services/moveRegistryAdapter'
+import { getDockerRegistryClient, imagesToTasks, isRegistryConfigured, type RegistryPage } from '@/lib/docker-registry'
+import { getRegistryIndexer, type RegistryIndexStatus } from '@/lib/registry-indexer'
 
 interface TaskSelectorProps {
   onSelect: (task: Task | null) => void
@@ -45,49 +46,127 @@ const TaskSelector: React.FC<TaskSelectorProps> = ({
     maxMemory: 20
   })
 
-  // Load tasks from Docker Registry contract
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [totalImages, setTotalImages] = useState<number | null>(null)
+  // Tasks come from the local event index when it syncs, otherwise straight from the shared object
+  const [indexStatus, setIndexStatus] = useState<RegistryIndexStatus | null>(null)
+  const usingIndexRef = useRef(false)
+  const loadedCountRef = useRef(0)
+  // Registry pages are read lazily; the next page is fetched when the sentinel below the list scrolls into view
+  const pagesRef = useRef<AsyncGenerator<RegistryPage> | null>(null)
+  const loadingPageRef = useRef<AsyncGenerator<RegistryPage> | null>(null) // Iterator with a page in flight
+  const sentinelRef = useRef<HTMLDivElement | null>(null)
+
+  const loadNextPage = useCallback(async () => {
+    const pages = pagesRef.current
+    if (!pages || loadingPageRef.current === pages) return
+    loadingPageRef.current = pages
+    setIsLoadingMore(true)
+
+    try {
+      const { value: page, done } = await pages.next()
+      if (pagesRef.current !== pages) return // Reloaded while this page was in flight
+      if (done || !page) {
+        setHasMore(false)
+        return
+      }
+      console.log(`📦 Registry page @${page.cursor}: ${page.images.length} images`)
+      const tasks = imagesToTasks(page.images)
+      setAvailableTasks(prev => [...prev, ...tasks])
+      setHasMore(page.nextCursor !== null)
+    } catch (err) {
+      console.error('❌ Failed to load tasks from registry:', err)
+      setError(`Registry error: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      setHasMore(false)
+    } finally {
+      if (loadingPageRef.current === pages) loadingPageRef.current = null
+      setIsLoadingMore(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadedCountRef.current = availableTasks.length
+  }, [availableTasks.length])
+
+  // Re-reads the local index up to what is already shown, keeping the scroll position
+  const refreshFromIndex = useCallback(async (minCount: number) => {
+    const pages = getRegistryIndexer().iterateImagePages()
+    const tasks: Task[] = []
+    let more = true
+    while (more && tasks.length < Math.max(minCount, 1)) {
+      const { value: page, done } = await pages.next()
+      if (done || !page) {
+        more = false
+        break
+      }
+      tasks.push(...imagesToTasks(page.images))
+      more = page.nextCursor !== null
+    }
+    pagesRef.current = pages
+    setAvailableTasks(tasks)
+    setHasMore(more)
+  }, [])
+
+  // Load the first page of tasks from Docker Registry contract
   useEffect(() => {
     const loadTasks = async () => {
       setIsLoading(true)
       setError(null)
+      setAvailableTasks([])
+      setFilteredTasks([])
 
+      if (!isRegistryConfigured()) {
+        console.log('❌ Docker Registry not configured')
+        setError('Docker Registry not configured')
+        setIsLoading(false)
+        return
+      }
+
+      console.log('🔍 Loading tasks from Docker Registry...')
+      const client = getDockerRegistryClient()
+      client.getTotalImages().then(setTotalImages).catch(() => setTotalImages(null))
       try {
-        if (!isRegistryConfigured()) {
-          console.log('❌ Docker Registry not configured')
-          setError('Docker Registry not configured')
-          setAvailableTasks([])
-          setFilteredTasks([])
-          return
-        }
-
-        console.log('✅ Docker Registry configured, loading tasks...')
-
-        console.log('🔍 Loading tasks from Docker Registry...')
-        const images = await moveRegistryAdapter.getAllImages()
-        console.log('📦 Found', images.length, 'images in registry')
-
-        if (images.length > 0) {
-          const tasks = moveRegistryAdapter.convertToTasks(images)
-          console.log('✅ Converted to', tasks.length, 'tasks')
-          setAvailableTasks(tasks)
-          setFilteredTasks(tasks)
-        } else {
-          console.log('📭 No images in registry')
-          setAvailableTasks([])
-          setFilteredTasks([])
-        }
+        await getRegistryIndexer().start()
+        usingIndexRef.current = true
+        setIndexStatus(getRegistryIndexer().getStatus())
+        await refreshFromIndex(1)
       } catch (err) {
-        console.error('❌ Failed to load tasks from registry:', err)
-        setError(`Registry error: ${err instanceof Error ? err.message : 'Unknown error'}`)
-        setAvailableTasks([])
-        setFilteredTasks([])
-      } finally {
-        setIsLoading(false)
+        console.warn('⚠️ 레지스트리 인덱스 사용 불가, 체인에서 직접 조회:', err)
+        usingIndexRef.current = false
+        setIndexStatus(null)
+        pagesRef.current = client.iterateImagePages()
+        await loadNextPage()
       }
+      setIsLoading(false)
     }
 
     loadTasks()
-  }, [])
+    return () => {
+      pagesRef.current?.return(undefined)
+      pagesRef.current = null
+    }
+  }, [loadNextPage, refreshFromIndex])
+
+  // New registry events update the list in place
+  useEffect(() => getRegistryIndexer().subscribe(status => {
+    if (!usingIndexRef.current) return
+    setIndexStatus(status)
+    if (status !== 'error') {
+      refreshFromIndex(loadedCountRef.current).catch(err => console.warn('⚠️ 인덱스 새로고침 실패:', err))
+    }
+  }), [refreshFromIndex])
+
+  // Infinite scroll
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore) return
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadNextPage()
+    }, { rootMargin: '400px' })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadNextPage, availableTasks.length])
 
   // 검색 및 필터링
   useEffect(() => {
@@ -165,6 +244,8 @@ const TaskSelector: React.FC<TaskSelectorProps> = ({
         </div>
         <Badge variant="outline" className="text-lg px-3 py-1">
           {isLoading ? 'Loading...' : `${filteredTasks.length} available`}
+          {!isLoading && hasMore && totalImages !== null && ` (${availableTasks.length}/${totalImages} loaded)`}
+          {indexStatus && ` · index: ${indexStatus}`}
         </Badge>
       </div>
 
@@ -357,6 +438,19 @@ const TaskSelector: React.FC<TaskSelectorProps> = ({
         })}
       </div>
 
+      {/* 다음 페이지 로드 지점 */}
+      {hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-4">
+          {isLoadingMore ? (
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          ) : (
+            <Button variant="ghost" size="sm" onClick={loadNextPage}>
+              Load more
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* 선택된 Task 요약 */}
       {selectedTask && (
         <Card className="p-4 bg-primary/5 border-primary/20">
@@ -1,5 +1,7 @@
 // 컨트랙트 관련 타입 정의
 
+import type { DeploymentSecretsRef } from '@/types'
+
 export interface NodeMetadata {
   cpu_cores: number
   memory_gb: number
@@ -66,6 +68,9 @@ export interface JobRequest {
   status: number
   created_at: number
   updated_at: number
+  image_name?: string // 배포할 레지스트리 이미지 (name:version)
+  policy_id?: string // seal_policy ImageAccessPolicy: 수락한 제공자만 이미지와 secret 복호화 가능
+  secrets?: DeploymentSecretsRef // Seal로 암호화된 secret 환경 변수 blob (값은 blob에만 존재)
 }
 
 // 작업 요청 상태 상수
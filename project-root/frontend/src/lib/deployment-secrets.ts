@@ -0,0 +1,141 @@
+// Deployment secrets: environment variables marked secret never travel in the deployment spec.
+// They are Seal-encrypted into their own Walrus blob; the spec only keeps their names, and the
+// assigned node decrypts the blob when it starts the container (see seal/index.ts).
+
+import type { DeploymentSecretsRef } from '@/types';
+import { readFromWalrus } from './walrus-client';
+import { recordBlobLifetime } from './walrus-lifetime';
+import { createSealIdentity, type SealService, type SealUploadOptions } from './seal-client';
+import { approveForJobPolicy, createPolicySealIdentity } from './seal-policy';
+
+export interface EnvVariable {
+  name: string;
+  value: string;
+  secret: boolean;
+}
+
+interface SecretsPayload {
+  type: 'daas-deployment-secrets';
+  version: 1;
+  variables: Record<string, string>;
+}
+
+export const SECRET_MASK = '••••••••';
+
+// Names that are almost always credentials; used to pre-mark new variables and to mask unmarked specs
+const SECRET_NAME_PATTERN = /(SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|API_?KEY|ACCESS_?KEY|_KEY$)/i;
+
+export const looksLikeSecretName = (name: string): boolean => SECRET_NAME_PATTERN.test(name);
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Problems that would make the container env invalid (bad names, duplicates); empty when valid
+ */
+export const validateEnvVariables = (variables: EnvVariable[]): string[] => {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const { name } of variables) {
+    if (!ENV_NAME_PATTERN.test(name)) {
+      errors.push(`잘못된 변수 이름: "${name}"`);
+    } else if (seen.has(name)) {
+      errors.push(`중복된 변수 이름: ${name}`);
+    }
+    seen.add(name);
+  }
+  return errors;
+};
+
+export const splitEnvironment = (
+  variables: EnvVariable[]
+): { environment: Record<string, string>; secrets: Record<string, string> } => {
+  const environment: Record<string, string> = {};
+  const secrets: Record<string, string> = {};
+  for (const { name, value, secret } of variables) {
+    (secret ? secrets : environment)[name] = value;
+  }
+  return { environment, secrets };
+};
+
+export interface EncryptSecretsOptions {
+  sealService: SealService;
+  policyId?: string; // Grant the job's provider access through seal_policy; owner-only otherwise
+  epochs?: number;
+  onBackupKey?: SealUploadOptions['onBackupKey'];
+}
+
+/**
+ * Encrypts secret values into a separate Walrus blob; returns null when there are none
+ */
+export const encryptDeploymentSecrets = async (
+  secrets: Record<string, string>,
+  options: EncryptSecretsOptions
+): Promise<DeploymentSecretsRef | null> => {
+  const names = Object.keys(secrets);
+  if (names.length === 0) return null;
+
+  const payload: SecretsPayload = { type: 'daas-deployment-secrets', version: 1, variables: secrets };
+  const sealId = options.policyId
+    ? createPolicySealIdentity(options.policyId)
+    : createSealIdentity(options.sealService.address);
+
+  const result = await options.sealService.encryptAndUpload(new TextEncoder().encode(JSON.stringify(payload)), {
+    sealId,
+    epochs: options.epochs,
+    metadata: { type: 'deployment-secrets' },
+    onBackupKey: options.onBackupKey
+  });
+  if (result.status === 'error') {
+    throw new Error(`Secret 업로드 실패: ${result.error}`);
+  }
+
+  await recordBlobLifetime(result, {
+    label: `Deployment secrets (${names.join(', ')})`,
+    owner: options.sealService.address,
+    deletable: true,
+    sealId
+  });
+
+  console.log(`🔐 Secret ${names.length}개 암호화 완료:`, result.blobId);
+  return { blobId: result.blobId, names, sealId, policyId: options.policyId };
+};
+
+export const decryptDeploymentSecrets = async (
+  ref: DeploymentSecretsRef,
+  sealService: SealService
+): Promise<Record<string, string>> => {
+  const plaintext = await readFromWalrus(ref.blobId, {
+    decrypt: ciphertext =>
+      sealService.decrypt(ciphertext, ref.policyId ? approveForJobPolicy(ref.policyId) : undefined)
+  });
+
+  const payload = JSON.parse(new TextDecoder().decode(plaintext)) as SecretsPayload;
+  if (payload.type !== 'daas-deployment-secrets') {
+    throw new Error(`Blob ${ref.blobId} is not a deployment secrets blob`);
+  }
+  return payload.variables;
+};
+
+/**
+ * Masks env entries in a Kubernetes-style spec ({ name, value } arrays under `env`), at any depth
+ */
+export const redactEnvInSpec = <T>(spec: T, secretNames: string[] = []): T => {
+  const isSecret = (name: string) => secretNames.includes(name) || looksLikeSecretName(name);
+
+  const redact = (value: unknown, key?: string): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(item => {
+        if (key === 'env' && item && typeof item === 'object' && typeof item.name === 'string' && 'value' in item) {
+          return isSecret(item.name) ? { ...item, value: SECRET_MASK } : item;
+        }
+        return redact(item);
+      });
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([entryKey, entry]) => [entryKey, redact(entry, entryKey)]));
+    }
+    return value;
+  };
+
+  return redact(spec) as T;
+};
@@ -0,0 +1,268 @@
+// Layer-aware handling of `docker save` archives
+// The tar is split into its entries: small ones are inlined in a manifest, large ones (config, layers)
+// become content-addressed blobs. Raw headers are kept so the reassembled tar has identical entries.
+
+const BLOCK_SIZE = 512;
+export const INLINE_ENTRY_MAX_SIZE = 64 * 1024; // Larger regular files are stored as separate blobs
+
+export interface DockerTarEntry {
+  path: string;
+  typeflag: string;
+  size: number;
+  header: string; // base64 of the raw 512-byte header block
+  inline?: string; // base64 content of small entries
+  blobId?: string; // Walrus blob holding the content of large entries
+  digest?: string; // sha256 of the content of large entries
+}
+
+// Manifest stored as the logical blob of a layer-aware Docker image upload
+export interface DockerImageManifest {
+  type: 'daas-docker-image';
+  version: 1;
+  repoTags: string[];
+  config?: string; // digest of the image config entry
+  layers: string[]; // digests in manifest.json order
+  totalSize: number;
+  digest: string; // sha256 of the reassembled tar
+  entries: DockerTarEntry[];
+  ociManifest?: { mediaType: string; content: string }; // Registry manifest of images pushed through /v2 (base64)
+}
+
+export interface TarIndexEntry {
+  path: string;
+  typeflag: string;
+  size: number;
+  header: Uint8Array;
+  offset: number; // Where the entry's data starts in the archive
+  linkTarget?: string; // Symlink/hardlink target, from the header or a GNU/PAX extension
+}
+
+export interface ParsedTarEntry extends TarIndexEntry {
+  data: Blob;
+}
+
+// Random access to an archive; reads past the end return fewer bytes
+export interface TarSource {
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+export interface ParsedDockerSave {
+  entries: ParsedTarEntry[];
+  repoTags: string[];
+  configPath?: string;
+  layerPaths: string[];
+}
+
+interface DockerSaveManifestEntry {
+  Config?: string;
+  RepoTags?: string[] | null;
+  Layers?: string[];
+}
+
+const textDecoder = new TextDecoder();
+
+export const readString = (header: Uint8Array, start: number, length: number): string => {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return textDecoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+// Sizes are octal, or base-256 (high bit set) for entries of 8GB and more
+const readSize = (header: Uint8Array): number => {
+  if (header[124] & 0x80) {
+    let size = 0;
+    for (let i = 125; i < 136; i++) {
+      size = size * 256 + header[i];
+    }
+    return size;
+  }
+  return parseInt(readString(header, 124, 12).trim() || '0', 8);
+};
+
+export const tarHeaderChecksum = (header: Uint8Array): number => {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]; // Checksum field counts as spaces
+  }
+  return sum;
+};
+
+const isValidChecksum = (header: Uint8Array): boolean =>
+  tarHeaderChecksum(header) === parseInt(readString(header, 148, 8).trim(), 8);
+
+// PAX records look like "<length> <key>=<value>\n"; the length (in bytes) covers the whole record
+const readPaxRecords = (data: Uint8Array): Map<string, string> => {
+  const records = new Map<string, string>();
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(textDecoder.decode(data.subarray(offset, space)), 10);
+    if (space === -1 || !length) break;
+
+    const record = textDecoder.decode(data.subarray(space + 1, offset + length - 1));
+    const separator = record.indexOf('=');
+    if (separator > 0) {
+      records.set(record.slice(0, separator), record.slice(separator + 1));
+    }
+    offset += length;
+  }
+  return records;
+};
+
+export const paddedSize = (size: number): number => Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+/**
+ * Walks the headers of a tar, reading only headers and GNU/PAX extension data
+ */
+export const readTarIndex = async (source: TarSource): Promise<TarIndexEntry[]> => {
+  const entries: TarIndexEntry[] = [];
+  let offset = 0;
+  let pendingPath: string | null = null; // From a GNU long name or PAX header
+  let pendingLinkTarget: string | null = null;
+
+  for (;;) {
+    const header = await source.read(offset, BLOCK_SIZE);
+    if (header.length < BLOCK_SIZE || header.every(byte => byte === 0)) {
+      break; // End-of-archive marker (or a truncated archive)
+    }
+    if (!isValidChecksum(header)) {
+      throw new Error(`Invalid tar header at offset ${offset}`);
+    }
+
+    const size = readSize(header);
+    const typeflag = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + BLOCK_SIZE;
+
+    const name = readString(header, 0, 100);
+    const prefix = readString(header, 257, 6).startsWith('ustar') ? readString(header, 345, 155) : '';
+    const path = pendingPath ?? (prefix ? `${prefix}/${name}` : name);
+    const linkTarget = pendingLinkTarget ?? readString(header, 157, 100);
+
+    if (typeflag === 'L') {
+      pendingPath = readString(await source.read(dataStart, size), 0, size);
+    } else if (typeflag === 'K') {
+      pendingLinkTarget = readString(await source.read(dataStart, size), 0, size);
+    } else if (typeflag === 'x') {
+      const records = readPaxRecords(await source.read(dataStart, size));
+      pendingPath = records.get('path') ?? pendingPath;
+      pendingLinkTarget = records.get('linkpath') ?? pendingLinkTarget;
+    } else {
+      pendingPath = null;
+      pendingLinkTarget = null;
+    }
+
+    entries.push({ path, typeflag, size, header, offset: dataStart, linkTarget: linkTarget || undefined });
+    offset = dataStart + paddedSize(size);
+  }
+
+  return entries;
+};
+
+/**
+ * Reads the entry list of a tar without loading entry contents; data is exposed as Blob slices
+ */
+export const parseTarEntries = async (file: Blob): Promise<ParsedTarEntry[]> => {
+  const entries = await readTarIndex({
+    read: async (offset, length) => new Uint8Array(await file.slice(offset, offset + length).arrayBuffer())
+  });
+  return entries.map(entry => ({ ...entry, data: file.slice(entry.offset, entry.offset + entry.size) }));
+};
+
+const normalizePath = (path: string): string => path.replace(/^\.\//, '');
+
+/**
+ * Parses a `docker save` tar and finds the config and layer entries referenced by manifest.json
+ */
+export const parseDockerSaveTar = async (file: Blob): Promise<ParsedDockerSave> => {
+  const entries = await parseTarEntries(file);
+  const manifestEntry = entries.find(entry => normalizePath(entry.path) === 'manifest.json');
+  if (!manifestEntry) {
+    throw new Error('Not a docker save archive: manifest.json missing');
+  }
+
+  const dockerManifest = JSON.parse(await manifestEntry.data.text()) as DockerSaveManifestEntry[];
+  if (!Array.isArray(dockerManifest) || dockerManifest.length === 0) {
+    throw new Error('Invalid docker save manifest.json');
+  }
+
+  // Multi-image archives are kept whole; config/layer bookkeeping follows the first image
+  const [image] = dockerManifest;
+  return {
+    entries,
+    repoTags: dockerManifest.flatMap(item => item.RepoTags ?? []),
+    configPath: image.Config,
+    layerPaths: image.Layers ?? []
+  };
+};
+
+export const isDockerSaveArchive = async (file: Blob): Promise<boolean> => {
+  try {
+    await parseDockerSaveTar(file);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isDockerImageManifest = (value: unknown): value is DockerImageManifest =>
+  typeof value === 'object' && value !== null &&
+  (value as DockerImageManifest).type === 'daas-docker-image' &&
+  Array.isArray((value as DockerImageManifest).entries);
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const step = 0x8000; // Avoids argument limits of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += step) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + step));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Rebuilds the tar from a manifest; `readEntry` fetches (and verifies) externally stored entries
+ */
+export const assembleDockerImageTar = async (
+  manifest: DockerImageManifest,
+  readEntry: (entry: DockerTarEntry) => Promise<Uint8Array>
+): Promise<Uint8Array> => {
+  // Zero-filled, so padding and the end-of-archive blocks need no extra writes
+  const output = new Uint8Array(manifest.totalSize);
+  let offset = 0;
+
+  for (const entry of manifest.entries) {
+    output.set(base64ToBytes(entry.header), offset);
+    offset += BLOCK_SIZE;
+
+    let data: Uint8Array;
+    if (entry.inline !== undefined) {
+      data = base64ToBytes(entry.inline);
+    } else if (entry.blobId) {
+      data = await readEntry(entry);
+    } else {
+      data = new Uint8Array(0);
+    }
+
+    if (data.length !== entry.size) {
+      throw new Error(`Size mismatch for ${entry.path}: expected ${entry.size}, got ${data.length}`);
+    }
+    output.set(data, offset);
+    offset += paddedSize(entry.size);
+  }
+
+  return output;
+};
+
+/**
+ * Size of the reassembled tar: entries plus the two zero blocks that end the archive
+ */
+export const assembledTarSize = (entries: Array<{ size: number }>): number =>
+  entries.reduce((sum, entry) => sum + BLOCK_SIZE + paddedSize(entry.size), 0) + 2 * BLOCK_SIZE;
@@ -0,0 +1,100 @@
+// Generated by scripts/generate-registry-types.mjs from contracts/sources/docker_registry.move — do not edit
+// Field order matches the Move declarations, which is what BCS decoding depends on.
+
+import { bcs } from '@mysten/sui/bcs';
+
+export const MODULE_NAME = 'docker_registry';
+
+export const MinRequirements = bcs.struct('MinRequirements', {
+  min_cpu_cores: bcs.u32(),
+  min_memory_gb: bcs.u32(),
+  min_storage_gb: bcs.u32(),
+  max_price_per_hour: bcs.u64()
+});
+export type MinRequirements = typeof MinRequirements.$inferType;
+
+export const DockerImage = bcs.struct('DockerImage', {
+  id: bcs.u64(),
+  owner: bcs.Address,
+  download_urls: bcs.vector(bcs.string()),
+  primary_url_index: bcs.u64(),
+  image_name: bcs.string(),
+  version: bcs.string(),
+  size: bcs.u64(),
+  content_digest: bcs.string(),
+  timestamp: bcs.u64(),
+  upload_type: bcs.string(),
+  requirements: MinRequirements
+});
+export type DockerImage = typeof DockerImage.$inferType;
+
+export const ImageTag = bcs.struct('ImageTag', {
+  image_name: bcs.string(),
+  tag: bcs.string(),
+  version: bcs.string()
+});
+export type ImageTag = typeof ImageTag.$inferType;
+
+export const ImageRegisteredEvent = bcs.struct('ImageRegisteredEvent', {
+  id: bcs.u64(),
+  owner: bcs.Address,
+  urls: bcs.vector(bcs.string()),
+  image_name: bcs.string(),
+  version: bcs.string(),
+  size: bcs.u64(),
+  content_digest: bcs.string(),
+  timestamp: bcs.u64(),
+  upload_type: bcs.string(),
+  requirements: MinRequirements
+});
+export type ImageRegisteredEvent = typeof ImageRegisteredEvent.$inferType;
+
+export const ImageBlobRotatedEvent = bcs.struct('ImageBlobRotatedEvent', {
+  owner: bcs.Address,
+  image_name: bcs.string(),
+  version: bcs.string(),
+  size: bcs.u64(),
+  old_content_digest: bcs.string(),
+  new_content_digest: bcs.string(),
+  urls: bcs.vector(bcs.string()),
+  timestamp: bcs.u64()
+});
+export type ImageBlobRotatedEvent = typeof ImageBlobRotatedEvent.$inferType;
+
+export const ImageMirrorsUpdatedEvent = bcs.struct('ImageMirrorsUpdatedEvent', {
+  owner: bcs.Address,
+  image_name: bcs.string(),
+  version: bcs.string(),
+  urls: bcs.vector(bcs.string()),
+  primary_url_index: bcs.u64()
+});
+export type ImageMirrorsUpdatedEvent = typeof ImageMirrorsUpdatedEvent.$inferType;
+
+export const ImageTaggedEvent = bcs.struct('ImageTaggedEvent', {
+  owner: bcs.Address,
+  image_name: bcs.string(),
+  tag: bcs.string(),
+  version: bcs.string(),
+  previous_version: bcs.string(),
+  timestamp: bcs.u64()
+});
+export type ImageTaggedEvent = typeof ImageTaggedEvent.$inferType;
+
+export const ImageUntaggedEvent = bcs.struct('ImageUntaggedEvent', {
+  owner: bcs.Address,
+  image_name: bcs.string(),
+  tag: bcs.string(),
+  version: bcs.string()
+});
+export type ImageUntaggedEvent = typeof ImageUntaggedEvent.$inferType;
+
+export const ImageDeleted = bcs.struct('ImageDeleted', {
+  owner: bcs.Address,
+  image_name: bcs.string(),
+  version: bcs.string(),
+  content_digest: bcs.string(),
+  urls: bcs.vector(bcs.string())
+});
+export type ImageDeleted = typeof ImageDeleted.$inferType;
+
+export const EVENT_TYPES = ['ImageRegisteredEvent', 'ImageBlobRotatedEvent', 'ImageMirrorsUpdatedEvent', 'ImageTaggedEvent', 'ImageUntaggedEvent', 'ImageDeleted'] as const;
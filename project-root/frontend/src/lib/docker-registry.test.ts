@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import type { DevInspectResults, SuiEvent } from '@mysten/sui/client';
+import { decodeDockerImages, parseRegistryEvent } from './docker-registry';
+import allImagesPage from './__fixtures__/get_all_images_page.devinspect.json';
+import emptyUserPage from './__fixtures__/get_user_images_page.empty.devinspect.json';
+import registryEvents from './__fixtures__/registry-events.json';
+
+// Fixtures are synthetic until captured from a deployment (see __fixtures__/README.md)
+
+// Same path DockerRegistryClient.inspect reads the vector<DockerImage> bytes from
+const returnBytes = (result: DevInspectResults): number[] => result.results![0].returnValues![0][0];
+
+const OWNER_A = '0x5a1e4c2b9d8f7e6a3b0c1d2e3f4a5b6c7d8e9f0a1b2c3d4e5f6a7b8c9d0e1f2a';
+const OWNER_B = '0x00000000000000000000000000000000000000000000000000000000000b0b0b';
+
+describe('decodeDockerImages', () => {
+  it('decodes a get_all_images_page return value', () => {
+    const images = decodeDockerImages(returnBytes(allImagesPage as DevInspectResults));
+
+    expect(images).toHaveLength(2);
+    expect(images[0]).toEqual({
+      id: 0,
+      owner: OWNER_A,
+      downloadUrls: ['https://aggregator.walrus-testnet.walrus.space/v1/blobs/Xq3ZB0tlBy1mS0M0Lg4mVdoLh7a2ac2RbZ1lXf5ex0E'],
+      primaryUrlIndex: 0,
+      imageName: 'nginx-demo',
+      version: '1.0.0',
+      size: 67108864,
+      contentDigest: 'sha256:2f1c0c5a4bd8e76a9d0f2e4b1c7a3e5d9f8b6a4c2e0d1f3b5a7c9e8d6f4b2a01',
+      timestamp: 1760000000000,
+      uploadType: 'docker',
+      requirements: { minCpuCores: 2, minMemoryGb: 4, minStorageGb: 10, maxPricePerHour: 1500000000 },
+    });
+  });
+
+  it('keeps same-named images of different owners apart', () => {
+    const [first, second] = decodeDockerImages(returnBytes(allImagesPage as DevInspectResults));
+
+    expect(second.id).toBe(3); // IDs 1 and 2 were deleted; the cursor skips the gap
+    expect(second.owner).toBe(OWNER_B);
+    expect([second.imageName, second.version]).toEqual([first.imageName, first.version]);
+    expect(second.downloadUrls).toHaveLength(2);
+    expect(second.primaryUrlIndex).toBe(1);
+    expect(second.contentDigest).toBe('');
+    expect(second.uploadType).toBe('project');
+  });
+
+  it('decodes an empty page', () => {
+    expect(decodeDockerImages(returnBytes(emptyUserPage as DevInspectResults))).toEqual([]);
+  });
+
+  it('rejects truncated bytes', () => {
+    const bytes = returnBytes(allImagesPage as DevInspectResults);
+    expect(() => decodeDockerImages(bytes.slice(0, bytes.length - 4))).toThrow();
+  });
+});
+
+describe('parseRegistryEvent', () => {
+  const [registered, tagged, deleted, foreign] = registryEvents as SuiEvent[];
+
+  it('decodes a base64 ImageRegisteredEvent', () => {
+    const event = parseRegistryEvent(registered);
+
+    expect(event?.type).toBe('ImageRegisteredEvent');
+    expect(event?.raw).toBe(registered);
+    expect(event?.data).toMatchObject({
+      id: '0',
+      owner: OWNER_A,
+      image_name: 'nginx-demo',
+      version: '1.0.0',
+      size: '67108864',
+      timestamp: '1760000000000',
+      upload_type: 'docker',
+      requirements: { min_cpu_cores: 2, min_memory_gb: 4, min_storage_gb: 10, max_price_per_hour: '1500000000' },
+    });
+  });
+
+  it('decodes a base58 ImageTaggedEvent', () => {
+    expect(parseRegistryEvent(tagged)).toMatchObject({
+      type: 'ImageTaggedEvent',
+      data: { owner: OWNER_A, image_name: 'nginx-demo', tag: 'latest', version: '1.0.0', previous_version: '' },
+    });
+  });
+
+  it('decodes ImageDeleted with the removed URLs', () => {
+    const event = parseRegistryEvent(deleted);
+
+    expect(event?.type).toBe('ImageDeleted');
+    expect(event?.data).toMatchObject({ owner: OWNER_B, image_name: 'nginx-demo', version: '1.0.0' });
+    expect(event?.type === 'ImageDeleted' && event.data.urls).toHaveLength(2);
+  });
+
+  it('ignores events of other types', () => {
+    expect(parseRegistryEvent(foreign)).toBeNull();
+  });
+});
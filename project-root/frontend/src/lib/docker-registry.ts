@@ -1,17 +1,110 @@
+// Typed client for the docker_registry Move module
+// Struct layouts come from docker-registry.generated.ts (npm run gen:registry); view functions are called
+// with devInspect and their BCS return values decoded with those schemas.
+
 import { Transaction } from '@mysten/sui/transactions';
-import { SuiClient } from '@mysten/sui/client';
+import { SuiClient, getFullnodeUrl, type EventId, type SuiEvent } from '@mysten/sui/client';
+import { bcs } from '@mysten/sui/bcs';
+import type { Signer } from '@mysten/sui/cryptography';
+import { fromBase58, fromBase64, normalizeSuiAddress } from '@mysten/sui/utils';
+import type { Task } from '@/types';
+import * as generated from './docker-registry.generated';
 
 // 배포된 패키지 ID와 레지스트리 객체 ID
-export const PACKAGE_ID = '0x2766574215914a60a80eacb51ce46675dbd99e58fc6337faa39631c138f5fc4b';
-export const REGISTRY_ID = '0xb2544ada4dd961e452d0fef18e4a333d59370f3ff7f5014a4ea27fb27ebf89f3'; // DockerRegistry shared object
+// The DockerImage layout and entry functions changed incompatibly with the first testnet deployment
+// (0x2766…fc4b), so there is no built-in default: publish the package and set both IDs (see the migration note).
+export const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || '';
+export const REGISTRY_ID = process.env.NEXT_PUBLIC_DOCKER_REGISTRY_ID || ''; // DockerRegistry shared object
+
+const CLOCK_ID = '0x6';
+
+// Configured Sui RPC endpoint, shared by the registry client and Walrus cost estimates
+export const SUI_RPC_URL = process.env.NEXT_PUBLIC_SUI_RPC_URL || getFullnodeUrl('testnet');
+
+// Must not exceed MAX_PAGE_SIZE in docker_registry.move (larger limits are clamped on-chain)
+export const REGISTRY_PAGE_SIZE = 50;
+
+export type UploadType = 'docker' | 'project';
+
+export interface MinRequirements {
+  minCpuCores: number;
+  minMemoryGb: number;
+  minStorageGb: number;
+  maxPricePerHour: number; // MIST per hour
+}
 
+// Decoded DockerImage with u64 fields as numbers
 export interface DockerImage {
+  id: number; // Registry-wide, increases with registration and is never reused (page cursor)
+  owner: string; // Registering address
   downloadUrls: string[];
+  primaryUrlIndex: number;
   imageName: string;
+  version: string;
   size: number;
-  uploadType: 'docker' | 'project';
+  contentDigest: string; // "sha256:<hex>", empty for images registered before digests existed
+  timestamp: number;
+  uploadType: UploadType;
+  requirements: MinRequirements;
+}
+
+// Mutable pointer from `imageName:tag` to one of the image's versions
+export interface ImageTag {
+  imageName: string;
+  tag: string;
+  version: string;
+}
+
+// One image name with its version history (oldest first) and tags
+export interface ImageVersionHistory {
+  imageName: string;
+  versions: DockerImage[];
+  tags: ImageTag[];
+}
+
+export interface RegistryPage {
+  images: DockerImage[];
+  cursor: number; // Where the page starts: an image ID on-chain, a position in the local index
+  nextCursor: number | null; // null on the last page
+}
+
+export interface RegistryEventPage {
+  events: RegistryEvent[];
+  nextCursor: EventId | null;
+  hasNextPage: boolean;
+}
+
+export interface RegisterImageInput {
+  urls: string[];
+  imageName: string;
+  version: string;
+  tags?: string[]; // Applied in the same transaction, e.g. ['latest']
+  size: number;
+  contentDigest: string;
+  uploadType: UploadType;
+  requirements: MinRequirements;
+}
+
+export interface RegistryConfig {
+  packageId: string;
+  registryId: string;
 }
 
+// Owner-side changes to an image's URL pool; indexes are positions in downloadUrls
+export type MirrorChange =
+  | { kind: 'add'; url: string }
+  | { kind: 'remove'; urlIndex: number }
+  | { kind: 'move'; from: number; to: number }
+  | { kind: 'setPrimary'; urlIndex: number };
+
+export type RegistryEvent =
+  | { type: 'ImageRegisteredEvent'; data: generated.ImageRegisteredEvent; raw: SuiEvent }
+  | { type: 'ImageBlobRotatedEvent'; data: generated.ImageBlobRotatedEvent; raw: SuiEvent }
+  | { type: 'ImageMirrorsUpdatedEvent'; data: generated.ImageMirrorsUpdatedEvent; raw: SuiEvent }
+  | { type: 'ImageTaggedEvent'; data: generated.ImageTaggedEvent; raw: SuiEvent }
+  | { type: 'ImageUntaggedEvent'; data: generated.ImageUntaggedEvent; raw: SuiEvent }
+  | { type: 'ImageDeleted'; data: generated.ImageDeleted; raw: SuiEvent };
+
 // DockerRegistryClient에서 사용할 Signer 인터페이스
 interface SimpleSigner {
   signAndExecuteTransaction(input: {
@@ -19,200 +112,557 @@ interface SimpleSigner {
   }): Promise<{ digest: string }>;
 }
 
+export const DEFAULT_REGISTRY_CONFIG: RegistryConfig = { packageId: PACKAGE_ID, registryId: REGISTRY_ID };
+
+export const isRegistryConfigured = (config: RegistryConfig = DEFAULT_REGISTRY_CONFIG): boolean =>
+  !!config.packageId && !!config.registryId && normalizeSuiAddress(config.registryId) !== normalizeSuiAddress('0x0');
+
+export const primaryUrl = (image: DockerImage): string =>
+  image.downloadUrls[image.primaryUrlIndex] || image.downloadUrls[0] || '';
+
+/**
+ * Splits `name[:reference]`; a colon inside a registry host (`host:5000/app`) is not a reference
+ */
+export const parseImageReference = (reference: string): { imageName: string; reference?: string } => {
+  const trimmed = reference.trim();
+  const colon = trimmed.lastIndexOf(':');
+  if (colon <= 0 || trimmed.indexOf('/', colon) !== -1) {
+    return { imageName: trimmed };
+  }
+  return { imageName: trimmed.slice(0, colon), reference: trimmed.slice(colon + 1) || undefined };
+};
+
+/**
+ * Version used when the uploader does not give one: UTC upload time, e.g. 20261019.143005
+ */
+export const defaultImageVersion = (date = new Date()): string =>
+  date.toISOString().replace(/[-:]/g, '').replace('T', '.').slice(0, 15);
+
+/**
+ * BCS DockerImage → DockerImage
+ */
+export const fromMoveImage = (image: generated.DockerImage): DockerImage => ({
+  id: Number(image.id),
+  owner: normalizeSuiAddress(image.owner),
+  downloadUrls: image.download_urls,
+  primaryUrlIndex: Number(image.primary_url_index),
+  imageName: image.image_name,
+  version: image.version,
+  size: Number(image.size),
+  contentDigest: image.content_digest,
+  timestamp: Number(image.timestamp),
+  uploadType: image.upload_type as UploadType,
+  requirements: {
+    minCpuCores: image.requirements.min_cpu_cores,
+    minMemoryGb: image.requirements.min_memory_gb,
+    minStorageGb: image.requirements.min_storage_gb,
+    maxPricePerHour: Number(image.requirements.max_price_per_hour)
+  }
+});
+
+/**
+ * Decodes a vector<DockerImage> return value (raw BCS bytes from devInspect)
+ */
+export const decodeDockerImages = (bytes: Uint8Array | number[]): DockerImage[] =>
+  bcs.vector(generated.DockerImage).parse(Uint8Array.from(bytes)).map(fromMoveImage);
+
+export const fromMoveTag = (tag: generated.ImageTag): ImageTag => ({
+  imageName: tag.image_name,
+  tag: tag.tag,
+  version: tag.version
+});
+
+/**
+ * Groups an owner's images by name; tags are matched to the image they belong to
+ */
+export const groupImageVersions = (images: DockerImage[], tags: ImageTag[]): ImageVersionHistory[] => {
+  const histories = new Map<string, ImageVersionHistory>();
+  for (const image of images) {
+    const history = histories.get(image.imageName) ?? { imageName: image.imageName, versions: [], tags: [] };
+    history.versions.push(image);
+    histories.set(image.imageName, history);
+  }
+  for (const tag of tags) {
+    histories.get(tag.imageName)?.tags.push(tag);
+  }
+  return [...histories.values()];
+};
+
 export class DockerRegistryClient {
   private client: SuiClient;
+  private config: RegistryConfig;
 
-  constructor(client: SuiClient) {
+  constructor(client: SuiClient, config: RegistryConfig = DEFAULT_REGISTRY_CONFIG) {
     this.client = client;
+    this.config = config;
+  }
+
+  private target(fn: string): `${string}::${string}::${string}` {
+    return `${this.config.packageId}::${generated.MODULE_NAME}::${fn}`;
   }
 
   /**
-   * Docker 이미지 URL을 온체인에 등록
+   * register_docker_image 트랜잭션 생성 (지갑 훅에서 직접 서명할 때 사용)
+   * input.tags는 같은 트랜잭션에서 새 버전에 지정됨
    */
-  async registerDockerImage(
-    urls: string[],
-    imageName: string,
-    size: number,
-    minCpuCores: number,
-    minMemoryGb: number,
-    minStorageGb: number,
-    maxPricePerHour: number,
-    signer: SimpleSigner
-  ): Promise<string> {
+  buildRegisterTransaction(input: RegisterImageInput): Transaction {
     const tx = new Transaction();
-
-    // Clock 객체 참조
-    const clockId = '0x6';
-
-    // register_docker_image 함수 호출 (최소 요구 사양 추가)
     tx.moveCall({
-      target: `${PACKAGE_ID}::docker_registry::register_docker_image`,
+      target: this.target('register_docker_image'),
       arguments: [
-        tx.object(REGISTRY_ID),
-        tx.pure.vector('string', urls),
-        tx.pure.string(imageName),
-        tx.pure.u64(size),
-        tx.pure.string('docker'),
-        tx.pure.u32(minCpuCores),
-        tx.pure.u32(minMemoryGb),
-        tx.pure.u32(minStorageGb),
-        tx.pure.u64(maxPricePerHour),
-        tx.object(clockId),
+        tx.object(this.config.registryId),
+        tx.pure.vector('string', input.urls),
+        tx.pure.string(input.imageName),
+        tx.pure.string(input.version),
+        tx.pure.u64(input.size),
+        tx.pure.string(input.contentDigest),
+        tx.pure.string(input.uploadType),
+        tx.pure.u32(input.requirements.minCpuCores),
+        tx.pure.u32(input.requirements.minMemoryGb),
+        tx.pure.u32(input.requirements.minStorageGb),
+        tx.pure.u64(input.requirements.maxPricePerHour),
+        tx.object(CLOCK_ID),
       ],
     });
+    for (const tag of input.tags ?? []) {
+      this.addTagCall(tx, input.imageName, input.version, tag);
+    }
+    return tx;
+  }
 
-    // 트랜잭션 실행
+  /**
+   * Docker 이미지 / 프로젝트 tar URL을 온체인에 등록
+   */
+  async registerImage(input: RegisterImageInput, signer: SimpleSigner): Promise<string> {
     const result = await signer.signAndExecuteTransaction({
-      transaction: tx,
+      transaction: this.buildRegisterTransaction(input),
     });
-
     return result.digest;
   }
 
   /**
-   * 프로젝트 tar 파일 URL을 온체인에 등록
+   * 등록된 이미지를 새 blob으로 교체 (Seal 키 교체 후 재암호화된 blob)
+   * 이미지 이름 + 버전으로 지정하므로 다른 버전이 삭제되어도 대상이 바뀌지 않음
    */
-  async registerProjectTar(
+  buildRotateImageBlobTransaction(
+    imageName: string,
+    version: string,
     urls: string[],
-    projectName: string,
     size: number,
-    minCpuCores: number,
-    minMemoryGb: number,
-    minStorageGb: number,
-    maxPricePerHour: number,
-    signer: SimpleSigner
-  ): Promise<string> {
+    contentDigest: string
+  ): Transaction {
     const tx = new Transaction();
-
-    // Clock 객체 참조
-    const clockId = '0x6';
-
-    // register_docker_image 함수 호출 (upload_type을 'project'로, 최소 요구 사양 추가)
     tx.moveCall({
-      target: `${PACKAGE_ID}::docker_registry::register_docker_image`,
+      target: this.target('rotate_image_blob'),
       arguments: [
-        tx.object(REGISTRY_ID),
+        tx.object(this.config.registryId),
+        tx.pure.string(imageName),
+        tx.pure.string(version),
         tx.pure.vector('string', urls),
-        tx.pure.string(projectName),
         tx.pure.u64(size),
-        tx.pure.string('project'),
-        tx.pure.u32(minCpuCores),
-        tx.pure.u32(minMemoryGb),
-        tx.pure.u32(minStorageGb),
-        tx.pure.u64(maxPricePerHour),
-        tx.object(clockId),
+        tx.pure.string(contentDigest),
+        tx.object(CLOCK_ID),
       ],
     });
+    return tx;
+  }
 
-    // 트랜잭션 실행
+  async rotateImageBlob(
+    imageName: string,
+    version: string,
+    urls: string[],
+    size: number,
+    contentDigest: string,
+    signer: SimpleSigner
+  ): Promise<string> {
     const result = await signer.signAndExecuteTransaction({
-      transaction: tx,
+      transaction: this.buildRotateImageBlobTransaction(imageName, version, urls, size, contentDigest),
     });
-
     return result.digest;
   }
 
+  private addTagCall(tx: Transaction, imageName: string, version: string, tag: string): void {
+    tx.moveCall({
+      target: this.target('tag_image'),
+      arguments: [
+        tx.object(this.config.registryId),
+        tx.pure.string(imageName),
+        tx.pure.string(version),
+        tx.pure.string(tag),
+        tx.object(CLOCK_ID),
+      ],
+    });
+  }
+
   /**
-   * 사용자의 모든 이미지 조회
+   * 태그를 버전에 지정 (이미 있는 태그면 이동)
    */
-  async getUserImages(userAddress: string): Promise<DockerImage[]> {
+  buildTagTransaction(imageName: string, version: string, tag: string): Transaction {
     const tx = new Transaction();
+    this.addTagCall(tx, imageName, version, tag);
+    return tx;
+  }
+
+  async tagImage(imageName: string, version: string, tag: string, signer: SimpleSigner): Promise<string> {
+    const result = await signer.signAndExecuteTransaction({
+      transaction: this.buildTagTransaction(imageName, version, tag),
+    });
+    return result.digest;
+  }
 
+  buildUntagTransaction(imageName: string, tag: string): Transaction {
+    const tx = new Transaction();
     tx.moveCall({
-      target: `${PACKAGE_ID}::docker_registry::get_user_images`,
-      arguments: [
-        tx.object(REGISTRY_ID),
-        tx.pure.address(userAddress),
-      ],
+      target: this.target('untag_image'),
+      arguments: [tx.object(this.config.registryId), tx.pure.string(imageName), tx.pure.string(tag)],
     });
+    return tx;
+  }
 
-    const result = await this.client.devInspectTransactionBlock({
-      transactionBlock: tx,
-      sender: userAddress,
+  async untagImage(imageName: string, tag: string, signer: SimpleSigner): Promise<string> {
+    const result = await signer.signAndExecuteTransaction({
+      transaction: this.buildUntagTransaction(imageName, tag),
     });
+    return result.digest;
+  }
 
-    // 결과 파싱
-    if (result.results && result.results[0]) {
-      const returnValues = result.results[0].returnValues;
-      if (returnValues && returnValues[0]) {
-        // vector<DockerImage> 파싱
-        return this.parseDockerImages(returnValues[0]);
-      }
+  /**
+   * 미러 URL 풀 변경 (소유자 전용): 추가 / 제거 / 순서 변경 / 기본 URL 지정
+   */
+  buildMirrorTransaction(imageName: string, version: string, change: MirrorChange): Transaction {
+    const tx = new Transaction();
+    const image = [tx.object(this.config.registryId), tx.pure.string(imageName), tx.pure.string(version)];
+    switch (change.kind) {
+      case 'add':
+        tx.moveCall({ target: this.target('add_mirror_url'), arguments: [...image, tx.pure.string(change.url)] });
+        break;
+      case 'remove':
+        tx.moveCall({ target: this.target('remove_mirror_url'), arguments: [...image, tx.pure.u64(change.urlIndex)] });
+        break;
+      case 'move':
+        tx.moveCall({
+          target: this.target('move_mirror_url'),
+          arguments: [...image, tx.pure.u64(change.from), tx.pure.u64(change.to)],
+        });
+        break;
+      case 'setPrimary':
+        tx.moveCall({ target: this.target('set_primary_url'), arguments: [...image, tx.pure.u64(change.urlIndex)] });
+        break;
     }
+    return tx;
+  }
 
-    return [];
+  async updateMirrors(imageName: string, version: string, change: MirrorChange, signer: SimpleSigner): Promise<string> {
+    const result = await signer.signAndExecuteTransaction({
+      transaction: this.buildMirrorTransaction(imageName, version, change),
+    });
+    return result.digest;
   }
 
   /**
-   * 전체 이미지 수 조회
+   * 이미지 버전 삭제 (소유자 전용); 이 버전의 태그도 함께 제거됨. Walrus blob은 남음
    */
-  async getTotalImages(): Promise<number> {
-    const object = await this.client.getObject({
-      id: REGISTRY_ID,
-      options: {
-        showContent: true,
-      },
+  buildDeleteImageTransaction(imageName: string, version: string): Transaction {
+    const tx = new Transaction();
+    tx.moveCall({
+      target: this.target('delete_docker_image'),
+      arguments: [tx.object(this.config.registryId), tx.pure.string(imageName), tx.pure.string(version)],
     });
+    return tx;
+  }
 
-    if (object.data?.content?.dataType === 'moveObject') {
-      const fields = (object.data.content as { fields: Record<string, unknown> }).fields;
-      return parseInt((fields.total_images as string) || '0');
-    }
+  async deleteImage(imageName: string, version: string, signer: SimpleSigner): Promise<string> {
+    const result = await signer.signAndExecuteTransaction({
+      transaction: this.buildDeleteImageTransaction(imageName, version),
+    });
+    return result.digest;
+  }
 
-    return 0;
-  }
-
-  private parseDockerImages(data: unknown): DockerImage[] {
-    // Move 벡터 데이터를 파싱
-    try {
-      if (Array.isArray(data)) {
-        return data.map((item: Record<string, unknown>) => ({
-          downloadUrls: (item.download_urls as string[]) || [],
-          imageName: (item.image_name as string) || '',
-          size: parseInt((item.size as string) || '0'),
-          uploadType: (item.upload_type as 'docker' | 'project') || 'docker',
-        }));
-      }
-    } catch (error) {
-      console.error('Failed to parse docker images:', error);
-    }
-    return [];
+  /**
+   * 트랜잭션이 인덱싱될 때까지 대기 (직후 조회가 변경 사항을 보도록)
+   */
+  async waitForTransaction(digest: string): Promise<void> {
+    await this.client.waitForTransaction({ digest });
   }
-}
 
-// 레지스트리 객체 ID 조회 함수
-export async function findRegistryObject(client: SuiClient): Promise<string | null> {
-  try {
-    // DockerRegistry 타입의 shared 객체 찾기
-    const objects = await client.getOwnedObjects({
-      owner: '0x0000000000000000000000000000000000000000000000000000000000000000',
-      filter: {
-        StructType: `${PACKAGE_ID}::docker_registry::DockerRegistry`,
+  /**
+   * 서버 측 키페어로 서명하는 Signer (지갑 없이 등록하는 OCI push 등)
+   */
+  keypairSigner(keypair: Signer): SimpleSigner {
+    return {
+      signAndExecuteTransaction: async ({ transaction }) => {
+        const result = await this.client.signAndExecuteTransaction({
+          signer: keypair,
+          transaction,
+          options: { showEffects: true },
+        });
+        if (result.effects?.status.status === 'failure') {
+          throw new Error(`트랜잭션 실패: ${result.effects.status.error}`);
+        }
+        return result;
       },
-    });
+    };
+  }
+
+  // Runs a view function and returns the BCS bytes of its first return value
+  private async inspect(
+    fn: string,
+    addArguments: (tx: Transaction) => Parameters<Transaction['moveCall']>[0]['arguments'],
+    sender = normalizeSuiAddress('0x0')
+  ): Promise<Uint8Array> {
+    const tx = new Transaction();
+    tx.moveCall({ target: this.target(fn), arguments: addArguments(tx) });
 
-    if (objects.data && objects.data.length > 0) {
-      return objects.data[0].data?.objectId || null;
+    const result = await this.client.devInspectTransactionBlock({ transactionBlock: tx, sender });
+    if (result.error) {
+      throw new Error(`${fn} devInspect 실패: ${result.error}`);
     }
+    const returnValue = result.results?.[0]?.returnValues?.[0];
+    if (!returnValue) {
+      throw new Error(`${fn}: 반환값이 없습니다`);
+    }
+    return Uint8Array.from(returnValue[0]);
+  }
 
-    // Shared 객체로 조회
-    const dynamicFields = await client.getDynamicFields({
-      parentId: '0x5',
-    });
+  /**
+   * 전체 레지스트리 한 페이지 조회 (등록 순서, ID가 cursor 이상인 이미지부터)
+   * 커서는 이미지 ID라서 페이지 사이에 삭제가 있어도 항목을 건너뛰거나 중복하지 않음
+   */
+  async getImagesPage(cursor = 0, limit = REGISTRY_PAGE_SIZE): Promise<RegistryPage> {
+    const bytes = await this.inspect('get_all_images_page', tx => [
+      tx.object(this.config.registryId),
+      tx.pure.u64(cursor),
+      tx.pure.u64(limit),
+    ]);
+    return toPage(decodeDockerImages(bytes), cursor, limit);
+  }
+
+  async getUserImagesPage(userAddress: string, cursor = 0, limit = REGISTRY_PAGE_SIZE): Promise<RegistryPage> {
+    const bytes = await this.inspect(
+      'get_user_images_page',
+      tx => [tx.object(this.config.registryId), tx.pure.address(userAddress), tx.pure.u64(cursor), tx.pure.u64(limit)],
+      userAddress
+    );
+    return toPage(decodeDockerImages(bytes), cursor, limit);
+  }
 
-    for (const field of dynamicFields.data) {
-      const obj = await client.getObject({
-        id: field.objectId,
-        options: { showType: true },
-      });
+  /**
+   * 전체 레지스트리를 페이지 단위로 순회; 필요한 만큼만 읽고 멈출 수 있음
+   */
+  async *iterateImagePages(pageSize = REGISTRY_PAGE_SIZE, startCursor = 0): AsyncGenerator<RegistryPage> {
+    let cursor: number | null = startCursor;
+    while (cursor !== null) {
+      const page: RegistryPage = await this.getImagesPage(cursor, pageSize);
+      yield page;
+      cursor = page.nextCursor;
+    }
+  }
 
-      if (obj.data?.type?.includes('DockerRegistry')) {
-        return field.objectId;
-      }
+  async *iterateUserImagePages(userAddress: string, pageSize = REGISTRY_PAGE_SIZE): AsyncGenerator<RegistryPage> {
+    let cursor: number | null = 0;
+    while (cursor !== null) {
+      const page: RegistryPage = await this.getUserImagesPage(userAddress, cursor, pageSize);
+      yield page;
+      cursor = page.nextCursor;
     }
-  } catch (error) {
-    console.error('Failed to find registry object:', error);
   }
 
-  return null;
-}
\ No newline at end of file
+  /**
+   * 사용자의 모든 이미지 조회 (등록 순서)
+   */
+  async getUserImages(userAddress: string): Promise<DockerImage[]> {
+    return collectPages(this.iterateUserImagePages(userAddress));
+  }
+
+  /**
+   * 한 이미지의 버전 이력 (등록 순서)
+   */
+  async getImageVersions(owner: string, imageName: string): Promise<DockerImage[]> {
+    const bytes = await this.inspect(
+      'get_image_versions',
+      tx => [tx.object(this.config.registryId), tx.pure.address(owner), tx.pure.string(imageName)],
+      owner
+    );
+    return decodeDockerImages(bytes);
+  }
+
+  async getUserTags(owner: string): Promise<ImageTag[]> {
+    const bytes = await this.inspect(
+      'get_user_tags',
+      tx => [tx.object(this.config.registryId), tx.pure.address(owner)],
+      owner
+    );
+    return bcs.vector(generated.ImageTag).parse(bytes).map(fromMoveTag);
+  }
+
+  /**
+   * 소유자의 이미지를 이름별 버전 이력 + 태그로 묶어 조회
+   */
+  async getVersionHistories(owner: string): Promise<ImageVersionHistory[]> {
+    const [images, tags] = await Promise.all([this.getUserImages(owner), this.getUserTags(owner)]);
+    return groupImageVersions(images, tags);
+  }
+
+  /**
+   * `name:reference`를 이미지로 해석; reference는 태그 우선, 없으면 버전 (생략 시 latest)
+   */
+  async resolveImage(owner: string, reference: string): Promise<DockerImage> {
+    const parsed = parseImageReference(reference);
+    const bytes = await this.inspect(
+      'resolve_image',
+      tx => [
+        tx.object(this.config.registryId),
+        tx.pure.address(owner),
+        tx.pure.string(parsed.imageName),
+        tx.pure.string(parsed.reference ?? 'latest'),
+      ],
+      owner
+    );
+    return fromMoveImage(generated.DockerImage.parse(bytes));
+  }
+
+  /**
+   * 모든 사용자의 이미지 목록 조회 (전체 레지스트리를 페이지 단위로 모두 읽음)
+   */
+  async getAllImages(): Promise<DockerImage[]> {
+    return collectPages(this.iterateImagePages());
+  }
+
+  /**
+   * 전체 이미지 수 조회
+   */
+  async getTotalImages(): Promise<number> {
+    const bytes = await this.inspect('get_total_images', tx => [tx.object(this.config.registryId)]);
+    return Number(bcs.u64().parse(bytes));
+  }
+
+  /**
+   * docker_registry 이벤트를 오래된 순서로 조회 (cursor 이후부터)
+   */
+  async queryEvents(cursor: EventId | null = null, limit = REGISTRY_PAGE_SIZE): Promise<RegistryEventPage> {
+    const result = await this.client.queryEvents({
+      query: { MoveEventModule: { package: this.config.packageId, module: generated.MODULE_NAME } },
+      cursor,
+      limit,
+      order: 'ascending',
+    });
+    return {
+      events: result.data.map(parseRegistryEvent).filter((event): event is RegistryEvent => event !== null),
+      nextCursor: result.nextCursor ?? cursor,
+      hasNextPage: result.hasNextPage,
+    };
+  }
+
+  /**
+   * 레지스트리 이벤트 구독; 구독 해제 함수를 반환
+   */
+  async subscribeToImageEvents(onEvent: (event: RegistryEvent) => void): Promise<() => Promise<boolean>> {
+    return this.client.subscribeEvent({
+      filter: { MoveEventModule: { package: this.config.packageId, module: generated.MODULE_NAME } },
+      onMessage: (event) => {
+        const parsed = parseRegistryEvent(event);
+        if (parsed) onEvent(parsed);
+      },
+    });
+  }
+}
+
+// A short page means the chain ran out of images; the next page starts after the last ID returned
+const toPage = (images: DockerImage[], cursor: number, limit: number): RegistryPage => ({
+  images,
+  cursor,
+  nextCursor: images.length === 0 || images.length < Math.min(limit, REGISTRY_PAGE_SIZE) ? null : images[images.length - 1].id + 1,
+});
+
+const collectPages = async (pages: AsyncIterable<RegistryPage>): Promise<DockerImage[]> => {
+  const images: DockerImage[] = [];
+  for await (const page of pages) {
+    images.push(...page.images);
+  }
+  return images;
+};
+
+/**
+ * Decodes a docker_registry event from its BCS payload; other event types return null
+ */
+export const parseRegistryEvent = (event: SuiEvent): RegistryEvent | null => {
+  const name = event.type.split('::').pop() as (typeof generated.EVENT_TYPES)[number];
+  const bytes = event.bcsEncoding === 'base58' ? fromBase58(event.bcs) : fromBase64(event.bcs);
+  switch (name) {
+    case 'ImageRegisteredEvent':
+      return { type: name, data: generated.ImageRegisteredEvent.parse(bytes), raw: event };
+    case 'ImageBlobRotatedEvent':
+      return { type: name, data: generated.ImageBlobRotatedEvent.parse(bytes), raw: event };
+    case 'ImageMirrorsUpdatedEvent':
+      return { type: name, data: generated.ImageMirrorsUpdatedEvent.parse(bytes), raw: event };
+    case 'ImageTaggedEvent':
+      return { type: name, data: generated.ImageTaggedEvent.parse(bytes), raw: event };
+    case 'ImageUntaggedEvent':
+      return { type: name, data: generated.ImageUntaggedEvent.parse(bytes), raw: event };
+    case 'ImageDeleted':
+      return { type: name, data: generated.ImageDeleted.parse(bytes), raw: event };
+    default:
+      return null;
+  }
+};
+
+const TASK_TAG_KEYWORDS: Array<[string[], string]> = [
+  [['react'], 'React'],
+  [['node'], 'Node.js'],
+  [['python'], 'Python'],
+  [['docker'], 'Docker'],
+  [['api'], 'API'],
+  [['ml', 'ai'], 'ML'],
+  [['web'], 'Web'],
+  [['backend'], 'Backend'],
+  [['frontend'], 'Frontend'],
+];
+
+/**
+ * Registry images → TaskSelector tasks
+ */
+export const imagesToTasks = (images: DockerImage[]): Task[] =>
+  images.map(image => {
+    const name = image.imageName.toLowerCase();
+    const tags = [
+      image.uploadType,
+      ...TASK_TAG_KEYWORDS.filter(([keywords]) => keywords.some(keyword => name.includes(keyword))).map(([, tag]) => tag),
+      // Resource-based tags
+      ...(image.requirements.minCpuCores >= 8 ? ['High-CPU'] : []),
+      ...(image.requirements.minMemoryGb >= 16 ? ['High-Memory'] : []),
+      ...(image.requirements.minStorageGb >= 50 ? ['High-Storage'] : []),
+    ];
+
+    return {
+      // Owner + name + version is unique
+      id: `registry-${image.owner}:${image.imageName}:${image.version}`,
+      name: `${image.imageName}:${image.version}`,
+      description: `Deploy ${image.imageName}:${image.version} (${image.uploadType})`,
+      walrusBlobUrl: primaryUrl(image),
+      mirrorUrls: image.downloadUrls,
+      primaryUrlIndex: image.primaryUrlIndex,
+      contentDigest: image.contentDigest || undefined,
+      requiredResources: {
+        cpu: image.requirements.minCpuCores,
+        memory: image.requirements.minMemoryGb,
+        storage: image.requirements.minStorageGb,
+      },
+      reward: Math.floor(image.requirements.maxPricePerHour / 1000000), // Convert from MIST to SUI
+      deadline: new Date(image.timestamp + 7 * 24 * 60 * 60 * 1000), // 7 days from upload
+      status: 'available',
+      createdBy: image.owner,
+      createdAt: new Date(image.timestamp),
+      estimatedDuration: Math.max(6, 24 + image.requirements.minCpuCores * 2 + image.requirements.minMemoryGb * 0.5),
+      tags: [...new Set(tags)],
+    };
+  });
+
+let registryClient: DockerRegistryClient | null = null;
+
+// Shared client on the configured RPC endpoint
+export const getDockerRegistryClient = (): DockerRegistryClient => {
+  registryClient ??= new DockerRegistryClient(
+    new SuiClient({ url: SUI_RPC_URL })
+  );
+  return registryClient;
+};
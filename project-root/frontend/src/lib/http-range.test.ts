@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseRange } from './http-range';
+
+describe('parseRange', () => {
+  it.each([
+    ['bytes=0-99', { start: 0, end: 99 }],
+    ['bytes=100-', { start: 100, end: 999 }],
+    ['bytes=-100', { start: 900, end: 999 }],
+    ['bytes=-5000', { start: 0, end: 999 }], // Suffix longer than the blob is the whole blob
+    ['bytes=990-5000', { start: 990, end: 999 }] // End is clamped to the blob
+  ])('%s', (header, range) => {
+    expect(parseRange(header, 1000)).toEqual(range);
+  });
+
+  it.each(['bytes=1000-', 'bytes=500-100', 'bytes=1000-1001'])('%s is unsatisfiable', header => {
+    expect(parseRange(header, 1000)).toBe('invalid');
+  });
+
+  it.each([null, '', 'bytes=-', 'items=0-1', 'bytes=0-1,5-6', 'bytes=a-b'])('%s is ignored', header => {
+    expect(parseRange(header, 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,16 @@
+// Single byte-range requests for route handlers that serve blobs
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+// "bytes=<start>-<end>" or "bytes=<start>-" or "bytes=-<suffix>"; null when the header is absent or unsupported
+export const parseRange = (header: string | null, size: number): ByteRange | 'invalid' | null => {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start > end || start >= size ? 'invalid' : { start, end };
+};
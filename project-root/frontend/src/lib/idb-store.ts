@@ -0,0 +1,114 @@
+// Minimal IndexedDB-backed record store with an in-memory fallback
+// Used for state that should survive reloads (upload sessions, layer index)
+
+export interface RecordStore<T> {
+  get(key: string): Promise<T | null>;
+  put(record: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  getAll(): Promise<T[]>;
+}
+
+interface RecordStoreConfig<T> {
+  dbName: string;
+  storeName: string;
+  keyOf: (record: T) => string;
+  keyPath: string; // Must point at the same field keyOf reads
+  label: string; // Used in warnings
+  mirrorInMemory?: boolean; // Keep a copy of every write for when IndexedDB fails (default true)
+}
+
+export const hasIndexedDB = (): boolean =>
+  typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+
+export const createRecordStore = <T>(config: RecordStoreConfig<T>): RecordStore<T> => {
+  // In-memory fallback for environments without IndexedDB (SSR, private mode)
+  const memoryStore = new Map<string, T>();
+  const mirrorInMemory = config.mirrorInMemory !== false;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(config.dbName, 1);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(config.storeName)) {
+          db.createObjectStore(config.storeName, { keyPath: config.keyPath });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  const runTransaction = async <R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<R> => {
+    const db = await openDatabase();
+    try {
+      return await new Promise<R>((resolve, reject) => {
+        const tx = db.transaction(config.storeName, mode);
+        const request = operation(tx.objectStore(config.storeName));
+        request.onsuccess = () => resolve(request.result as R);
+        request.onerror = () => reject(request.error);
+      });
+    } finally {
+      db.close();
+    }
+  };
+
+  return {
+    get: async key => {
+      if (!hasIndexedDB()) {
+        return memoryStore.get(key) ?? null;
+      }
+
+      try {
+        const record = await runTransaction<T | undefined>('readonly', store => store.get(key));
+        return record ?? null;
+      } catch (error) {
+        console.warn(`⚠️ ${config.label} 로드 실패:`, error);
+        return memoryStore.get(key) ?? null;
+      }
+    },
+
+    put: async record => {
+      if (mirrorInMemory || !hasIndexedDB()) {
+        memoryStore.set(config.keyOf(record), record);
+      }
+
+      if (!hasIndexedDB()) return;
+
+      try {
+        await runTransaction('readwrite', store => store.put(record));
+      } catch (error) {
+        console.warn(`⚠️ ${config.label} 저장 실패:`, error);
+      }
+    },
+
+    delete: async key => {
+      memoryStore.delete(key);
+
+      if (!hasIndexedDB()) return;
+
+      try {
+        await runTransaction('readwrite', store => store.delete(key));
+      } catch (error) {
+        console.warn(`⚠️ ${config.label} 삭제 실패:`, error);
+      }
+    },
+
+    getAll: async () => {
+      if (!hasIndexedDB()) {
+        return Array.from(memoryStore.values());
+      }
+
+      try {
+        return await runTransaction<T[]>('readonly', store => store.getAll());
+      } catch (error) {
+        console.warn(`⚠️ ${config.label} 목록 조회 실패:`, error);
+        return Array.from(memoryStore.values());
+      }
+    }
+  };
+};
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createHash } from 'crypto';
+import type { WalrusChunkManifest } from './walrus-client';
+import { WalrusIntegrityError } from './walrus-integrity';
+import { downloadWithFailover, getMirrorStatuses, type MirrorSource } from './mirror-downloader';
+
+// Chunk blobs a chunked-upload manifest points to, read through the Walrus transports
+const walrus = vi.hoisted(() => ({ blobs: new Map<string, Uint8Array>() }));
+
+vi.mock('./walrus-client', async importOriginal => ({
+  ...await importOriginal<typeof import('./walrus-client')>(),
+  readBlobFromWalrus: async (blobId: string) => {
+    const bytes = walrus.blobs.get(blobId);
+    if (!bytes) throw new Error(`blob not stored: ${blobId}`);
+    return bytes;
+  }
+}));
+
+const sha256 = (bytes: Uint8Array) => `sha256:${createHash('sha256').update(bytes).digest('hex')}`;
+const encoder = new TextEncoder();
+
+// Mirror URL -> response body, or an HTTP status to fail with
+const stubMirrors = (responses: Record<string, Uint8Array | number>) => {
+  const fetchMock = vi.fn(async (url: string) => {
+    const response = responses[url];
+    return typeof response === 'number'
+      ? new Response('error', { status: response })
+      : new Response(response as Uint8Array<ArrayBuffer>);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => new Uint8Array(await new Response(stream).arrayBuffer());
+
+describe('downloadWithFailover', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reassembles a chunked upload and verifies the on-chain digest against it', async () => {
+    const first = encoder.encode('a'.repeat(8));
+    const second = encoder.encode('bcd');
+    walrus.blobs.set('chunk-0', first);
+    walrus.blobs.set('chunk-1', second);
+    const content = new Uint8Array([...first, ...second]);
+    const manifest: WalrusChunkManifest = {
+      type: 'daas-chunked-blob',
+      version: 1,
+      totalSize: content.length,
+      chunkSize: first.length,
+      digest: sha256(content),
+      chunks: [
+        { index: 0, blobId: 'chunk-0', size: first.length, digest: sha256(first) },
+        { index: 1, blobId: 'chunk-1', size: second.length, digest: sha256(second) }
+      ]
+    };
+    const url = 'https://aggregator.example/v1/blobs/manifest-blob';
+    stubMirrors({ [url]: encoder.encode(JSON.stringify(manifest)) });
+
+    const source: MirrorSource = { downloadUrls: [url], primaryUrlIndex: 0, contentDigest: sha256(content) };
+    const result = await downloadWithFailover(source);
+
+    expect(result.source).toBe(url);
+    expect(await readAll(result.stream)).toEqual(content);
+  });
+
+  it('moves to the next mirror when one fails before the first byte', async () => {
+    const content = encoder.encode('plain image bytes');
+    const [down, up] = ['https://down.example/image.tar', 'https://up.example/image.tar'];
+    stubMirrors({ [down]: 503, [up]: content });
+
+    const source: MirrorSource = { downloadUrls: [down, up], primaryUrlIndex: 0, contentDigest: sha256(content) };
+    const result = await downloadWithFailover(source);
+
+    expect(result.source).toBe(up);
+    expect(await readAll(result.stream)).toEqual(content);
+    expect(getMirrorStatuses(source).map(mirror => mirror.failures)).toEqual([1, 0]);
+  });
+
+  it('errors the stream and marks the mirror when the bytes do not match', async () => {
+    const url = 'https://tampered.example/image.tar';
+    stubMirrors({ [url]: encoder.encode('not the registered image') });
+
+    const source: MirrorSource = {
+      downloadUrls: [url],
+      primaryUrlIndex: 0,
+      contentDigest: sha256(encoder.encode('registered image'))
+    };
+    const result = await downloadWithFailover(source);
+
+    await expect(readAll(result.stream)).rejects.toBeInstanceOf(WalrusIntegrityError);
+    expect(getMirrorStatuses(source)[0].failures).toBe(1);
+  });
+});
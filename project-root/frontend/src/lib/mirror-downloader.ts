@@ -0,0 +1,179 @@
+// Registry mirror failover
+// A DockerImage lists several download URLs. They are health-checked and tried healthiest first (primary first
+// among equals); the content digest recorded on-chain decides whether a mirror served the right bytes.
+// Downloads are streamed, and a mirror URL pointing at a manifest blob (chunked upload, layered image) is
+// resolved like a Walrus read, so the digest is checked against the reassembled bytes.
+
+import { WalrusEndpointPool, type EndpointHealth } from './walrus-endpoint-pool';
+import { extractBlobId, isAbortError } from './walrus-client';
+import { streamFromWalrus, streamFromWalrusUrl, type WalrusStreamOptions } from './walrus-stream';
+import type { DockerImage } from './docker-registry';
+
+export type MirrorSource = Pick<DockerImage, 'downloadUrls' | 'primaryUrlIndex' | 'contentDigest'>;
+
+export interface MirrorStatus extends EndpointHealth {
+  index: number; // Position in downloadUrls
+  primary: boolean;
+  checked: boolean; // false until a health check or download has touched this mirror
+}
+
+export interface MirrorDownloadOptions extends Pick<WalrusStreamOptions, 'signal' | 'onProgress'> {
+  onMirrorFailed?: (url: string, error: unknown) => void;
+}
+
+export interface MirrorDownloadResult {
+  stream: ReadableStream<Uint8Array>; // Errors at the end instead of closing when the digest does not match
+  source: string; // Mirror URL, or walrus:<blobId> when the Walrus transports had to be used
+}
+
+export const MIRROR_CONFIG = {
+  healthCheckTimeoutMs: 5_000
+};
+
+// One pool per URL list; a changed mirror list starts with fresh health
+const pools = new Map<string, WalrusEndpointPool>();
+
+const normalizeUrl = (url: string) => url.replace(/\/+$/, '');
+
+// Primary first, so it wins ties before any health data exists
+const orderedUrls = (source: MirrorSource): string[] => {
+  const primary = source.downloadUrls[source.primaryUrlIndex];
+  return primary === undefined
+    ? source.downloadUrls
+    : [primary, ...source.downloadUrls.filter((_, index) => index !== source.primaryUrlIndex)];
+};
+
+const poolFor = (source: MirrorSource): WalrusEndpointPool => {
+  const urls = orderedUrls(source);
+  const key = urls.join('\n');
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new WalrusEndpointPool('mirror', urls);
+    pools.set(key, pool);
+  }
+  return pool;
+};
+
+export const getMirrorStatuses = (source: MirrorSource): MirrorStatus[] => {
+  if (source.downloadUrls.length === 0) return [];
+  const health = new Map(poolFor(source).snapshot().map(endpoint => [endpoint.url, endpoint]));
+  return source.downloadUrls.map((url, index) => {
+    const endpoint = health.get(normalizeUrl(url)) as EndpointHealth;
+    return {
+      ...endpoint,
+      url,
+      index,
+      primary: index === source.primaryUrlIndex,
+      checked: endpoint.lastCheckedAt !== undefined
+    };
+  });
+};
+
+/**
+ * Notified whenever a mirror of this image records an outcome; returns an unsubscribe function
+ */
+export const subscribeMirrorStatuses = (source: MirrorSource, listener: () => void): (() => void) =>
+  source.downloadUrls.length === 0 ? () => undefined : poolFor(source).subscribe(listener);
+
+// HEAD where supported, otherwise a one-byte range request
+const probe = async (url: string, signal: AbortSignal): Promise<void> => {
+  let response = await fetch(url, { method: 'HEAD', signal });
+  if (response.status === 405 || response.status === 501) {
+    response = await fetch(url, { headers: { Range: 'bytes=0-0' }, signal });
+    await response.body?.cancel();
+  }
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+};
+
+/**
+ * Probes every mirror in parallel and records the outcome; cheap reachability check, content is not verified
+ */
+export const checkMirrors = async (source: MirrorSource): Promise<MirrorStatus[]> => {
+  if (source.downloadUrls.length === 0) return [];
+  const pool = poolFor(source);
+  await Promise.all(
+    pool.ranked().map(async url => {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), MIRROR_CONFIG.healthCheckTimeoutMs);
+      const started = Date.now();
+      try {
+        await probe(url, controller.signal);
+        pool.recordSuccess(url, Date.now() - started);
+      } catch (error) {
+        pool.recordFailure(url, isAbortError(error) ? new Error('health check timed out') : error);
+      } finally {
+        clearTimeout(timer);
+      }
+    })
+  );
+  return getMirrorStatuses(source);
+};
+
+// Marks the mirror when its stream fails part-way (a digest mismatch surfaces at the end), so a retry skips it
+const trackStream = (stream: ReadableStream<Uint8Array>, onError: (error: unknown) => void): ReadableStream<Uint8Array> => {
+  const reader = stream.getReader();
+  return new ReadableStream<Uint8Array>({
+    pull: async controller => {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        if (!isAbortError(error)) onError(error);
+        throw error;
+      }
+    },
+    cancel: reason => reader.cancel(reason)
+  });
+};
+
+/**
+ * Opens a download from the healthiest mirror, moving down the list on errors before the first byte.
+ * If every mirror fails, the Walrus transports are tried for any mirror that names a blob ID.
+ * Bytes are handed out as they arrive, so a digest mismatch errors the stream instead of failing over.
+ */
+export const downloadWithFailover = async (
+  source: MirrorSource,
+  options: MirrorDownloadOptions = {}
+): Promise<MirrorDownloadResult> => {
+  const errors: string[] = [];
+  const streamOptions: WalrusStreamOptions = {
+    // Images registered before digests existed have nothing to verify against
+    expectedDigest: source.contentDigest || undefined,
+    signal: options.signal,
+    onProgress: options.onProgress
+  };
+
+  if (source.downloadUrls.length > 0) {
+    const pool = poolFor(source);
+    for (const url of pool.ranked()) {
+      const started = Date.now();
+      const fail = (error: unknown) => {
+        pool.recordFailure(url, error);
+        options.onMirrorFailed?.(url, error);
+      };
+      try {
+        const stream = await streamFromWalrusUrl(url, streamOptions);
+        pool.recordSuccess(url, Date.now() - started);
+        return { stream: trackStream(stream, fail), source: url };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        fail(error);
+        console.warn(`⚠️ 미러 다운로드 실패, 다음 미러 시도: ${url}`, error);
+        errors.push(`${url}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  const blobId = source.downloadUrls.map(extractBlobId).find((id): id is string => !!id);
+  if (blobId) {
+    console.log('🔁 모든 미러 실패, Walrus aggregator로 재시도:', blobId);
+    return { stream: await streamFromWalrus(blobId, streamOptions), source: `walrus:${blobId}` };
+  }
+  throw new Error(`모든 미러에서 다운로드 실패: ${errors.join('; ') || '등록된 URL 없음'}`);
+};
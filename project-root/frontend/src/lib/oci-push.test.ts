@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import type { DockerImage, RegisterImageInput } from './docker-registry';
+import { assembleDockerImageTar, parseDockerSaveTar, type DockerImageManifest } from './docker-image-tar';
+import { OCI_CONFIG } from './oci-registry';
+import { OCI_PUSH_CONFIG, completeUpload, pushManifest, startUpload } from './oci-push';
+
+// Everything "stored on Walrus" by blob ID, and what was registered on-chain
+const walrus = vi.hoisted(() => ({ blobs: new Map<string, Uint8Array>() }));
+const chain = vi.hoisted(() => ({ registered: [] as RegisterImageInput[], versions: [] as DockerImage[] }));
+
+vi.mock('./walrus-client', () => ({
+  uploadToWalrus: vi.fn(async (data: Blob) => {
+    const blobId = `blob-${walrus.blobs.size}`;
+    walrus.blobs.set(blobId, new Uint8Array(await data.arrayBuffer()));
+    return { status: 'success', blobId, url: `https://aggregator.example/v1/blobs/${blobId}` };
+  })
+}));
+
+vi.mock('./walrus-stream', () => ({
+  streamFromWalrus: async (blobId: string) => new Blob([walrus.blobs.get(blobId) as Uint8Array<ArrayBuffer>]).stream()
+}));
+
+vi.mock('./docker-registry', async importOriginal => ({
+  ...await importOriginal<typeof import('./docker-registry')>(),
+  isRegistryConfigured: () => true,
+  getDockerRegistryClient: () => ({
+    getImageVersions: async () => chain.versions,
+    getUserTags: async () => [],
+    keypairSigner: (keypair: unknown) => keypair,
+    registerImage: async (input: RegisterImageInput) => {
+      chain.registered.push(input);
+      return 'transaction-digest';
+    },
+    waitForTransaction: async () => {}
+  })
+}));
+
+const sha256 = (bytes: Uint8Array) => `sha256:${createHash('sha256').update(bytes).digest('hex')}`;
+const encoder = new TextEncoder();
+
+const signer = new Ed25519Keypair();
+const repository = { owner: signer.toSuiAddress(), imageName: 'myapp' };
+let uploadDir: string;
+
+const pushBlob = async (data: Uint8Array) => {
+  const session = await startUpload();
+  return completeUpload(session.uuid, sha256(data), new Blob([data as Uint8Array<ArrayBuffer>]).stream());
+};
+
+beforeAll(async () => {
+  uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'oci-manifest-'));
+  OCI_PUSH_CONFIG.directory = uploadDir;
+  OCI_CONFIG.signerKey = signer.getSecretKey();
+});
+
+afterAll(async () => {
+  await fs.rm(uploadDir, { recursive: true, force: true });
+});
+
+describe('pushManifest', () => {
+  const config = encoder.encode('{"architecture":"amd64","os":"linux"}');
+  const layer = encoder.encode('x'.repeat(1500)); // Not a multiple of the tar block size
+  const body = encoder.encode(JSON.stringify({
+    schemaVersion: 2,
+    mediaType: 'application/vnd.oci.image.manifest.v1+json',
+    config: { mediaType: 'application/vnd.oci.image.config.v1+json', digest: sha256(config), size: config.length },
+    layers: [{ mediaType: 'application/vnd.oci.image.layer.v1.tar', digest: sha256(layer), size: layer.length }]
+  }));
+
+  it('registers the digest of the tar the stored manifest reassembles to', async () => {
+    await pushBlob(config);
+    await pushBlob(layer);
+
+    const result = await pushManifest(repository, 'v1', body, null);
+    expect(result).toEqual({ digest: sha256(body), version: 'v1', registered: true });
+
+    const [registered] = chain.registered;
+    const stored = JSON.parse(new TextDecoder().decode(walrus.blobs.get(`blob-${walrus.blobs.size - 1}`))) as DockerImageManifest;
+    const tar = await assembleDockerImageTar(stored, async entry => walrus.blobs.get(entry.blobId as string) as Uint8Array);
+
+    expect(sha256(tar)).toBe(stored.digest);
+    expect(registered.contentDigest).toBe(stored.digest);
+    expect(registered.size).toBe(tar.length);
+    expect(registered.version).toBe('v1');
+    expect(stored.ociManifest?.content).toBe(Buffer.from(body).toString('base64'));
+
+    const parsed = await parseDockerSaveTar(new Blob([tar as Uint8Array<ArrayBuffer>]));
+    expect(parsed.repoTags).toEqual(['myapp:v1']);
+    expect(parsed.layerPaths).toEqual([`${sha256(layer).slice('sha256:'.length)}/layer.tar`]);
+
+    // Staged copies are gone once the image is registered
+    expect((await fs.readdir(path.join(uploadDir, 'blobs'))).every(name => name.endsWith('.json'))).toBe(true);
+  });
+
+  it('computes the same digest from Walrus when the staged copies are gone', async () => {
+    chain.versions = [{
+      id: 0,
+      owner: repository.owner,
+      downloadUrls: [],
+      primaryUrlIndex: 0,
+      imageName: 'myapp',
+      version: 'v1',
+      size: chain.registered[0].size,
+      contentDigest: chain.registered[0].contentDigest,
+      timestamp: 1760000000000,
+      uploadType: 'docker',
+      requirements: OCI_PUSH_CONFIG.requirements
+    }];
+
+    // Same content under the same reference: nothing new is registered
+    expect(await pushManifest(repository, 'v1', body, null)).toEqual({ digest: sha256(body), version: 'v1', registered: false });
+    expect(chain.registered).toHaveLength(1);
+  });
+});
@@ -0,0 +1,475 @@
+// OCI Distribution (docker push) into the docker_registry
+// Blob uploads are staged on disk and stored on Walrus once complete. A manifest PUT turns the pushed config and
+// layers into a layered Docker image upload (the same DockerImageManifest the browser uploader writes, so
+// readFromWalrus still reassembles a loadable `docker save` tar) and registers it with the gateway signer.
+// Server-side only (used by the /v2 route handlers).
+
+import { createReadStream, openAsBlob, promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import type { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { defaultImageVersion, getDockerRegistryClient, type MinRequirements } from './docker-registry';
+import { uploadToWalrus } from './walrus-client';
+import { streamFromWalrus } from './walrus-stream';
+import { computeDigest, createDigestHasher, isValidDigest, normalizeDigest, type DigestHasher } from './walrus-integrity';
+import { assembledTarSize, bytesToBase64, paddedSize, type DockerImageManifest, type DockerTarEntry } from './docker-image-tar';
+import { buildTarHeader } from './project-archive';
+import {
+  OCI_MEDIA_TYPES,
+  OciRegistryError,
+  getOciSigner,
+  getRepositoryImages,
+  resolveBlob,
+  type OciBlob,
+  type OciRepository
+} from './oci-registry';
+
+export const OCI_PUSH_CONFIG = {
+  // Credential every push must present (Bearer, or the password of `docker login`); pushes are refused without it
+  token: process.env.OCI_PUSH_TOKEN || '',
+  directory: process.env.OCI_UPLOAD_DIR || path.join(process.cwd(), '.oci-uploads'),
+  epochs: process.env.OCI_PUSH_EPOCHS ? parseInt(process.env.OCI_PUSH_EPOCHS) : undefined,
+  maxBlobSize: process.env.OCI_PUSH_MAX_BLOB_SIZE ? parseInt(process.env.OCI_PUSH_MAX_BLOB_SIZE) : 2 * 1024 * 1024 * 1024, // 2GB
+  maxManifestSize: 4 * 1024 * 1024, // 4MB, the limit registries commonly enforce
+  // Uploads not written to for this long, and completed blobs no manifest used, are abandoned and deleted
+  sessionTtlMs: process.env.OCI_UPLOAD_SESSION_TTL_MS ? parseInt(process.env.OCI_UPLOAD_SESSION_TTL_MS) : 24 * 60 * 60 * 1000,
+  // Same defaults ProjectUpload registers with when no requirements are set
+  requirements: { minCpuCores: 1, minMemoryGb: 1, minStorageGb: 10, maxPricePerHour: 100 } as MinRequirements
+};
+
+// Blob pushed (or mounted) through the gateway, stored on Walrus on its own
+export interface PushedBlob {
+  digest: string;
+  blobId: string;
+  size: number;
+  storedAt: number;
+}
+
+export interface UploadSession {
+  uuid: string;
+  size: number; // Bytes received so far
+}
+
+export interface PushManifestResult {
+  digest: string; // sha256 of the pushed manifest
+  version: string;
+  registered: boolean; // false when the same content was already registered under this reference
+}
+
+interface PushedManifest {
+  mediaType?: string;
+  config?: { digest: string; size: number };
+  layers?: Array<{ digest: string; size: number }>;
+  manifests?: unknown[];
+}
+
+const MANIFEST_LIST_TYPES = [
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json'
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const sessionsDir = () => path.join(OCI_PUSH_CONFIG.directory, 'sessions');
+const blobsDir = () => path.join(OCI_PUSH_CONFIG.directory, 'blobs');
+
+// Digests and session IDs are validated before they become file names
+const hexOf = (digest: string): string => {
+  if (!digest.startsWith('sha256:') || !isValidDigest(digest)) {
+    throw new OciRegistryError('DIGEST_INVALID', `unsupported digest: ${digest}`, 400);
+  }
+  return normalizeDigest(digest).slice('sha256:'.length);
+};
+
+const sessionPath = (uuid: string): string => {
+  if (!UUID_PATTERN.test(uuid)) {
+    throw new OciRegistryError('BLOB_UPLOAD_UNKNOWN', `upload not found: ${uuid}`, 404);
+  }
+  return path.join(sessionsDir(), uuid);
+};
+
+const recordPath = (digest: string) => path.join(blobsDir(), `${hexOf(digest)}.json`);
+const stagedPath = (digest: string) => path.join(blobsDir(), hexOf(digest));
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * True when the Authorization header carries OCI_PUSH_TOKEN: `Bearer <token>`, or Basic with the token as
+ * password (`docker login -u <anything> -p <token>`)
+ */
+export const hasPushCredentials = (authorization: string | null): boolean => {
+  const match = authorization?.match(/^(Bearer|Basic)\s+(\S+)$/i);
+  if (!OCI_PUSH_CONFIG.token || !match) return false;
+  let presented = match[2];
+  if (match[1].toLowerCase() === 'basic') {
+    const credentials = Buffer.from(presented, 'base64').toString('utf8');
+    presented = credentials.slice(credentials.indexOf(':') + 1);
+  }
+  // Hashing first keeps the comparison constant-time whatever the length
+  return timingSafeEqual(sha256(presented), sha256(OCI_PUSH_CONFIG.token));
+};
+
+/**
+ * Rejects push requests without OCI_PUSH_TOKEN; runs before any write
+ */
+export const authorizePush = (authorization: string | null): void => {
+  if (!OCI_PUSH_CONFIG.token) {
+    throw new OciRegistryError('UNSUPPORTED', 'push is disabled: OCI_PUSH_TOKEN is not set', 405);
+  }
+  if (!hasPushCredentials(authorization)) {
+    throw new OciRegistryError('UNAUTHORIZED', 'authentication required to push', 401);
+  }
+};
+
+/**
+ * Pushes are signed by the gateway key, so they can only target repositories owned by its address
+ */
+export const assertCanPush = (repository: OciRepository): Ed25519Keypair => {
+  const signer = getOciSigner();
+  if (!signer) {
+    throw new OciRegistryError('UNSUPPORTED', 'push is disabled: OCI_SIGNER_PRIVATE_KEY is not set', 405);
+  }
+  if (signer.toSuiAddress() !== repository.owner) {
+    throw new OciRegistryError('DENIED', `pushes are signed by ${signer.toSuiAddress()}, not ${repository.owner}`, 403);
+  }
+  return signer;
+};
+
+const readRecord = async (digest: string): Promise<PushedBlob | null> => {
+  try {
+    return JSON.parse(await fs.readFile(recordPath(digest), 'utf8')) as PushedBlob;
+  } catch {
+    return null;
+  }
+};
+
+const writeRecord = async (record: PushedBlob): Promise<void> => {
+  await fs.mkdir(blobsDir(), { recursive: true });
+  await fs.writeFile(recordPath(record.digest), JSON.stringify(record));
+};
+
+/**
+ * A blob pushed through this gateway, or null; pushed blobs are readable before any manifest references them
+ */
+export const findPushedBlob = async (digest: string): Promise<OciBlob | null> => {
+  const record = await readRecord(digest);
+  if (!record) return null;
+  return {
+    digest: record.digest,
+    size: record.size,
+    mediaType: 'application/octet-stream',
+    blobId: record.blobId,
+    open: (range, signal) =>
+      streamFromWalrus(
+        record.blobId,
+        range ? { offset: range.start, length: range.end - range.start + 1, signal } : { expectedDigest: record.digest, signal }
+      )
+  };
+};
+
+/**
+ * Cross-repository mount: succeeds when the blob is already stored on Walrus on its own
+ */
+export const mountBlob = async (digest: string, from: OciRepository): Promise<OciBlob | null> => {
+  const pushed = await findPushedBlob(digest);
+  if (pushed) return pushed;
+  const blob = await resolveBlob(from, digest).catch(() => null);
+  if (!blob?.blobId) return null;
+  await writeRecord({ digest: blob.digest, blobId: blob.blobId, size: blob.size, storedAt: Date.now() });
+  return blob;
+};
+
+const isExpired = (modified: Date) => Date.now() - modified.getTime() > OCI_PUSH_CONFIG.sessionTtlMs;
+
+const removeExpiredFiles = async (directory: string, include: (name: string) => boolean): Promise<void> => {
+  const names = await fs.readdir(directory).catch(() => [] as string[]);
+  for (const name of names.filter(include)) {
+    const file = path.join(directory, name);
+    const stats = await fs.stat(file).catch(() => null);
+    if (stats && isExpired(stats.mtime)) {
+      await fs.rm(file, { force: true });
+    }
+  }
+};
+
+// Deletes uploads that stopped receiving data (docker was interrupted, or never finished the blob) and staged
+// blobs no manifest picked up (aborted push, rejected manifest). Records (.json) stay: they point at Walrus.
+const removeExpiredUploads = async (): Promise<void> => {
+  await removeExpiredFiles(sessionsDir(), () => true);
+  await removeExpiredFiles(blobsDir(), name => !name.endsWith('.json'));
+};
+
+export const startUpload = async (): Promise<UploadSession> => {
+  await fs.mkdir(sessionsDir(), { recursive: true });
+  await removeExpiredUploads();
+  const uuid = randomUUID();
+  await fs.writeFile(sessionPath(uuid), new Uint8Array(0));
+  return { uuid, size: 0 };
+};
+
+export const getUploadSession = async (uuid: string): Promise<UploadSession> => {
+  const file = sessionPath(uuid);
+  const stats = await fs.stat(file).catch(() => null);
+  if (!stats || isExpired(stats.mtime)) {
+    if (stats) await fs.rm(file, { force: true });
+    throw new OciRegistryError('BLOB_UPLOAD_UNKNOWN', `upload not found: ${uuid}`, 404);
+  }
+  return { uuid, size: stats.size };
+};
+
+/**
+ * Appends a request body to an upload; `start` (from Content-Range) must be where the upload stopped.
+ * An upload growing past maxBlobSize is deleted.
+ */
+export const appendUpload = async (
+  uuid: string,
+  body: ReadableStream<Uint8Array> | null,
+  start?: number
+): Promise<UploadSession> => {
+  const session = await getUploadSession(uuid);
+  if (start !== undefined && start !== session.size) {
+    throw new OciRegistryError('BLOB_UPLOAD_INVALID', `upload continues at ${session.size}, got ${start}`, 416);
+  }
+  if (!body) return session;
+
+  const file = await fs.open(sessionPath(uuid), 'a');
+  let size = session.size;
+  let tooLarge = false;
+  try {
+    const reader = body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > OCI_PUSH_CONFIG.maxBlobSize) {
+        await reader.cancel();
+        tooLarge = true;
+        break;
+      }
+      await file.write(value);
+    }
+  } finally {
+    await file.close();
+  }
+  if (tooLarge) {
+    await fs.rm(sessionPath(uuid), { force: true });
+    throw new OciRegistryError('SIZE_INVALID', `blob exceeds ${OCI_PUSH_CONFIG.maxBlobSize} bytes`, 413);
+  }
+  return { uuid, size };
+};
+
+export const cancelUpload = async (uuid: string): Promise<void> => {
+  await getUploadSession(uuid);
+  await fs.rm(sessionPath(uuid), { force: true });
+};
+
+const hashFileInto = async (hasher: DigestHasher, file: string): Promise<void> => {
+  for await (const chunk of createReadStream(file)) {
+    hasher.update(chunk as Uint8Array);
+  }
+};
+
+/**
+ * Finishes an upload: checks it against `digest`, then stores it on Walrus (once per digest)
+ */
+export const completeUpload = async (
+  uuid: string,
+  digest: string,
+  body: ReadableStream<Uint8Array> | null
+): Promise<PushedBlob> => {
+  const expected = `sha256:${hexOf(digest)}`;
+  await appendUpload(uuid, body);
+
+  const file = sessionPath(uuid);
+  const hasher = createDigestHasher();
+  await hashFileInto(hasher, file);
+  const actual = hasher.digest();
+  if (actual !== expected) {
+    await fs.rm(file, { force: true });
+    throw new OciRegistryError('DIGEST_INVALID', `upload digest is ${actual}, expected ${expected}`, 400);
+  }
+
+  const existing = await readRecord(actual);
+  if (existing) {
+    await fs.rm(file, { force: true });
+    return existing;
+  }
+
+  // Kept until a manifest uses it (or it expires), so the image digest can be computed without reading it back
+  await fs.mkdir(blobsDir(), { recursive: true });
+  await fs.rename(file, stagedPath(actual));
+
+  const data = await openAsBlob(stagedPath(actual));
+  const result = await uploadToWalrus(data, { contentDigest: actual, epochs: OCI_PUSH_CONFIG.epochs });
+  if (result.status === 'error') {
+    throw new OciRegistryError('UNKNOWN', `Walrus upload failed: ${result.error}`, 502);
+  }
+
+  const record: PushedBlob = { digest: actual, blobId: result.blobId, size: data.size, storedAt: Date.now() };
+  await writeRecord(record);
+  console.log(`📦 OCI blob 저장: ${actual} → ${result.blobId}`);
+  return record;
+};
+
+// Content of a stored blob into the image digest: the staged upload if it is still on disk, otherwise Walrus
+const hashBlobInto = async (hasher: DigestHasher, blob: OciBlob): Promise<void> => {
+  const staged = stagedPath(blob.digest);
+  if (await fs.access(staged).then(() => true, () => false)) {
+    await hashFileInto(hasher, staged);
+    return;
+  }
+  const reader = (await blob.open()).getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    hasher.update(value);
+  }
+};
+
+const parseManifest = (body: Uint8Array, contentType: string | null): { manifest: PushedManifest; mediaType: string } => {
+  let manifest: PushedManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(body)) as PushedManifest;
+  } catch {
+    throw new OciRegistryError('MANIFEST_INVALID', 'manifest is not valid JSON', 400);
+  }
+  const mediaType = manifest.mediaType ?? contentType ?? OCI_MEDIA_TYPES.manifest;
+  if (MANIFEST_LIST_TYPES.includes(mediaType) || Array.isArray(manifest.manifests)) {
+    throw new OciRegistryError('UNSUPPORTED', 'multi-platform image indexes are not supported; push a single platform', 400);
+  }
+  if (!manifest.config?.digest || !Array.isArray(manifest.layers)) {
+    throw new OciRegistryError('MANIFEST_INVALID', 'manifest needs a config and layers', 400);
+  }
+  return { manifest, mediaType };
+};
+
+/**
+ * Stores a pushed image manifest as a layered Docker image upload and registers it on-chain.
+ * A reference that is not taken becomes the version; otherwise a new version is registered and the
+ * reference is (re)pointed at it as a tag, like `docker push` moving `latest`.
+ */
+export const pushManifest = async (
+  repository: OciRepository,
+  reference: string,
+  body: Uint8Array,
+  contentType: string | null
+): Promise<PushManifestResult> => {
+  const signer = assertCanPush(repository);
+  const { manifest, mediaType } = parseManifest(body, contentType);
+  const digest = await computeDigest(body);
+  const byDigest = reference.startsWith('sha256:');
+  if (byDigest && normalizeDigest(reference) !== digest) {
+    throw new OciRegistryError('DIGEST_INVALID', `manifest digest is ${digest}, not ${reference}`, 400);
+  }
+
+  // Config and layers must be stored on Walrus on their own: pushed here, or part of a layered upload
+  const findStored = async (descriptor: { digest: string }): Promise<OciBlob & { blobId: string }> => {
+    const blob = (await findPushedBlob(descriptor.digest)) ?? await resolveBlob(repository, descriptor.digest).catch(() => null);
+    if (!blob?.blobId) {
+      throw new OciRegistryError('MANIFEST_BLOB_UNKNOWN', `blob unknown to registry: ${descriptor.digest}`, 400);
+    }
+    return blob as OciBlob & { blobId: string };
+  };
+  const config = await findStored(manifest.config as { digest: string });
+  const layers: Array<OciBlob & { blobId: string }> = [];
+  for (const layer of manifest.layers ?? []) {
+    layers.push(await findStored(layer));
+  }
+
+  // `docker save` layout; fixed mtimes keep the image digest the same when the same manifest is pushed again
+  const repoTags = byDigest ? [] : [`${repository.imageName}:${reference}`];
+  const configPath = `${hexOf(config.digest)}.json`;
+  const layerPaths = layers.map(layer => `${hexOf(layer.digest)}/layer.tar`);
+  const dockerManifest = new TextEncoder().encode(
+    JSON.stringify([{ Config: configPath, RepoTags: repoTags, Layers: layerPaths }])
+  );
+  const header = (entryPath: string, size: number) =>
+    buildTarHeader({ path: entryPath, typeflag: '0', mode: 0o644, size, mtime: 0 });
+
+  const hasher = createDigestHasher();
+  const entries: DockerTarEntry[] = [];
+  const addStored = async (entryPath: string, blob: OciBlob & { blobId: string }) => {
+    if (entries.some(entry => entry.path === entryPath)) return; // A layer listed twice is stored once
+    const entryHeader = header(entryPath, blob.size);
+    hasher.update(entryHeader);
+    await hashBlobInto(hasher, blob);
+    hasher.update(new Uint8Array(paddedSize(blob.size) - blob.size));
+    entries.push({
+      path: entryPath,
+      typeflag: '0',
+      size: blob.size,
+      header: bytesToBase64(entryHeader),
+      blobId: blob.blobId,
+      digest: blob.digest
+    });
+  };
+  await addStored(configPath, config);
+  for (const [index, layer] of layers.entries()) {
+    await addStored(layerPaths[index], layer);
+  }
+  const manifestHeader = header('manifest.json', dockerManifest.length);
+  hasher.update(manifestHeader);
+  hasher.update(dockerManifest);
+  hasher.update(new Uint8Array(paddedSize(dockerManifest.length) - dockerManifest.length));
+  entries.push({
+    path: 'manifest.json',
+    typeflag: '0',
+    size: dockerManifest.length,
+    header: bytesToBase64(manifestHeader),
+    inline: bytesToBase64(dockerManifest)
+  });
+  hasher.update(new Uint8Array(1024)); // End-of-archive blocks written on reassembly
+  const imageDigest = hasher.digest();
+
+  const { versions, tags } = await getRepositoryImages(repository);
+  if (!byDigest) {
+    const current = versions.find(
+      image => image.version === (tags.find(tag => tag.tag === reference)?.version ?? reference)
+    );
+    if (current?.contentDigest && normalizeDigest(current.contentDigest) === imageDigest) {
+      return { digest, version: current.version, registered: false };
+    }
+  }
+  const taken = byDigest || versions.some(image => image.version === reference) || tags.some(tag => tag.tag === reference);
+  const version = taken ? defaultImageVersion() : reference;
+
+  const imageManifest: DockerImageManifest = {
+    type: 'daas-docker-image',
+    version: 1,
+    repoTags,
+    config: config.digest,
+    layers: layers.map(layer => layer.digest),
+    totalSize: assembledTarSize(entries),
+    digest: imageDigest,
+    entries,
+    ociManifest: { mediaType, content: bytesToBase64(body) }
+  };
+  const uploaded = await uploadToWalrus(new Blob([JSON.stringify(imageManifest)], { type: 'application/json' }), {
+    chunked: false,
+    epochs: OCI_PUSH_CONFIG.epochs
+  });
+  if (uploaded.status === 'error' || !uploaded.url) {
+    throw new OciRegistryError('UNKNOWN', `Walrus upload failed: ${uploaded.error ?? 'no URL returned'}`, 502);
+  }
+
+  const registry = getDockerRegistryClient();
+  const transactionDigest = await registry.registerImage(
+    {
+      urls: [uploaded.url],
+      imageName: repository.imageName,
+      version,
+      tags: taken && !byDigest ? [reference] : [],
+      size: imageManifest.totalSize,
+      contentDigest: imageDigest,
+      uploadType: 'docker',
+      requirements: OCI_PUSH_CONFIG.requirements
+    },
+    registry.keypairSigner(signer)
+  );
+  await registry.waitForTransaction(transactionDigest);
+  console.log(`✅ OCI push 등록: ${repository.imageName}:${version} (${transactionDigest})`);
+
+  // Staged copies are only needed to compute image digests
+  await Promise.all([config, ...layers].map(blob => fs.rm(stagedPath(blob.digest), { force: true })));
+  return { digest, version, registered: true };
+};
@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DockerImage } from './docker-registry';
+import { buildTarHeader } from './project-archive';
+import { paddedSize, parseTarEntries } from './docker-image-tar';
+import { matchOciRoute, pageTags, resolveBlob, resolveManifest } from './oci-registry';
+
+// Stored `docker save` tars by blob ID, read through the mocked Walrus modules below
+const tars = new Map<string, Uint8Array>();
+const registry = vi.hoisted(() => ({ versions: [] as DockerImage[] }));
+const walrus = vi.hoisted(() => ({ tarListings: 0, reads: [] as string[] }));
+
+const readTar = (blobId: string) => {
+  const tar = tars.get(blobId);
+  if (!tar) throw new Error(`blob not stored: ${blobId}`);
+  return tar;
+};
+
+vi.mock('./docker-registry', async importOriginal => ({
+  ...await importOriginal<typeof import('./docker-registry')>(),
+  isRegistryConfigured: () => true,
+  getDockerRegistryClient: () => ({
+    getImageVersions: async () => registry.versions,
+    getUserTags: async () => []
+  })
+}));
+
+vi.mock('./walrus-client', async importOriginal => ({
+  ...await importOriginal<typeof import('./walrus-client')>(),
+  openBlobStreamFromWalrus: async (blobId: string) => {
+    walrus.reads.push(blobId);
+    return new Blob([readTar(blobId).slice(0, 1)]).stream();
+  }
+}));
+
+vi.mock('./walrus-stream', () => ({
+  listWalrusTarEntries: async (blobId: string) => {
+    walrus.tarListings++;
+    return parseTarEntries(new Blob([readTar(blobId) as Uint8Array<ArrayBuffer>]));
+  },
+  readRangeFromWalrus: async (blobId: string, offset: number, length: number) =>
+    readTar(blobId).slice(offset, offset + length),
+  streamFromWalrus: async (blobId: string, options: { offset?: number; length?: number } = {}) => {
+    const offset = options.offset ?? 0;
+    return new Blob([readTar(blobId).slice(offset, options.length === undefined ? undefined : offset + options.length)]).stream();
+  }
+}));
+
+const OWNER = '0x0000000000000000000000000000000000000000000000000000000000000a11';
+
+// Legacy `docker save` layout (<id>/layer.tar), so layer digests have to be computed by hashing
+const dockerSaveTar = (layer: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const files: Array<[string, Uint8Array]> = [
+    ['config.json', encoder.encode('{"architecture":"amd64"}')],
+    ['abc/layer.tar', encoder.encode(layer)],
+    ['manifest.json', encoder.encode(JSON.stringify([{ Config: 'config.json', RepoTags: [], Layers: ['abc/layer.tar'] }]))]
+  ];
+  const parts: Uint8Array[] = [];
+  for (const [path, data] of files) {
+    parts.push(buildTarHeader({ path, typeflag: '0', mode: 0o644, size: data.length, mtime: 0 }));
+    const padded = new Uint8Array(paddedSize(data.length));
+    padded.set(data);
+    parts.push(padded);
+  }
+  parts.push(new Uint8Array(1024));
+  return new Uint8Array(parts.flatMap(part => [...part]));
+};
+
+const storeVersion = (version: string, blobId: string, tar: Uint8Array | null): DockerImage => {
+  if (tar) tars.set(blobId, tar);
+  return {
+    id: registry.versions.length,
+    owner: OWNER,
+    downloadUrls: [`https://aggregator.example/v1/blobs/${blobId}`],
+    primaryUrlIndex: 0,
+    imageName: 'app',
+    version,
+    size: tar?.length ?? 0,
+    contentDigest: '',
+    timestamp: 1760000000000,
+    uploadType: 'docker',
+    requirements: { minCpuCores: 1, minMemoryGb: 1, minStorageGb: 1, maxPricePerHour: 0 }
+  };
+};
+
+const UNKNOWN_DIGEST = `sha256:${'0'.repeat(64)}`;
+
+describe('matchOciRoute', () => {
+  it.each([
+    [['0xabc', 'app', 'manifests', 'latest'], { kind: 'manifest', name: '0xabc/app', reference: 'latest' }],
+    [['team', 'web', 'app', 'blobs', 'sha256:ff'], { kind: 'blob', name: 'team/web/app', digest: 'sha256:ff' }],
+    [['app', 'tags', 'list'], { kind: 'tags', name: 'app' }],
+    [['app', 'blobs', 'uploads', ''], { kind: 'uploads', name: 'app' }],
+    [['app', 'blobs', 'uploads'], { kind: 'uploads', name: 'app' }],
+    [['org', 'app', 'blobs', 'uploads', 'some-uuid'], { kind: 'upload', name: 'org/app', uuid: 'some-uuid' }],
+    // An image may itself be called "blobs"
+    [['blobs', 'manifests', 'v1'], { kind: 'manifest', name: 'blobs', reference: 'v1' }]
+  ])('%j', (path, route) => {
+    expect(matchOciRoute(path)).toEqual(route);
+  });
+
+  it.each([[['app']], [['app', 'manifests']], [['app', 'tags', 'all']], [['app', 'layers', 'x']]])('rejects %j', path => {
+    expect(matchOciRoute(path)).toBeNull();
+  });
+});
+
+describe('pageTags', () => {
+  const all = ['1.0', '1.1', '2.0', 'latest'];
+
+  it('returns everything without n', () => {
+    expect(pageTags(all)).toEqual({ tags: all, next: null });
+  });
+
+  it('links to the next page while tags remain', () => {
+    expect(pageTags(all, 2)).toEqual({ tags: ['1.0', '1.1'], next: { n: 2, last: '1.1' } });
+    expect(pageTags(all, 2, '1.1')).toEqual({ tags: ['2.0', 'latest'], next: null });
+  });
+
+  it('handles n=0 and a last past the end', () => {
+    expect(pageTags(all, 0)).toEqual({ tags: [], next: null });
+    expect(pageTags(all, 5, 'zzz')).toEqual({ tags: [], next: null });
+  });
+});
+
+describe('digest lookups', () => {
+  beforeEach(() => {
+    registry.versions = [];
+    walrus.tarListings = 0;
+    walrus.reads = [];
+  });
+
+  it('indexes every version once and answers unknown digests from the index', async () => {
+    registry.versions = [
+      storeVersion('1', 'blob-one', dockerSaveTar('first layer')),
+      storeVersion('2', 'blob-two', dockerSaveTar('second layer'))
+    ];
+
+    const first = await resolveManifest({ owner: OWNER, imageName: 'app' }, '1');
+    expect(await resolveManifest({ owner: OWNER, imageName: 'app' }, first.digest)).toBe(first);
+
+    const listings = walrus.tarListings;
+    for (let i = 0; i < 3; i++) {
+      await expect(resolveManifest({ owner: OWNER, imageName: 'app' }, UNKNOWN_DIGEST)).rejects.toMatchObject({ code: 'MANIFEST_UNKNOWN' });
+      await expect(resolveBlob({ owner: OWNER, imageName: 'app' }, UNKNOWN_DIGEST)).rejects.toMatchObject({ code: 'BLOB_UNKNOWN' });
+    }
+    expect(walrus.tarListings).toBe(listings);
+    expect(listings).toBe(2);
+  });
+
+  it('does not rebuild a broken version on every request', async () => {
+    registry.versions = [
+      storeVersion('1', 'blob-three', dockerSaveTar('third layer')),
+      storeVersion('2', 'blob-missing', null)
+    ];
+
+    for (let i = 0; i < 3; i++) {
+      await expect(resolveManifest({ owner: OWNER, imageName: 'app' }, '2')).rejects.toThrow();
+      await expect(resolveBlob({ owner: OWNER, imageName: 'app' }, UNKNOWN_DIGEST)).rejects.toMatchObject({ code: 'BLOB_UNKNOWN' });
+    }
+    expect(walrus.reads.filter(blobId => blobId === 'blob-missing')).toHaveLength(1);
+  });
+});
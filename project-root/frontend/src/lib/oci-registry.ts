@@ -0,0 +1,473 @@
+// OCI Distribution (docker pull) view of the docker_registry
+// A repository is `<owner address>/<imageName>`, or `<imageName>` for OCI_DEFAULT_OWNER (the push signer when
+// unset); references are tags or versions. Image manifests are derived from the stored `docker save` data (a layered upload manifest or a plain
+// tar) and config/layer blobs are streamed from Walrus. Server-side only (used by the /v2 route handlers).
+
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { getDockerRegistryClient, isRegistryConfigured, primaryUrl, type DockerImage } from './docker-registry';
+import { extractBlobId, openBlobStreamFromWalrus, parseManifestBlob, readBlobFromWalrus } from './walrus-client';
+import { listWalrusTarEntries, readRangeFromWalrus, streamFromWalrus } from './walrus-stream';
+import { computeDigest, createDigestHasher, isValidDigest, normalizeDigest } from './walrus-integrity';
+import { base64ToBytes, type DockerImageManifest, type TarIndexEntry } from './docker-image-tar';
+import type { ByteRange } from './http-range';
+
+export const OCI_MEDIA_TYPES = {
+  manifest: 'application/vnd.oci.image.manifest.v1+json',
+  dockerManifest: 'application/vnd.docker.distribution.manifest.v2+json',
+  config: 'application/vnd.oci.image.config.v1+json',
+  layer: 'application/vnd.oci.image.layer.v1.tar',
+  layerGzip: 'application/vnd.oci.image.layer.v1.tar+gzip',
+  layerZstd: 'application/vnd.oci.image.layer.v1.tar+zstd'
+} as const;
+
+export const OCI_CONFIG = {
+  // Owner of repositories named without an address (`docker pull host/myapp`)
+  defaultOwner: process.env.OCI_DEFAULT_OWNER || '',
+  // Key (suiprivkey...) that pushes sign with; pushes are refused without it
+  signerKey: process.env.OCI_SIGNER_PRIVATE_KEY || '',
+  maxCachedImages: 100,
+  maxCachedRepositories: 100,
+  // A stored image that failed to build is not rebuilt for this long (unauthenticated pulls must not repeat the work)
+  failedBuildRetryMs: 60_000
+};
+
+// Sent with every response; clients check it on GET /v2/
+export const OCI_API_HEADERS = { 'Docker-Distribution-API-Version': 'registry/2.0' };
+
+// Challenge on 401 responses; docker retries with the credentials saved by `docker login`
+export const OCI_AUTH_CHALLENGE = 'Basic realm="docker_registry push", charset="UTF-8"';
+
+export type OciErrorCode =
+  | 'NAME_INVALID'
+  | 'NAME_UNKNOWN'
+  | 'MANIFEST_UNKNOWN'
+  | 'MANIFEST_INVALID'
+  | 'MANIFEST_BLOB_UNKNOWN'
+  | 'BLOB_UNKNOWN'
+  | 'BLOB_UPLOAD_UNKNOWN'
+  | 'BLOB_UPLOAD_INVALID'
+  | 'DIGEST_INVALID'
+  | 'SIZE_INVALID'
+  | 'UNAUTHORIZED'
+  | 'DENIED'
+  | 'UNSUPPORTED'
+  | 'UNKNOWN';
+
+export class OciRegistryError extends Error {
+  readonly code: OciErrorCode;
+  readonly status: number;
+
+  constructor(code: OciErrorCode, message: string, status: number) {
+    super(message);
+    this.name = 'OciRegistryError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const isOciRegistryError = (error: unknown): error is OciRegistryError =>
+  error instanceof OciRegistryError;
+
+export interface OciRepository {
+  owner: string;
+  imageName: string;
+}
+
+// The image config or one of its layers, addressed by digest
+export interface OciBlob {
+  digest: string;
+  size: number;
+  mediaType: string;
+  blobId?: string; // Set when the blob is stored on Walrus on its own (not a byte range of a tar)
+  open: (range?: ByteRange, signal?: AbortSignal) => Promise<ReadableStream<Uint8Array>>;
+}
+
+export interface OciImage {
+  image: DockerImage;
+  manifest: Uint8Array; // Serialized image manifest
+  mediaType: string;
+  digest: string; // sha256 of manifest
+  blobs: Map<string, OciBlob>;
+}
+
+/**
+ * Error body in the shape of the distribution spec; unexpected errors become 500 UNKNOWN
+ */
+export const ociErrorResponse = (error: unknown): Response => {
+  const known = isOciRegistryError(error);
+  if (!known) console.error('❌ OCI 레지스트리 요청 실패:', error);
+  const code: OciErrorCode = known ? error.code : 'UNKNOWN';
+  const message = error instanceof Error ? error.message : String(error);
+  return Response.json(
+    { errors: [{ code, message }] },
+    {
+      status: known ? error.status : 500,
+      headers: code === 'UNAUTHORIZED' ? { ...OCI_API_HEADERS, 'WWW-Authenticate': OCI_AUTH_CHALLENGE } : OCI_API_HEADERS
+    }
+  );
+};
+
+let signer: Ed25519Keypair | null | undefined;
+
+export const getOciSigner = (): Ed25519Keypair | null => {
+  signer ??= OCI_CONFIG.signerKey ? Ed25519Keypair.fromSecretKey(OCI_CONFIG.signerKey) : null;
+  return signer;
+};
+
+export type OciRoute =
+  | { kind: 'manifest'; name: string; reference: string }
+  | { kind: 'blob'; name: string; digest: string }
+  | { kind: 'uploads'; name: string }
+  | { kind: 'upload'; name: string; uuid: string }
+  | { kind: 'tags'; name: string };
+
+/**
+ * Matches the segments after /v2/; <name> may contain slashes, so the endpoint is read from the end
+ */
+export const matchOciRoute = (path: string[]): OciRoute | null => {
+  // Trailing slash of /blobs/uploads/ arrives as an empty segment or not at all
+  const segments = path[path.length - 1] === '' ? path.slice(0, -1) : path;
+  if (segments.length >= 3 && segments.slice(-2).join('/') === 'blobs/uploads') {
+    return { kind: 'uploads', name: segments.slice(0, -2).join('/') };
+  }
+  if (segments.length >= 4 && segments.slice(-3, -1).join('/') === 'blobs/uploads') {
+    return { kind: 'upload', name: segments.slice(0, -3).join('/'), uuid: segments[segments.length - 1] };
+  }
+
+  if (segments.length < 3) return null;
+  const name = segments.slice(0, -2).join('/');
+  const [section, last] = segments.slice(-2);
+  if (section === 'manifests') return { kind: 'manifest', name, reference: last };
+  if (section === 'blobs') return { kind: 'blob', name, digest: last };
+  if (section === 'tags' && last === 'list') return { kind: 'tags', name };
+  return null;
+};
+
+export const parseRepository = (name: string): OciRepository => {
+  const [first, ...rest] = name.split('/');
+  if (rest.length > 0 && isValidSuiAddress(first)) {
+    return { owner: normalizeSuiAddress(first), imageName: rest.join('/') };
+  }
+  const defaultOwner = OCI_CONFIG.defaultOwner || getOciSigner()?.toSuiAddress();
+  if (!defaultOwner) {
+    throw new OciRegistryError('NAME_INVALID', `repository must be <owner address>/<image>: ${name}`, 400);
+  }
+  return { owner: normalizeSuiAddress(defaultOwner), imageName: name };
+};
+
+const assertConfigured = () => {
+  if (!isRegistryConfigured()) {
+    throw new OciRegistryError('UNSUPPORTED', 'docker_registry is not configured', 503);
+  }
+};
+
+/**
+ * Versions (oldest first) and tags of one repository; both empty for a repository that was never pushed
+ */
+export const getRepositoryImages = async ({ owner, imageName }: OciRepository) => {
+  assertConfigured();
+  const registry = getDockerRegistryClient();
+  const [versions, tags] = await Promise.all([registry.getImageVersions(owner, imageName), registry.getUserTags(owner)]);
+  return { versions, tags: tags.filter(tag => tag.imageName === imageName) };
+};
+
+const lookup = async (repository: OciRepository) => {
+  const images = await getRepositoryImages(repository);
+  if (images.versions.length === 0) {
+    throw new OciRegistryError('NAME_UNKNOWN', `repository not found: ${repository.imageName}`, 404);
+  }
+  return images;
+};
+
+/**
+ * Every reference a repository can be pulled by: its versions and tags, sorted
+ */
+export const listRepositoryTags = async (repository: OciRepository): Promise<string[]> => {
+  const { versions, tags } = await lookup(repository);
+  return [...new Set([...versions.map(image => image.version), ...tags.map(tag => tag.tag)])].sort();
+};
+
+/**
+ * tags/list paging: up to `n` tags after `last`; `next` is set while more tags follow (the Link header)
+ */
+export const pageTags = (
+  all: string[],
+  n = all.length,
+  last: string | null = null
+): { tags: string[]; next: { n: number; last: string } | null } => {
+  const tags = (last ? all.filter(tag => tag > last) : all).slice(0, Math.max(0, n));
+  const final = tags[tags.length - 1];
+  return { tags, next: final !== undefined && all.indexOf(final) < all.length - 1 ? { n, last: final } : null };
+};
+
+const collectStream = async (stream: ReadableStream<Uint8Array>): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(stream as ReadableStream<Uint8Array<ArrayBuffer>>).arrayBuffer());
+
+const hashStream = async (stream: ReadableStream<Uint8Array>): Promise<string> => {
+  const hasher = createDigestHasher();
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return hasher.digest();
+    hasher.update(value);
+  }
+};
+
+const rangeLength = (range: ByteRange) => range.end - range.start + 1;
+
+// Config or layer before its media type is known
+type UntypedBlob = Omit<OciBlob, 'mediaType'>;
+
+// Layers are usually stored uncompressed by `docker save`, but compressed layers are passed through as they are
+const sniffLayerType = async (blob: UntypedBlob): Promise<string> => {
+  if (blob.size < 4) return OCI_MEDIA_TYPES.layer;
+  const head = await collectStream(await blob.open({ start: 0, end: 3 }));
+  if (head[0] === 0x1f && head[1] === 0x8b) return OCI_MEDIA_TYPES.layerGzip;
+  if (head[0] === 0x28 && head[1] === 0xb5 && head[2] === 0x2f && head[3] === 0xfd) return OCI_MEDIA_TYPES.layerZstd;
+  return OCI_MEDIA_TYPES.layer;
+};
+
+// Layered upload: config and layers are already content-addressed Walrus blobs
+const blobsFromLayeredUpload = (manifest: DockerImageManifest): { config: UntypedBlob; layers: UntypedBlob[] } => {
+  const stored = new Map(
+    manifest.entries.filter(entry => entry.blobId && entry.digest).map(entry => [entry.digest as string, entry])
+  );
+  const toBlob = (digest: string | undefined): UntypedBlob => {
+    const entry = digest ? stored.get(digest) : undefined;
+    if (!entry) {
+      throw new OciRegistryError('UNSUPPORTED', `stored image references a missing entry: ${digest ?? 'config'}`, 500);
+    }
+    const blobId = entry.blobId as string;
+    return {
+      digest: entry.digest as string,
+      size: entry.size,
+      blobId,
+      open: (range, signal) =>
+        streamFromWalrus(
+          blobId,
+          range ? { offset: range.start, length: rangeLength(range), signal } : { expectedDigest: entry.digest, signal }
+        )
+    };
+  };
+  return { config: toBlob(manifest.config), layers: manifest.layers.map(toBlob) };
+};
+
+// OCI-layout archives (Docker 25+) name entries by digest; older ones (<id>/layer.tar) have to be hashed
+const digestFromPath = (path: string): string | null => {
+  const match = path.match(/(?:^|\/)blobs\/sha256\/([0-9a-f]{64})$/);
+  return match ? `sha256:${match[1]}` : null;
+};
+
+// Plain `docker save` tar: entries are byte ranges of the one stored blob
+const blobsFromTar = async (blobId: string): Promise<{ config: UntypedBlob; layers: UntypedBlob[] }> => {
+  const normalize = (path: string) => path.replace(/^\.\//, '');
+  const entries = await listWalrusTarEntries(blobId);
+  const entryAt = (path: string): TarIndexEntry => {
+    const entry = entries.find(candidate => normalize(candidate.path) === normalize(path));
+    if (!entry) throw new OciRegistryError('UNSUPPORTED', `entry missing from stored image: ${path}`, 500);
+    return entry;
+  };
+
+  const manifestEntry = entryAt('manifest.json');
+  const [dockerManifest] = JSON.parse(
+    new TextDecoder().decode(await readRangeFromWalrus(blobId, manifestEntry.offset, manifestEntry.size))
+  ) as Array<{ Config?: string; Layers?: string[] }>;
+  if (!dockerManifest?.Config) {
+    throw new OciRegistryError('UNSUPPORTED', 'stored image has no config in manifest.json', 500);
+  }
+
+  const toBlob = async (path: string): Promise<UntypedBlob> => {
+    const entry = entryAt(path);
+    const open = (range?: ByteRange, signal?: AbortSignal) =>
+      streamFromWalrus(blobId, {
+        offset: entry.offset + (range?.start ?? 0),
+        length: range ? rangeLength(range) : entry.size,
+        signal
+      });
+    return { digest: digestFromPath(normalize(path)) ?? await hashStream(await open()), size: entry.size, open };
+  };
+
+  const config = await toBlob(dockerManifest.Config);
+  const layers: UntypedBlob[] = [];
+  for (const path of dockerManifest.Layers ?? []) {
+    layers.push(await toBlob(path));
+  }
+  return { config, layers };
+};
+
+const buildOciImage = async (image: DockerImage): Promise<OciImage> => {
+  if (image.uploadType !== 'docker') {
+    throw new OciRegistryError('MANIFEST_UNKNOWN', `${image.imageName}:${image.version} is a project upload, not a container image`, 404);
+  }
+  const blobId = image.downloadUrls.map(extractBlobId).find((id): id is string => !!id);
+  if (!blobId) {
+    throw new OciRegistryError('UNSUPPORTED', `${image.imageName}:${image.version} has no Walrus download URL`, 404);
+  }
+
+  // Layered uploads store a small JSON manifest; anything else is read as a tar
+  const head = await collectStream(await openBlobStreamFromWalrus(blobId, { length: 1 }));
+  const stored = head[0] === 0x7b /* '{' */ ? parseManifestBlob(await readBlobFromWalrus(blobId)) : null;
+  let parts: { config: UntypedBlob; layers: UntypedBlob[] };
+  if (stored?.type === 'daas-docker-image') {
+    if (image.contentDigest && normalizeDigest(stored.digest) !== normalizeDigest(image.contentDigest)) {
+      throw new OciRegistryError('UNSUPPORTED', `stored image does not match the registered digest ${image.contentDigest}`, 500);
+    }
+    parts = blobsFromLayeredUpload(stored);
+
+    // Pushed images are served with the manifest the client pushed, so its digest stays valid
+    if (stored.ociManifest) {
+      const manifest = base64ToBytes(stored.ociManifest.content);
+      return {
+        image,
+        manifest,
+        mediaType: stored.ociManifest.mediaType,
+        digest: await computeDigest(manifest),
+        blobs: new Map([parts.config, ...parts.layers].map(blob => [
+          blob.digest,
+          { ...blob, mediaType: 'application/octet-stream' }
+        ]))
+      };
+    }
+  } else {
+    parts = await blobsFromTar(blobId);
+  }
+
+  const config: OciBlob = { ...parts.config, mediaType: OCI_MEDIA_TYPES.config };
+  const layers: OciBlob[] = [];
+  for (const layer of parts.layers) {
+    layers.push({ ...layer, mediaType: await sniffLayerType(layer) });
+  }
+
+  const describe = (blob: OciBlob) => ({ mediaType: blob.mediaType, digest: blob.digest, size: blob.size });
+  const manifest = new TextEncoder().encode(JSON.stringify({
+    schemaVersion: 2,
+    mediaType: OCI_MEDIA_TYPES.manifest,
+    config: describe(config),
+    layers: layers.map(describe),
+    annotations: {
+      'org.opencontainers.image.version': image.version,
+      'org.opencontainers.image.created': new Date(image.timestamp).toISOString(),
+      'org.opencontainers.image.source': primaryUrl(image)
+    }
+  }));
+
+  return {
+    image,
+    manifest,
+    mediaType: OCI_MEDIA_TYPES.manifest,
+    digest: await computeDigest(manifest),
+    blobs: new Map([config, ...layers].map(blob => [blob.digest, blob]))
+  };
+};
+
+// Insertion-ordered cache; the oldest entry goes first
+const remember = <T>(cache: Map<string, T>, key: string, value: T, maxSize: number) => {
+  cache.set(key, value);
+  if (cache.size > maxSize) {
+    cache.delete(cache.keys().next().value as string);
+  }
+};
+
+// Built images by stored content, oldest first; manifests only change when an image is re-uploaded
+const ociImages = new Map<string, Promise<OciImage>>();
+
+const storedKey = (image: DockerImage) => `${image.contentDigest}|${image.downloadUrls.join('\n')}`;
+
+const loadOciImage = (image: DockerImage): Promise<OciImage> => {
+  const key = storedKey(image);
+  const cached = ociImages.get(key);
+  if (cached) return cached;
+
+  const built = buildOciImage(image);
+  remember(ociImages, key, built, OCI_CONFIG.maxCachedImages);
+  // A failure stays cached for failedBuildRetryMs, so a broken image is not rebuilt on every request
+  built.catch(() => setTimeout(() => {
+    if (ociImages.get(key) === built) ociImages.delete(key);
+  }, OCI_CONFIG.failedBuildRetryMs));
+  return built;
+};
+
+// Manifests and blobs of every version of a repository, by digest
+interface RepositoryIndex {
+  manifests: Map<string, OciImage>;
+  blobs: Map<string, OciBlob>;
+  complete: boolean; // false when a version failed to build
+  builtAt: number;
+}
+
+// Keyed by the stored content of all versions, so a push or delete starts a new index
+const repositoryIndexes = new Map<string, Promise<RepositoryIndex>>();
+
+const buildRepositoryIndex = async (versions: DockerImage[]): Promise<RepositoryIndex> => {
+  const index: RepositoryIndex = { manifests: new Map(), blobs: new Map(), complete: true, builtAt: Date.now() };
+  // Newest first, so a digest shared by several versions resolves to the newest one
+  for (const image of [...versions].reverse()) {
+    const oci = await loadOciImage(image).catch(() => null);
+    if (!oci) {
+      index.complete = false;
+      continue;
+    }
+    if (!index.manifests.has(oci.digest)) index.manifests.set(oci.digest, oci);
+    for (const [digest, blob] of oci.blobs) {
+      if (!index.blobs.has(digest)) index.blobs.set(digest, blob);
+    }
+  }
+  return index;
+};
+
+/**
+ * Digest lookup for a repository, built once per set of versions; unknown digests are then answered without
+ * reading anything from Walrus. An index missing failed versions is rebuilt after failedBuildRetryMs.
+ */
+const indexRepository = async (versions: DockerImage[]): Promise<RepositoryIndex> => {
+  const key = versions.map(storedKey).join('\n\n');
+  const cached = repositoryIndexes.get(key);
+  if (cached) {
+    const index = await cached;
+    if (index.complete || Date.now() - index.builtAt < OCI_CONFIG.failedBuildRetryMs) return index;
+  }
+  const indexed = buildRepositoryIndex(versions);
+  remember(repositoryIndexes, key, indexed, OCI_CONFIG.maxCachedRepositories);
+  return indexed;
+};
+
+const assertDigest = (digest: string) => {
+  if (!digest.startsWith('sha256:') || !isValidDigest(digest)) {
+    throw new OciRegistryError('DIGEST_INVALID', `unsupported digest: ${digest}`, 400);
+  }
+};
+
+/**
+ * Resolves a tag, version or manifest digest of a repository to its OCI image
+ */
+export const resolveManifest = async (repository: OciRepository, reference: string): Promise<OciImage> => {
+  const { versions, tags } = await lookup(repository);
+
+  if (reference.includes(':')) {
+    assertDigest(reference);
+    const oci = (await indexRepository(versions)).manifests.get(normalizeDigest(reference));
+    if (oci) return oci;
+    throw new OciRegistryError('MANIFEST_UNKNOWN', `manifest not found: ${reference}`, 404);
+  }
+
+  const version = tags.find(tag => tag.tag === reference)?.version ?? reference;
+  const image = versions.find(candidate => candidate.version === version);
+  if (!image) {
+    throw new OciRegistryError('MANIFEST_UNKNOWN', `${repository.imageName}:${reference} not found`, 404);
+  }
+  return loadOciImage(image);
+};
+
+/**
+ * Finds a config or layer blob of a repository by digest
+ */
+export const resolveBlob = async (repository: OciRepository, digest: string): Promise<OciBlob> => {
+  assertDigest(digest);
+  const normalized = normalizeDigest(digest);
+  const { versions } = await lookup(repository);
+
+  const blob = (await indexRepository(versions)).blobs.get(normalized);
+  if (blob) return blob;
+  throw new OciRegistryError('BLOB_UNKNOWN', `blob not found: ${digest}`, 404);
+};
@@ -0,0 +1,578 @@
+// Binary-safe project archives (tar.gz and zip) built in the browser
+// Entries keep their exact bytes, relative paths, permission bits and symlinks. extractProjectArchive is
+// the matching reader for the build side and also understands the legacy JSON folder format.
+
+import { paddedSize, parseTarEntries, readString, tarHeaderChecksum } from './docker-image-tar';
+
+export type ArchiveFormat = 'tar.gz' | 'zip';
+export type ArchiveEntryType = 'file' | 'directory' | 'symlink' | 'hardlink';
+
+export interface ArchiveEntryInput {
+  path: string;
+  type?: ArchiveEntryType; // Defaults to 'file'
+  data?: Blob;
+  mode?: number; // Permission bits, e.g. 0o755
+  mtime?: number; // ms since epoch
+  linkTarget?: string; // Required for symlinks and hardlinks
+}
+
+export interface ArchiveEntry {
+  path: string; // Normalized: relative, '/'-separated, no '.' or '..' segments
+  type: ArchiveEntryType;
+  mode: number;
+  mtime: number;
+  size: number;
+  data: Blob; // Empty for everything but files
+  linkTarget?: string; // Symlink targets are returned as stored; resolve them inside the extraction root
+}
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  'tar.gz': 'application/gzip',
+  zip: 'application/zip'
+};
+
+const HEADER_SIZE = 512;
+const FILE_MODE = 0o644;
+const EXECUTABLE_MODE = 0o755;
+const DIRECTORY_MODE = 0o755;
+const SYMLINK_MODE = 0o777;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Makes an archive path relative and rejects '..' so entries can't escape the extraction directory
+ */
+export const normalizeArchivePath = (path: string): string => {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      throw new Error(`Unsafe archive path: ${path}`);
+    }
+    segments.push(segment);
+  }
+  if (segments.length === 0) {
+    throw new Error(`Empty archive path: ${path}`);
+  }
+  return segments.join('/');
+};
+
+// Browsers don't expose permissions or symlinks of selected files, so scripts are detected by
+// extension or shebang. Callers that know the real metadata pass mode/type themselves.
+const isExecutable = async (file: File): Promise<boolean> => {
+  if (/\.(sh|bash|command)$/i.test(file.name)) return true;
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  return head[0] === 0x23 && head[1] === 0x21; // "#!"
+};
+
+/**
+ * Archive entries for files picked with a folder input (paths come from webkitRelativePath)
+ */
+export const collectArchiveEntries = async (files: File[]): Promise<ArchiveEntryInput[]> => {
+  const entries: ArchiveEntryInput[] = [];
+  for (const file of files) {
+    entries.push({
+      path: file.webkitRelativePath || file.name,
+      data: file,
+      mtime: file.lastModified,
+      mode: (await isExecutable(file)) ? EXECUTABLE_MODE : FILE_MODE
+    });
+  }
+  return entries;
+};
+
+// Normalizes paths, fills in defaults and adds parent directories ahead of their contents
+const prepareEntries = (inputs: ArchiveEntryInput[]): ArchiveEntry[] => {
+  const entries: ArchiveEntry[] = [];
+  const directories = new Map<string, ArchiveEntry>();
+
+  const addDirectory = (path: string, mtime: number, mode?: number) => {
+    const existing = directories.get(path);
+    if (existing) {
+      if (mode !== undefined) existing.mode = mode;
+      return;
+    }
+    const entry: ArchiveEntry = { path, type: 'directory', mode: mode ?? DIRECTORY_MODE, mtime, size: 0, data: new Blob([]) };
+    directories.set(path, entry);
+    entries.push(entry);
+  };
+
+  for (const input of inputs) {
+    const path = normalizeArchivePath(input.path);
+    const type = input.type ?? 'file';
+    const mtime = input.mtime ?? Date.now();
+
+    const segments = path.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      addDirectory(segments.slice(0, i).join('/'), mtime);
+    }
+
+    if (type === 'directory') {
+      addDirectory(path, mtime, input.mode);
+      continue;
+    }
+    if (type !== 'file' && !input.linkTarget) {
+      throw new Error(`Missing link target for ${path}`);
+    }
+
+    const data = type === 'file' ? input.data ?? new Blob([]) : new Blob([]);
+    entries.push({
+      path,
+      type,
+      mode: input.mode ?? (type === 'symlink' ? SYMLINK_MODE : FILE_MODE),
+      mtime,
+      size: data.size,
+      data,
+      linkTarget: type === 'hardlink' ? normalizeArchivePath(input.linkTarget as string) : input.linkTarget
+    });
+  }
+
+  return entries;
+};
+
+const compressBlob = (data: Blob, format: 'gzip' | 'deflate-raw'): Promise<Blob> =>
+  new Response(data.stream().pipeThrough(new CompressionStream(format))).blob();
+
+const decompressBlob = (data: Blob, format: 'gzip' | 'deflate-raw'): Promise<Blob> =>
+  new Response(data.stream().pipeThrough(new DecompressionStream(format))).blob();
+
+// ---------------------------------------------------------------------------
+// tar.gz
+
+const TAR_TYPEFLAGS: Record<ArchiveEntryType, string> = {
+  file: '0',
+  hardlink: '1',
+  symlink: '2',
+  directory: '5'
+};
+
+const TAR_ENTRY_TYPES: Record<string, ArchiveEntryType> = {
+  '0': 'file',
+  '7': 'file',
+  '1': 'hardlink',
+  '2': 'symlink',
+  '5': 'directory'
+};
+
+const MAX_OCTAL_SIZE = 0o77777777777; // 11 octal digits; larger sizes use base-256
+
+const writeString = (header: Uint8Array, value: string, offset: number, length: number) => {
+  header.set(textEncoder.encode(value).subarray(0, length), offset);
+};
+
+// Zero-padded octal followed by a NUL
+const writeOctal = (header: Uint8Array, value: number, offset: number, length: number) => {
+  writeString(header, value.toString(8).padStart(length - 1, '0'), offset, length - 1);
+};
+
+const writeSize = (header: Uint8Array, size: number) => {
+  if (size <= MAX_OCTAL_SIZE) {
+    writeOctal(header, size, 124, 12);
+    return;
+  }
+  header[124] = 0x80;
+  for (let i = 135, value = size; i > 124; i--, value = Math.floor(value / 256)) {
+    header[i] = value % 256;
+  }
+};
+
+const byteLength = (value: string): number => textEncoder.encode(value).length;
+
+// ustar fits long paths by splitting them into prefix (155 bytes) and name (100 bytes) at a '/'
+const splitUstarPath = (path: string): { name: string; prefix: string } | null => {
+  if (byteLength(path) <= 100) return { name: path, prefix: '' };
+
+  for (let i = path.lastIndexOf('/'); i > 0; i = path.lastIndexOf('/', i - 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (name && byteLength(name) <= 100 && byteLength(prefix) <= 155) {
+      return { name, prefix };
+    }
+  }
+  return null;
+};
+
+// The record length counts its own digits, so iterate until it is stable
+const paxRecord = (key: string, value: string): string => {
+  const bodyLength = byteLength(` ${key}=${value}\n`);
+  let length = bodyLength;
+  while (length !== bodyLength + String(length).length) {
+    length = bodyLength + String(length).length;
+  }
+  return `${length} ${key}=${value}\n`;
+};
+
+export const buildTarHeader = (fields: {
+  path: string;
+  typeflag: string;
+  mode: number;
+  size: number;
+  mtime: number;
+  linkTarget?: string;
+}): Uint8Array<ArrayBuffer> => {
+  const header = new Uint8Array(HEADER_SIZE);
+  // Paths that don't fit are truncated here and carried in full by a PAX header
+  const { name, prefix } = splitUstarPath(fields.path) ?? { name: fields.path, prefix: '' };
+
+  writeString(header, name, 0, 100);
+  writeOctal(header, fields.mode & 0o7777, 100, 8);
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeSize(header, fields.size);
+  writeOctal(header, Math.floor(fields.mtime / 1000), 136, 12);
+  writeString(header, fields.typeflag, 156, 1);
+  writeString(header, fields.linkTarget ?? '', 157, 100);
+  writeString(header, 'ustar\0', 257, 6);
+  writeString(header, '00', 263, 2);
+  writeString(header, prefix, 345, 155);
+  writeString(header, `${tarHeaderChecksum(header).toString(8).padStart(6, '0')}\0 `, 148, 8);
+
+  return header;
+};
+
+const tarEntryParts = (entry: ArchiveEntry): BlobPart[] => {
+  const path = entry.type === 'directory' ? `${entry.path}/` : entry.path;
+  const parts: BlobPart[] = [];
+
+  const paxRecords: string[] = [];
+  if (!splitUstarPath(path)) paxRecords.push(paxRecord('path', path));
+  if (entry.linkTarget && byteLength(entry.linkTarget) > 100) paxRecords.push(paxRecord('linkpath', entry.linkTarget));
+
+  if (paxRecords.length > 0) {
+    const paxData = textEncoder.encode(paxRecords.join(''));
+    parts.push(
+      buildTarHeader({ path: 'PaxHeader', typeflag: 'x', mode: FILE_MODE, size: paxData.length, mtime: entry.mtime }),
+      paxData,
+      new Uint8Array(paddedSize(paxData.length) - paxData.length)
+    );
+  }
+
+  parts.push(buildTarHeader({
+    path,
+    typeflag: TAR_TYPEFLAGS[entry.type],
+    mode: entry.mode,
+    size: entry.size,
+    mtime: entry.mtime,
+    linkTarget: entry.linkTarget
+  }));
+  if (entry.size > 0) {
+    parts.push(entry.data, new Uint8Array(paddedSize(entry.size) - entry.size));
+  }
+
+  return parts;
+};
+
+const createTarGzArchive = async (entries: ArchiveEntry[]): Promise<Blob> => {
+  // File contents stay as Blob references; only headers are built in memory
+  const tar = new Blob([...entries.flatMap(tarEntryParts), new Uint8Array(2 * HEADER_SIZE)]);
+  return compressBlob(tar, 'gzip');
+};
+
+const extractTar = async (tar: Blob): Promise<ArchiveEntry[]> => {
+  const entries: ArchiveEntry[] = [];
+
+  for (const entry of await parseTarEntries(tar)) {
+    const type = TAR_ENTRY_TYPES[entry.typeflag];
+    if (!type) continue; // PAX/GNU metadata and device entries
+
+    entries.push({
+      path: normalizeArchivePath(entry.path),
+      type,
+      mode: parseInt(readString(entry.header, 100, 8).trim() || '0', 8) & 0o7777,
+      mtime: parseInt(readString(entry.header, 136, 12).trim() || '0', 8) * 1000,
+      size: type === 'file' ? entry.size : 0,
+      data: type === 'file' ? entry.data : new Blob([]),
+      linkTarget: type === 'hardlink' && entry.linkTarget
+        ? normalizeArchivePath(entry.linkTarget)
+        : type === 'symlink' ? entry.linkTarget : undefined
+    });
+  }
+
+  return entries;
+};
+
+// ---------------------------------------------------------------------------
+// zip
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_MAX_VALUE = 0xffffffff; // Larger archives need ZIP64, which isn't supported
+const ZIP_MAX_ENTRIES = 0xffff;
+const ZIP_UTF8_FLAG = 0x0800;
+const ZIP_UNIX_HOST = 3;
+
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (mtime: number): { date: number; time: number } => {
+  const d = new Date(mtime);
+  const year = Math.min(Math.max(d.getFullYear(), 1980), 2107);
+  return {
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1)
+  };
+};
+
+const fromDosDateTime = (date: number, time: number): number =>
+  new Date(
+    (date >> 9) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f,
+    time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2
+  ).getTime();
+
+const createZipArchive = async (entries: ArchiveEntry[]): Promise<Blob> => {
+  if (entries.length > ZIP_MAX_ENTRIES) {
+    throw new Error(`Too many files for zip (${entries.length}); use tar.gz`);
+  }
+
+  const localParts: BlobPart[] = [];
+  const centralParts: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    if (entry.type === 'hardlink') {
+      throw new Error(`zip archives cannot contain hard links (${entry.path}); use tar.gz`);
+    }
+
+    const name = textEncoder.encode(entry.type === 'directory' ? `${entry.path}/` : entry.path);
+    // Symlinks store their target as content, like Info-ZIP does
+    const raw: Uint8Array<ArrayBuffer> = entry.type === 'file'
+      ? new Uint8Array(await entry.data.arrayBuffer())
+      : textEncoder.encode(entry.type === 'symlink' ? entry.linkTarget ?? '' : '');
+    const crc = crc32(raw);
+
+    let method = 0;
+    let stored: Uint8Array<ArrayBuffer> = raw;
+    if (raw.length > 0) {
+      const deflated = new Uint8Array(await (await compressBlob(new Blob([raw]), 'deflate-raw')).arrayBuffer());
+      if (deflated.length < raw.length) {
+        method = 8;
+        stored = deflated;
+      }
+    }
+    if (raw.length > ZIP_MAX_VALUE || offset + 30 + name.length + stored.length > ZIP_MAX_VALUE) {
+      throw new Error('Archive too large for zip (ZIP64 is not supported); use tar.gz');
+    }
+
+    const { date, time } = toDosDateTime(entry.mtime);
+    const fileType = entry.type === 'directory' ? S_IFDIR : entry.type === 'symlink' ? S_IFLNK : S_IFREG;
+    const externalAttributes = (fileType | entry.mode) * 0x10000 + (entry.type === 'directory' ? 0x10 : 0);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, ZIP_LOCAL_HEADER, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, ZIP_UTF8_FLAG, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, stored.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // extra field length
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, ZIP_CENTRAL_HEADER, true);
+    central.setUint16(4, (ZIP_UNIX_HOST << 8) | 20, true); // made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, ZIP_UTF8_FLAG, true);
+    central.setUint16(10, method, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, stored.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(38, externalAttributes, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, stored);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + stored.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, ZIP_END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+};
+
+const extractZip = async (zip: Blob): Promise<ArchiveEntry[]> => {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+  const tailStart = Math.max(0, zip.size - 22 - 0xffff);
+  const tail = new DataView(await zip.slice(tailStart).arrayBuffer());
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Invalid zip archive: end of central directory not found');
+  }
+
+  const entryCount = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  if (entryCount === 0xffff || centralOffset === ZIP_MAX_VALUE) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const central = new DataView(await zip.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const entries: ArchiveEntry[] = [];
+  let position = 0;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (central.getUint32(position, true) !== ZIP_CENTRAL_HEADER) {
+      throw new Error(`Invalid zip central directory entry ${index}`);
+    }
+
+    const host = central.getUint16(position + 4, true) >> 8;
+    const flags = central.getUint16(position + 8, true);
+    const method = central.getUint16(position + 10, true);
+    const time = central.getUint16(position + 12, true);
+    const date = central.getUint16(position + 14, true);
+    const crc = central.getUint32(position + 16, true);
+    const compressedSize = central.getUint32(position + 20, true);
+    const size = central.getUint32(position + 24, true);
+    const nameLength = central.getUint16(position + 28, true);
+    const extraLength = central.getUint16(position + 30, true);
+    const commentLength = central.getUint16(position + 32, true);
+    const externalAttributes = central.getUint32(position + 38, true);
+    const localOffset = central.getUint32(position + 42, true);
+    const rawName = textDecoder.decode(new Uint8Array(central.buffer, position + 46, nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported (${rawName})`);
+    }
+    if (compressedSize === ZIP_MAX_VALUE || size === ZIP_MAX_VALUE || localOffset === ZIP_MAX_VALUE) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    const unixMode = host === ZIP_UNIX_HOST ? externalAttributes >>> 16 : 0;
+    const type: ArchiveEntryType = (unixMode & S_IFMT) === S_IFLNK
+      ? 'symlink'
+      : (unixMode & S_IFMT) === S_IFDIR || rawName.endsWith('/') ? 'directory' : 'file';
+
+    const local = new DataView(await zip.slice(localOffset, localOffset + 30).arrayBuffer());
+    if (local.getUint32(0, true) !== ZIP_LOCAL_HEADER) {
+      throw new Error(`Invalid zip local header for ${rawName}`);
+    }
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    const compressed = zip.slice(dataStart, dataStart + compressedSize);
+
+    let data: Blob;
+    if (method === 0) {
+      data = compressed;
+    } else if (method === 8) {
+      data = await decompressBlob(compressed, 'deflate-raw');
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} (${rawName})`);
+    }
+
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    if (bytes.length !== size || crc32(bytes) !== crc) {
+      throw new Error(`Corrupted zip entry: ${rawName}`);
+    }
+
+    const defaultMode = type === 'directory' ? DIRECTORY_MODE : type === 'symlink' ? SYMLINK_MODE : FILE_MODE;
+    entries.push({
+      path: normalizeArchivePath(rawName),
+      type,
+      mode: unixMode & 0o7777 || defaultMode,
+      mtime: fromDosDateTime(date, time),
+      size: type === 'file' ? size : 0,
+      data: type === 'file' ? data : new Blob([]),
+      linkTarget: type === 'symlink' ? textDecoder.decode(bytes) : undefined
+    });
+  }
+
+  return entries;
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+
+/**
+ * Packs entries into a tar.gz or zip archive. Large files are read lazily for tar.gz; zip needs each
+ * file in memory once to compute its CRC.
+ */
+export const createProjectArchive = async (
+  inputs: ArchiveEntryInput[],
+  format: ArchiveFormat = 'tar.gz'
+): Promise<Blob> => {
+  const entries = prepareEntries(inputs);
+  const archive = format === 'zip' ? await createZipArchive(entries) : await createTarGzArchive(entries);
+  return new Blob([archive], { type: ARCHIVE_CONTENT_TYPES[format] });
+};
+
+export const detectArchiveFormat = async (data: Blob): Promise<ArchiveFormat | 'tar' | 'legacy-json' | null> => {
+  const head = new Uint8Array(await data.slice(0, HEADER_SIZE).arrayBuffer());
+  if (head[0] === 0x1f && head[1] === 0x8b) return 'tar.gz';
+  if (head[0] === 0x50 && head[1] === 0x4b && (head[2] === 0x03 || head[2] === 0x05)) return 'zip';
+  if (head.length === HEADER_SIZE && readString(head, 257, 5) === 'ustar') return 'tar';
+  if (textDecoder.decode(head.subarray(0, 16)).trimStart().startsWith('{')) return 'legacy-json';
+  return null;
+};
+
+// Folder uploads made before archives existed: a JSON document with text file contents
+const extractLegacyJson = async (data: Blob): Promise<ArchiveEntry[]> => {
+  const project = JSON.parse(await data.text()) as { files?: Array<{ path: string; content: string }> };
+  if (!Array.isArray(project.files)) {
+    throw new Error('Unsupported archive format');
+  }
+  return prepareEntries(project.files.map(file => ({
+    path: file.path,
+    data: new Blob([file.content])
+  })));
+};
+
+/**
+ * Lists the entries of a tar, tar.gz, zip or legacy JSON project upload
+ */
+export const extractProjectArchive = async (data: Blob | Uint8Array): Promise<ArchiveEntry[]> => {
+  const blob = data instanceof Blob ? data : new Blob([data as Uint8Array<ArrayBuffer>]);
+
+  switch (await detectArchiveFormat(blob)) {
+    case 'tar.gz':
+      return extractTar(await decompressBlob(blob, 'gzip'));
+    case 'tar':
+      return extractTar(blob);
+    case 'zip':
+      return extractZip(blob);
+    case 'legacy-json':
+      return extractLegacyJson(blob);
+    default:
+      throw new Error('Unsupported archive format');
+  }
+};
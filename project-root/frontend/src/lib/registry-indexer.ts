@@ -0,0 +1,318 @@
+// Event-sourced local index of the docker_registry
+// Every docker_registry event is replayed in order (queryEvents backfill, then a live subscription with
+// polling as fallback) into an IndexedDB store, so the UI can filter images without scanning the shared object.
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { EventId } from '@mysten/sui/client';
+import { createRecordStore } from './idb-store';
+import {
+  DEFAULT_REGISTRY_CONFIG,
+  REGISTRY_PAGE_SIZE,
+  getDockerRegistryClient,
+  type DockerImage,
+  type DockerRegistryClient,
+  type RegistryConfig,
+  type RegistryEvent,
+  type RegistryPage,
+  type UploadType
+} from './docker-registry';
+
+export interface IndexedImage extends DockerImage {
+  key: string; // owner:imageName:version
+  owner: string;
+  tags: string[];
+}
+
+export interface RegistryIndexQuery {
+  owner?: string;
+  imageName?: string; // Case-insensitive substring
+  minSize?: number;
+  maxSize?: number;
+  // Images whose minimum requirements fit within these limits (e.g. a provider's hardware)
+  maxCpuCores?: number;
+  maxMemoryGb?: number;
+  maxStorageGb?: number;
+  minPricePerHour?: number;
+  since?: number; // Registration time (ms)
+  until?: number;
+}
+
+export type RegistryIndexSort = 'oldest' | 'newest' | 'size' | 'price';
+
+export type RegistryIndexStatus = 'idle' | 'syncing' | 'live' | 'polling' | 'error';
+
+interface IndexCursor {
+  id: string; // packageId; a new package starts a new index
+  cursor: EventId | null;
+  updatedAt: number;
+}
+
+export const INDEXER_CONFIG = {
+  pollIntervalMs: 15_000,
+  eventPageSize: REGISTRY_PAGE_SIZE
+};
+
+const imageStore = createRecordStore<IndexedImage & { packageId: string }>({
+  dbName: 'daas-registry-index',
+  storeName: 'images',
+  keyPath: 'key',
+  keyOf: record => record.key,
+  label: '레지스트리 인덱스'
+});
+
+const cursorStore = createRecordStore<IndexCursor>({
+  dbName: 'daas-registry-index-cursor',
+  storeName: 'cursors',
+  keyPath: 'id',
+  keyOf: record => record.id,
+  label: '레지스트리 인덱스 커서'
+});
+
+const imageKey = (owner: string, imageName: string, version: string) =>
+  `${normalizeSuiAddress(owner)}:${imageName}:${version}`;
+
+const matches = (image: IndexedImage, query: RegistryIndexQuery): boolean =>
+  (!query.owner || image.owner === normalizeSuiAddress(query.owner)) &&
+  (!query.imageName || image.imageName.toLowerCase().includes(query.imageName.toLowerCase())) &&
+  (query.minSize === undefined || image.size >= query.minSize) &&
+  (query.maxSize === undefined || image.size <= query.maxSize) &&
+  (query.maxCpuCores === undefined || image.requirements.minCpuCores <= query.maxCpuCores) &&
+  (query.maxMemoryGb === undefined || image.requirements.minMemoryGb <= query.maxMemoryGb) &&
+  (query.maxStorageGb === undefined || image.requirements.minStorageGb <= query.maxStorageGb) &&
+  (query.minPricePerHour === undefined || image.requirements.maxPricePerHour >= query.minPricePerHour) &&
+  (query.since === undefined || image.timestamp >= query.since) &&
+  (query.until === undefined || image.timestamp <= query.until);
+
+const COMPARATORS: Record<RegistryIndexSort, (a: IndexedImage, b: IndexedImage) => number> = {
+  oldest: (a, b) => a.timestamp - b.timestamp,
+  newest: (a, b) => b.timestamp - a.timestamp,
+  size: (a, b) => b.size - a.size,
+  price: (a, b) => b.requirements.maxPricePerHour - a.requirements.maxPricePerHour
+};
+
+export class RegistryIndexer {
+  private registry: DockerRegistryClient;
+  private packageId: string;
+  private status: RegistryIndexStatus = 'idle';
+  private syncing: Promise<void> | null = null;
+  private resyncRequested = false;
+  private unsubscribe: (() => Promise<boolean>) | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<(status: RegistryIndexStatus) => void>();
+
+  constructor(registry: DockerRegistryClient, config: RegistryConfig = DEFAULT_REGISTRY_CONFIG) {
+    this.registry = registry;
+    this.packageId = config.packageId;
+  }
+
+  getStatus(): RegistryIndexStatus {
+    return this.status;
+  }
+
+  /**
+   * Notified after every applied batch of events and on status changes; returns an unsubscribe function
+   */
+  subscribe(listener: (status: RegistryIndexStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: RegistryIndexStatus): void {
+    this.status = status;
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  /**
+   * Backfills missed events, then follows new ones. Safe to call repeatedly.
+   */
+  async start(): Promise<void> {
+    await this.sync();
+    if (this.unsubscribe || this.pollTimer) return;
+
+    try {
+      // Subscription messages only signal that something changed; sync() reads from the cursor so nothing is skipped
+      this.unsubscribe = await this.registry.subscribeToImageEvents(() => {
+        this.sync().catch(error => console.warn('⚠️ 레지스트리 인덱스 동기화 실패:', error));
+      });
+      this.setStatus('live');
+    } catch (error) {
+      console.warn('⚠️ 이벤트 구독 불가, 폴링으로 전환:', error);
+      this.pollTimer = setInterval(() => {
+        this.sync().catch(pollError => console.warn('⚠️ 레지스트리 인덱스 동기화 실패:', pollError));
+      }, INDEXER_CONFIG.pollIntervalMs);
+      this.setStatus('polling');
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+    await this.unsubscribe?.().catch(() => false);
+    this.unsubscribe = null;
+    this.setStatus('idle');
+  }
+
+  /**
+   * Applies every event after the stored cursor; concurrent calls share one run
+   */
+  sync(): Promise<void> {
+    if (this.syncing) {
+      this.resyncRequested = true;
+      return this.syncing;
+    }
+    this.syncing = (async () => {
+      const following = this.status === 'live' || this.status === 'polling';
+      if (!following) this.setStatus('syncing');
+      try {
+        do {
+          this.resyncRequested = false;
+          await this.drain();
+        } while (this.resyncRequested);
+        if (!following) this.setStatus('idle');
+      } catch (error) {
+        this.setStatus('error');
+        throw error;
+      } finally {
+        this.syncing = null;
+      }
+    })();
+    return this.syncing;
+  }
+
+  private async drain(): Promise<void> {
+    let cursor = (await cursorStore.get(this.packageId))?.cursor ?? null;
+    let applied = 0;
+    for (;;) {
+      const page = await this.registry.queryEvents(cursor, INDEXER_CONFIG.eventPageSize);
+      for (const event of page.events) {
+        await this.apply(event);
+      }
+      applied += page.events.length;
+      cursor = page.nextCursor;
+      // Saved per page, so an interrupted backfill resumes where it stopped
+      await cursorStore.put({ id: this.packageId, cursor, updatedAt: Date.now() });
+      if (!page.hasNextPage) break;
+    }
+    if (applied > 0) {
+      console.log(`📇 레지스트리 인덱스: 이벤트 ${applied}개 반영`);
+      this.listeners.forEach(listener => listener(this.status));
+    }
+  }
+
+  private async apply(event: RegistryEvent): Promise<void> {
+    const owner = normalizeSuiAddress(event.data.owner);
+    switch (event.type) {
+      case 'ImageRegisteredEvent': {
+        const { data } = event;
+        await imageStore.put({
+          packageId: this.packageId,
+          key: imageKey(owner, data.image_name, data.version),
+          id: Number(data.id),
+          owner,
+          downloadUrls: data.urls,
+          primaryUrlIndex: 0,
+          imageName: data.image_name,
+          version: data.version,
+          size: Number(data.size),
+          contentDigest: data.content_digest,
+          timestamp: Number(data.timestamp),
+          uploadType: data.upload_type as UploadType,
+          requirements: {
+            minCpuCores: data.requirements.min_cpu_cores,
+            minMemoryGb: data.requirements.min_memory_gb,
+            minStorageGb: data.requirements.min_storage_gb,
+            maxPricePerHour: Number(data.requirements.max_price_per_hour)
+          },
+          tags: []
+        });
+        return;
+      }
+      case 'ImageBlobRotatedEvent': {
+        const { data } = event;
+        await this.update(imageKey(owner, data.image_name, data.version), image => ({
+          ...image,
+          downloadUrls: data.urls,
+          primaryUrlIndex: 0,
+          size: Number(data.size),
+          contentDigest: data.new_content_digest
+        }));
+        return;
+      }
+      case 'ImageMirrorsUpdatedEvent': {
+        const { data } = event;
+        await this.update(imageKey(owner, data.image_name, data.version), image => ({
+          ...image,
+          downloadUrls: data.urls,
+          primaryUrlIndex: Number(data.primary_url_index)
+        }));
+        return;
+      }
+      case 'ImageTaggedEvent': {
+        const { data } = event;
+        if (data.previous_version) {
+          await this.update(imageKey(owner, data.image_name, data.previous_version), image => ({
+            ...image,
+            tags: image.tags.filter(tag => tag !== data.tag)
+          }));
+        }
+        await this.update(imageKey(owner, data.image_name, data.version), image => ({
+          ...image,
+          tags: [...new Set([...image.tags, data.tag])]
+        }));
+        return;
+      }
+      case 'ImageUntaggedEvent': {
+        const { data } = event;
+        await this.update(imageKey(owner, data.image_name, data.version), image => ({
+          ...image,
+          tags: image.tags.filter(tag => tag !== data.tag)
+        }));
+        return;
+      }
+      case 'ImageDeleted':
+        await imageStore.delete(imageKey(owner, event.data.image_name, event.data.version));
+        return;
+    }
+  }
+
+  // Events for images registered before the index existed (or before an upgrade) are ignored
+  private async update(key: string, change: (image: IndexedImage) => IndexedImage): Promise<void> {
+    const image = await imageStore.get(key);
+    if (image) await imageStore.put({ ...change(image), packageId: image.packageId });
+  }
+
+  /**
+   * Filters and sorts the local index; no RPC calls
+   */
+  async query(query: RegistryIndexQuery = {}, sort: RegistryIndexSort = 'oldest'): Promise<IndexedImage[]> {
+    const images = await imageStore.getAll();
+    return images
+      .filter(image => image.packageId === this.packageId && matches(image, query))
+      .sort(COMPARATORS[sort]);
+  }
+
+  /**
+   * Same page shape as DockerRegistryClient.iterateImagePages, read from the local index
+   */
+  async *iterateImagePages(
+    query: RegistryIndexQuery = {},
+    sort: RegistryIndexSort = 'oldest',
+    pageSize = REGISTRY_PAGE_SIZE
+  ): AsyncGenerator<RegistryPage> {
+    const images = await this.query(query, sort);
+    for (let offset = 0; offset < images.length; offset += pageSize) {
+      const end = Math.min(offset + pageSize, images.length);
+      yield { images: images.slice(offset, end), cursor: offset, nextCursor: end < images.length ? end : null };
+    }
+  }
+}
+
+let indexer: RegistryIndexer | null = null;
+
+// Shared indexer on the configured registry
+export const getRegistryIndexer = (): RegistryIndexer => {
+  indexer ??= new RegistryIndexer(getDockerRegistryClient());
+  return indexer;
+};
@@ -0,0 +1,252 @@
+// Seal backup keys: escrow and offline recovery
+// encrypt() returns the symmetric (DEM) key of each ciphertext. Whoever holds it can decrypt without key
+// servers, so it is only kept when the user opts in: as a passphrase-protected file and/or wallet-encrypted
+// in this browser. The file format matches createBackupKeyFile in seal/index.ts.
+
+import { EncryptedObject } from '@mysten/seal';
+import { fromBase64, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { createRecordStore } from './idb-store';
+import type { SealEnvelope, SignPersonalMessage } from './seal-client';
+
+export interface SealBackupKeyFile {
+  type: 'daas-seal-backup-key';
+  version: 1;
+  sealId: string;
+  packageId: string;
+  threshold: number;
+  blobId?: string;
+  label?: string;
+  createdAt: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  iv: string;
+  ciphertext: string; // AES-GCM encrypted backup key (base64)
+}
+
+export interface SealBackupKey {
+  key: Uint8Array;
+  envelope: SealEnvelope;
+  blobId?: string;
+  label?: string;
+}
+
+// Escrowed keys are encrypted with a key derived from a wallet signature, so only that wallet can read them
+export interface EscrowedBackupKey {
+  sealId: string;
+  owner: string;
+  packageId: string;
+  threshold: number;
+  blobId?: string;
+  label?: string;
+  iv: string;
+  ciphertext: string;
+  createdAt: number;
+}
+
+export const BACKUP_CONFIG = {
+  pbkdf2Iterations: 310_000,
+  escrowMessage: 'DAAS-Vader Seal backup key escrow v1'
+};
+
+// Seal's AES-256-GCM DEM always uses this IV (keys are never reused); see @mysten/seal dem.ts
+const SEAL_DEM_IV = Uint8Array.from([138, 55, 153, 253, 198, 46, 121, 219, 160, 128, 89, 7, 214, 156, 148, 220]);
+
+const escrowStore = createRecordStore<EscrowedBackupKey>({
+  dbName: 'daas-seal-backup-keys',
+  storeName: 'keys',
+  keyPath: 'sealId',
+  keyOf: record => record.sealId,
+  label: 'Seal 백업 키'
+});
+
+const aesEncrypt = async (key: CryptoKey, data: Uint8Array): Promise<{ iv: string; ciphertext: string }> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data as Uint8Array<ArrayBuffer>));
+  return { iv: toBase64(iv), ciphertext: toBase64(ciphertext) };
+};
+
+const aesDecrypt = async (key: CryptoKey, iv: string, ciphertext: string): Promise<Uint8Array> =>
+  new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv) as Uint8Array<ArrayBuffer> },
+      key,
+      fromBase64(ciphertext) as Uint8Array<ArrayBuffer>
+    )
+  );
+
+const derivePassphraseKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as Uint8Array<ArrayBuffer>, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Wraps a backup key in a passphrase-protected JSON file (PBKDF2-SHA256 → AES-256-GCM)
+ */
+export const createBackupKeyFile = async (backup: SealBackupKey, passphrase: string): Promise<SealBackupKeyFile> => {
+  if (passphrase.length < 8) {
+    throw new Error('패스프레이즈는 8자 이상이어야 합니다');
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await derivePassphraseKey(passphrase, salt, BACKUP_CONFIG.pbkdf2Iterations);
+  const { iv, ciphertext } = await aesEncrypt(key, backup.key);
+  return {
+    type: 'daas-seal-backup-key',
+    version: 1,
+    sealId: backup.envelope.id,
+    packageId: backup.envelope.packageId,
+    threshold: backup.envelope.threshold,
+    blobId: backup.blobId,
+    label: backup.label,
+    createdAt: Date.now(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: BACKUP_CONFIG.pbkdf2Iterations, salt: toBase64(salt) },
+    iv,
+    ciphertext
+  };
+};
+
+export const downloadBackupKeyFile = (file: SealBackupKeyFile): void => {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `seal-backup-${(file.blobId ?? file.sealId).slice(0, 16)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Reads a backup key file; a wrong passphrase fails the AES-GCM tag check
+ */
+export const openBackupKeyFile = async (contents: string, passphrase: string): Promise<SealBackupKey> => {
+  const file = JSON.parse(contents) as SealBackupKeyFile;
+  if (file.type !== 'daas-seal-backup-key' || file.version !== 1) {
+    throw new Error('Seal 백업 키 파일이 아닙니다');
+  }
+
+  const key = await derivePassphraseKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations);
+  let backupKey: Uint8Array;
+  try {
+    backupKey = await aesDecrypt(key, file.iv, file.ciphertext);
+  } catch {
+    throw new Error('패스프레이즈가 올바르지 않습니다');
+  }
+  return {
+    key: backupKey,
+    envelope: { id: file.sealId, packageId: file.packageId, threshold: file.threshold },
+    blobId: file.blobId,
+    label: file.label
+  };
+};
+
+// Two signatures per address and page load; the derived key never leaves memory
+const escrowKeys = new Map<string, Promise<CryptoKey>>();
+
+const getEscrowKey = (owner: string, signPersonalMessage: SignPersonalMessage): Promise<CryptoKey> => {
+  const address = normalizeSuiAddress(owner);
+  let pending = escrowKeys.get(address);
+  if (!pending) {
+    pending = (async () => {
+      // The key is only recoverable if the wallet signs the same message identically every time. Ed25519 does,
+      // but some wallets (randomized ECDSA, zkLogin, multisig) don't, and a key escrowed with them is lost.
+      const message = new TextEncoder().encode(`${BACKUP_CONFIG.escrowMessage}\n${address}`);
+      const { signature } = await signPersonalMessage({ message });
+      const { signature: repeated } = await signPersonalMessage({ message });
+      if (signature !== repeated) {
+        throw new Error('이 지갑은 서명이 매번 달라 백업 키를 지갑으로 보관할 수 없습니다. 패스프레이즈 파일로 내보내세요');
+      }
+      const material = await crypto.subtle.importKey('raw', fromBase64(signature) as Uint8Array<ArrayBuffer>, 'HKDF', false, ['deriveKey']);
+      return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new TextEncoder().encode(address), info: new TextEncoder().encode('seal-backup-escrow') },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+    })();
+    pending.catch(() => escrowKeys.delete(address));
+    escrowKeys.set(address, pending);
+  }
+  return pending;
+};
+
+/**
+ * Asks for the escrow signatures up front, so a wallet that cannot escrow fails before anything is encrypted
+ */
+export const prepareBackupEscrow = async (owner: string, signPersonalMessage: SignPersonalMessage): Promise<void> => {
+  await getEscrowKey(owner, signPersonalMessage);
+};
+
+/**
+ * Stores a backup key in this browser, encrypted so that only `owner`'s wallet can unlock it
+ */
+export const escrowBackupKey = async (
+  backup: SealBackupKey,
+  owner: string,
+  signPersonalMessage: SignPersonalMessage
+): Promise<EscrowedBackupKey> => {
+  const key = await getEscrowKey(owner, signPersonalMessage);
+  const record: EscrowedBackupKey = {
+    sealId: backup.envelope.id,
+    owner: normalizeSuiAddress(owner),
+    packageId: backup.envelope.packageId,
+    threshold: backup.envelope.threshold,
+    blobId: backup.blobId,
+    label: backup.label,
+    ...(await aesEncrypt(key, backup.key)),
+    createdAt: Date.now()
+  };
+  await escrowStore.put(record);
+  console.log('🔑 Seal 백업 키 보관:', backup.blobId ?? backup.envelope.id);
+  return record;
+};
+
+export const listEscrowedBackupKeys = async (owner: string): Promise<EscrowedBackupKey[]> => {
+  const records = await escrowStore.getAll();
+  return records
+    .filter(record => record.owner === normalizeSuiAddress(owner))
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const unlockEscrowedBackupKey = async (
+  record: EscrowedBackupKey,
+  signPersonalMessage: SignPersonalMessage
+): Promise<SealBackupKey> => {
+  const key = await getEscrowKey(record.owner, signPersonalMessage);
+  return {
+    key: await aesDecrypt(key, record.iv, record.ciphertext),
+    envelope: { id: record.sealId, packageId: record.packageId, threshold: record.threshold },
+    blobId: record.blobId,
+    label: record.label
+  };
+};
+
+export const deleteEscrowedBackupKey = (sealId: string): Promise<void> => escrowStore.delete(sealId);
+
+/**
+ * Decrypts a Seal ciphertext with its backup key, without key servers or an on-chain policy check
+ */
+export const decryptWithBackupKey = async (ciphertext: Uint8Array, backupKey: Uint8Array): Promise<Uint8Array> => {
+  const parsed = EncryptedObject.parse(ciphertext);
+  const dem = parsed.ciphertext;
+  if (!('Aes256Gcm' in dem) || !dem.Aes256Gcm) {
+    throw new Error('백업 키 복구는 AES-256-GCM 암호문만 지원합니다');
+  }
+
+  const key = await crypto.subtle.importKey('raw', backupKey as Uint8Array<ArrayBuffer>, 'AES-GCM', false, ['decrypt']);
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: SEAL_DEM_IV, additionalData: new Uint8Array(dem.Aes256Gcm.aad ?? []) },
+        key,
+        new Uint8Array(dem.Aes256Gcm.blob)
+      )
+    );
+  } catch {
+    throw new Error(`백업 키가 이 암호문(${parsed.id})과 맞지 않습니다`);
+  }
+};
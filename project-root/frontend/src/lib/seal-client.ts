@@ -0,0 +1,244 @@
+// Seal threshold encryption for blobs stored on Walrus
+// Data is encrypted client-side under an identity (owner address + nonce); key servers only release
+// decryption keys to callers whose seal_approve transaction passes the on-chain access policy.
+
+import { SealClient, SessionKey, EncryptedObject, type ExportedSessionKey, type KeyServerConfig } from '@mysten/seal';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { fromHex, toHex, normalizeSuiAddress } from '@mysten/sui/utils';
+import { createRecordStore } from './idb-store';
+import { PACKAGE_ID } from './docker-registry';
+import { uploadToWalrus, type WalrusUploadOptions, type WalrusUploadResult } from './walrus-client';
+
+// Mysten Labs testnet key servers (open mode)
+const DEFAULT_KEY_SERVERS = [
+  '0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75',
+  '0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8'
+];
+
+// "objectId[:weight]" entries separated by commas
+const parseKeyServers = (value: string | undefined): KeyServerConfig[] =>
+  (value || DEFAULT_KEY_SERVERS.join(','))
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [objectId, weight] = entry.split(':');
+      return { objectId, weight: Number(weight) || 1 };
+    });
+
+const keyServers = parseKeyServers(process.env.NEXT_PUBLIC_SEAL_KEY_SERVERS);
+
+export const SEAL_CONFIG = {
+  packageId: process.env.NEXT_PUBLIC_SEAL_PACKAGE_ID || PACKAGE_ID, // Package that defines seal_approve
+  policyModule: 'seal_policy',
+  keyServers,
+  threshold: Math.min(Number(process.env.NEXT_PUBLIC_SEAL_THRESHOLD) || 2, keyServers.length),
+  sessionTtlMin: 30,
+  verifyKeyServers: false,
+  nonceBytes: 5
+};
+
+// Stored next to the blob reference so readers know how to decrypt it
+export interface SealEnvelope {
+  id: string; // Hex identity the data was encrypted under
+  packageId: string;
+  threshold: number;
+}
+
+export type SealUploadResult = WalrusUploadResult & { seal?: SealEnvelope };
+
+// Symmetric key of one ciphertext; decrypts it without key servers (see seal-backup.ts)
+export interface SealBackupKeyInfo {
+  key: Uint8Array;
+  envelope: SealEnvelope;
+  blobId: string;
+}
+
+export interface SealUploadOptions extends WalrusUploadOptions {
+  sealId?: string; // Identity to encrypt under; defaults to a fresh owner-only identity
+  onBackupKey?: (backup: SealBackupKeyInfo) => void | Promise<void>; // Opt-in escrow; the key is dropped otherwise
+}
+
+// Adds the seal_approve* call that proves access to `id`; policies other than owner-only pass their own
+export type SealApproveBuilder = (tx: Transaction, id: string) => void;
+
+export type SignPersonalMessage = (input: { message: Uint8Array }) => Promise<{ signature: string }>;
+
+export interface SealServiceOptions {
+  address: string;
+  signPersonalMessage: SignPersonalMessage; // Wallet signature that activates the session key
+}
+
+export interface SealService {
+  readonly address: string;
+  isSessionActive: () => boolean;
+  ensureSession: () => Promise<SessionKey>;
+  encryptAndUpload: (data: Uint8Array, options?: SealUploadOptions) => Promise<SealUploadResult>;
+  decrypt: (ciphertext: Uint8Array, approve?: SealApproveBuilder) => Promise<Uint8Array>;
+}
+
+let suiClient: SuiClient | null = null;
+let sealClient: SealClient | null = null;
+
+export const getSuiClient = (): SuiClient => {
+  suiClient ??= new SuiClient({ url: process.env.NEXT_PUBLIC_SUI_RPC_URL || getFullnodeUrl('testnet') });
+  return suiClient;
+};
+
+export const getSealClient = (): SealClient => {
+  sealClient ??= new SealClient({
+    suiClient: getSuiClient(),
+    serverConfigs: SEAL_CONFIG.keyServers,
+    verifyKeyServers: SEAL_CONFIG.verifyKeyServers
+  });
+  return sealClient;
+};
+
+/**
+ * Fresh identity owned by `owner`: the address bytes followed by a random nonce, so the owner-only
+ * policy can check the prefix and every blob still gets its own key
+ */
+export const createSealIdentity = (owner: string): string => {
+  const nonce = crypto.getRandomValues(new Uint8Array(SEAL_CONFIG.nonceBytes));
+  return toHex(new Uint8Array([...fromHex(normalizeSuiAddress(owner)), ...nonce]));
+};
+
+/**
+ * Encrypts `data` under `id`. The returned backup key decrypts without key servers; keep it secret or drop it.
+ */
+export const encryptWithSeal = async (
+  data: Uint8Array,
+  id: string,
+  threshold = SEAL_CONFIG.threshold
+): Promise<{ ciphertext: Uint8Array; backupKey: Uint8Array; envelope: SealEnvelope }> => {
+  const { encryptedObject, key } = await getSealClient().encrypt({
+    threshold,
+    packageId: SEAL_CONFIG.packageId,
+    id,
+    data
+  });
+  return {
+    ciphertext: encryptedObject,
+    backupKey: key,
+    envelope: { id, packageId: SEAL_CONFIG.packageId, threshold }
+  };
+};
+
+// Reads the identity and package back out of a ciphertext, e.g. when only the blob ID is known
+export const parseSealEnvelope = (ciphertext: Uint8Array): SealEnvelope => {
+  const parsed = EncryptedObject.parse(ciphertext);
+  return { id: parsed.id, packageId: parsed.packageId, threshold: parsed.threshold };
+};
+
+export const approveAsOwner: SealApproveBuilder = (tx, id) => {
+  tx.moveCall({
+    target: `${SEAL_CONFIG.packageId}::${SEAL_CONFIG.policyModule}::seal_approve`,
+    arguments: [tx.pure.vector('u8', fromHex(id))]
+  });
+};
+
+/**
+ * Decrypts a Seal ciphertext with an active session key; key servers dry-run the approve transaction
+ */
+export const decryptWithSeal = async (
+  ciphertext: Uint8Array,
+  sessionKey: SessionKey,
+  approve: SealApproveBuilder = approveAsOwner
+): Promise<Uint8Array> => {
+  const { id } = parseSealEnvelope(ciphertext);
+  const tx = new Transaction();
+  approve(tx, id);
+  const txBytes = await tx.build({ client: getSuiClient(), onlyTransactionKind: true });
+  return getSealClient().decrypt({ data: ciphertext, sessionKey, txBytes });
+};
+
+// Exported session keys survive reloads until their TTL runs out, so the wallet is asked once per session
+const sessionStore = createRecordStore<ExportedSessionKey & { key: string }>({
+  dbName: 'daas-seal-sessions',
+  storeName: 'sessions',
+  keyPath: 'key',
+  keyOf: record => record.key,
+  label: 'Seal 세션 키'
+});
+
+const sessionStoreKey = (address: string) => `${address}:${SEAL_CONFIG.packageId}`;
+
+const restoreSessionKey = async (address: string): Promise<SessionKey | null> => {
+  const stored = await sessionStore.get(sessionStoreKey(address));
+  if (!stored) return null;
+
+  try {
+    const sessionKey = SessionKey.import(stored, getSuiClient());
+    if (!sessionKey.isExpired()) return sessionKey;
+  } catch (error) {
+    console.warn('⚠️ Seal 세션 키 복원 실패:', error);
+  }
+  await sessionStore.delete(sessionStoreKey(address));
+  return null;
+};
+
+export const createSealService = (options: SealServiceOptions): SealService => {
+  const { address, signPersonalMessage } = options;
+  let sessionKey: SessionKey | null = null;
+  let pendingSession: Promise<SessionKey> | null = null;
+
+  const openSession = async (): Promise<SessionKey> => {
+    const restored = await restoreSessionKey(address);
+    if (restored) {
+      sessionKey = restored;
+      return restored;
+    }
+
+    const created = await SessionKey.create({
+      address,
+      packageId: SEAL_CONFIG.packageId,
+      ttlMin: SEAL_CONFIG.sessionTtlMin,
+      suiClient: getSuiClient()
+    });
+    console.log('🔐 Seal 세션 서명 요청...');
+    const { signature } = await signPersonalMessage({ message: created.getPersonalMessage() });
+    await created.setPersonalMessageSignature(signature);
+
+    sessionKey = created;
+    await sessionStore.put({ ...created.export(), key: sessionStoreKey(address) });
+    return created;
+  };
+
+  const ensureSession = async (): Promise<SessionKey> => {
+    if (sessionKey && !sessionKey.isExpired()) return sessionKey;
+    // Concurrent decrypts share one signature prompt
+    pendingSession ??= openSession().finally(() => {
+      pendingSession = null;
+    });
+    return pendingSession;
+  };
+
+  return {
+    address,
+
+    isSessionActive: () => !!sessionKey && !sessionKey.isExpired(),
+
+    ensureSession,
+
+    // Encryption needs no session: anyone may encrypt, only the policy decides who decrypts
+    encryptAndUpload: async (data, { sealId, onBackupKey, ...uploadOptions } = {}) => {
+      console.log('🔒 Seal 암호화 중...', data.length, 'bytes');
+      const { ciphertext, backupKey, envelope } = await encryptWithSeal(data, sealId ?? createSealIdentity(address));
+      const result = await uploadToWalrus(new Blob([ciphertext as Uint8Array<ArrayBuffer>]), {
+        ...uploadOptions,
+        metadata: { ...uploadOptions.metadata, sealId: envelope.id, sealPackageId: envelope.packageId }
+      });
+      if (result.status === 'error') return result;
+
+      await onBackupKey?.({ key: backupKey, envelope, blobId: result.blobId });
+      return { ...result, seal: envelope };
+    },
+
+    decrypt: async (ciphertext, approve) => {
+      const activeSession = await ensureSession();
+      console.log('🔓 Seal 복호화 중...');
+      return decryptWithSeal(ciphertext, activeSession, approve);
+    }
+  };
+};
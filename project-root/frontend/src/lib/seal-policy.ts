@@ -0,0 +1,174 @@
+// Bindings for the seal_policy Move module: job-bound access to Seal-encrypted images
+// The image owner creates one ImageAccessPolicy per image, encrypts under the policy's identity and
+// grants/revokes the provider as the job moves through ACCEPTED → COMPLETED/REJECTED.
+
+import { Transaction } from '@mysten/sui/transactions';
+import type { EventId } from '@mysten/sui/client';
+import { fromHex, normalizeSuiAddress, toHex } from '@mysten/sui/utils';
+import { JOB_STATUS, type JobRequest } from '@/contracts/types';
+import { SEAL_CONFIG, getSuiClient, type SealApproveBuilder } from './seal-client';
+
+export type PolicySignAndExecute = (input: { transaction: Transaction }) => Promise<{ digest: string }>;
+
+export interface ImageAccessPolicyInfo {
+  policyId: string;
+  owner: string;
+  imageName: string;
+  grants: Array<{ jobId: string; provider: string }>;
+}
+
+export type JobAccessAction = 'granted' | 'revoked' | 'unchanged';
+
+const policyTarget = (fn: string) => `${SEAL_CONFIG.packageId}::${SEAL_CONFIG.policyModule}::${fn}`;
+
+export const IMAGE_ACCESS_POLICY_TYPE = `${SEAL_CONFIG.packageId}::${SEAL_CONFIG.policyModule}::ImageAccessPolicy`;
+
+const POLICY_CREATED_EVENT_TYPE = `${SEAL_CONFIG.packageId}::${SEAL_CONFIG.policyModule}::PolicyCreatedEvent`;
+
+// Pages of the owner's events scanned for an existing policy before a new one is created
+const POLICY_LOOKUP_MAX_PAGES = 20;
+
+/**
+ * Creates a shared ImageAccessPolicy owned by the sender and returns its object ID
+ */
+export const createImageAccessPolicy = async (
+  imageName: string,
+  signAndExecute: PolicySignAndExecute
+): Promise<string> => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: policyTarget('create_policy'),
+    arguments: [tx.pure.string(imageName)]
+  });
+
+  const { digest } = await signAndExecute({ transaction: tx });
+  const result = await getSuiClient().waitForTransaction({ digest, options: { showObjectChanges: true } });
+  const created = result.objectChanges?.find(
+    change => change.type === 'created' && change.objectType === IMAGE_ACCESS_POLICY_TYPE
+  );
+  if (!created || created.type !== 'created') {
+    throw new Error(`ImageAccessPolicy not found in transaction ${digest}`);
+  }
+
+  console.log('✅ 이미지 접근 정책 생성:', created.objectId);
+  return created.objectId;
+};
+
+/**
+ * The owner's newest ImageAccessPolicy for an image (from PolicyCreatedEvent), or null when there is none
+ */
+export const findImageAccessPolicy = async (owner: string, imageName: string): Promise<string | null> => {
+  const sender = normalizeSuiAddress(owner);
+  let cursor: EventId | null = null;
+
+  for (let page = 0; page < POLICY_LOOKUP_MAX_PAGES; page++) {
+    const result = await getSuiClient().queryEvents({ query: { Sender: sender }, cursor, limit: 50, order: 'descending' });
+    for (const event of result.data) {
+      if (event.type !== POLICY_CREATED_EVENT_TYPE) continue;
+      const fields = event.parsedJson as { policy_id: string; owner: string; image_name: string };
+      if (normalizeSuiAddress(fields.owner) === sender && fields.image_name === imageName) {
+        return fields.policy_id;
+      }
+    }
+    if (!result.hasNextPage || !result.nextCursor) break;
+    cursor = result.nextCursor;
+  }
+  return null;
+};
+
+/**
+ * One policy per image: reuses the owner's existing policy, otherwise creates it
+ */
+export const getOrCreateImageAccessPolicy = async (
+  owner: string,
+  imageName: string,
+  signAndExecute: PolicySignAndExecute
+): Promise<string> =>
+  (await findImageAccessPolicy(owner, imageName)) ?? createImageAccessPolicy(imageName, signAndExecute);
+
+/**
+ * Identity for images guarded by a policy: policy object ID + nonce (checked by seal_approve_job)
+ */
+export const createPolicySealIdentity = (policyId: string): string => {
+  const nonce = crypto.getRandomValues(new Uint8Array(SEAL_CONFIG.nonceBytes));
+  return toHex(new Uint8Array([...fromHex(policyId), ...nonce]));
+};
+
+/**
+ * Approve builder for SealService.decrypt: passes when the caller is the owner or an accepted provider
+ */
+export const approveForJobPolicy = (policyId: string): SealApproveBuilder => (tx, id) => {
+  tx.moveCall({
+    target: policyTarget('seal_approve_job'),
+    arguments: [tx.pure.vector('u8', fromHex(id)), tx.object(policyId)]
+  });
+};
+
+export const buildGrantJobAccessTransaction = (policyId: string, job: JobRequest): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: policyTarget('grant_job_access'),
+    arguments: [tx.object(policyId), tx.pure.id(job.id), tx.pure.address(job.provider_address)]
+  });
+  return tx;
+};
+
+export const buildRevokeJobAccessTransaction = (policyId: string, job: JobRequest): Transaction => {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: policyTarget('revoke_job_access'),
+    arguments: [tx.object(policyId), tx.pure.id(job.id)]
+  });
+  return tx;
+};
+
+export const getImageAccessPolicy = async (policyId: string): Promise<ImageAccessPolicyInfo | null> => {
+  const response = await getSuiClient().getObject({ id: policyId, options: { showContent: true } });
+  const content = response.data?.content;
+  if (!content || content.dataType !== 'moveObject') return null;
+
+  // VecMap<ID, address> is returned as { contents: [{ key, value }] }
+  const fields = content.fields as {
+    owner: string;
+    image_name: string;
+    grants: { fields: { contents: Array<{ fields: { key: string; value: string } }> } };
+  };
+  return {
+    policyId,
+    owner: fields.owner,
+    imageName: fields.image_name,
+    grants: fields.grants.fields.contents.map(entry => ({ jobId: entry.fields.key, provider: entry.fields.value }))
+  };
+};
+
+/**
+ * Brings the policy in line with a job's status: ACCEPTED grants the provider, COMPLETED/REJECTED
+ * revoke it, PENDING changes nothing. Must be signed by the image owner.
+ */
+export const syncJobAccess = async (
+  policyId: string,
+  job: JobRequest,
+  signAndExecute: PolicySignAndExecute
+): Promise<JobAccessAction> => {
+  const policy = await getImageAccessPolicy(policyId);
+  if (!policy) {
+    throw new Error(`ImageAccessPolicy ${policyId} not found`);
+  }
+  const grant = policy.grants.find(entry => entry.jobId === job.id);
+
+  if (job.status === JOB_STATUS.ACCEPTED) {
+    if (grant?.provider === job.provider_address) return 'unchanged';
+    await signAndExecute({ transaction: buildGrantJobAccessTransaction(policyId, job) });
+    console.log(`🔓 작업 ${job.id}: 제공자 ${job.provider_address}에게 복호화 권한 부여`);
+    return 'granted';
+  }
+
+  if (job.status === JOB_STATUS.COMPLETED || job.status === JOB_STATUS.REJECTED) {
+    if (!grant) return 'unchanged';
+    await signAndExecute({ transaction: buildRevokeJobAccessTransaction(policyId, job) });
+    console.log(`🔒 작업 ${job.id}: 제공자 ${grant.provider}의 복호화 권한 회수`);
+    return 'revoked';
+  }
+
+  return 'unchanged';
+};
@@ -0,0 +1,153 @@
+// Seal key rotation: re-encrypts existing blobs under a new identity/policy
+// Old ciphertext is decrypted with the current access, encrypted under a fresh identity, uploaded,
+// the registry entry is pointed at the new blob and the old blob is marked for deletion.
+
+import { fromHex, normalizeSuiAddress, toHex } from '@mysten/sui/utils';
+import { DockerRegistryClient } from './docker-registry';
+import { readFromWalrus, extractBlobId } from './walrus-client';
+import { getBlobLifetime, markBlobForDeletion, recordBlobLifetime } from './walrus-lifetime';
+import {
+  approveAsOwner,
+  createSealIdentity,
+  getSuiClient,
+  parseSealEnvelope,
+  type SealApproveBuilder,
+  type SealBackupKeyInfo,
+  type SealService
+} from './seal-client';
+import { approveForJobPolicy, createPolicySealIdentity, type PolicySignAndExecute } from './seal-policy';
+
+export interface SealRotationTarget {
+  blobId: string;
+  label?: string;
+  image?: { imageName: string; version: string }; // Registry entry; looked up by blob ID when omitted
+  expectedDigest?: string; // Registered digest of the current ciphertext
+}
+
+export type SealRotationStep = 'decrypting' | 'encrypting' | 'registering' | 'marking' | 'done';
+
+export interface SealRotationOptions {
+  sealService: SealService;
+  signAndExecute: PolicySignAndExecute;
+  newPolicyId?: string; // Re-encrypt under this ImageAccessPolicy; a fresh owner-only identity otherwise
+  epochs?: number;
+  onStep?: (blobId: string, step: SealRotationStep) => void;
+  onBackupKey?: (backup: SealBackupKeyInfo & { label: string }) => void | Promise<void>; // Escrow the new keys
+}
+
+export interface SealRotationResult {
+  oldBlobId: string;
+  status: 'rotated' | 'error';
+  newBlobId?: string;
+  sealId?: string;
+  registryDigest?: string; // Transaction that updated the registry entry; unset when the blob is unregistered
+  error?: string;
+}
+
+const ADDRESS_BYTES = 32;
+
+/**
+ * Picks the seal_approve* call for an identity: owner-only identities start with the owner's address,
+ * anything else starts with an ImageAccessPolicy ID
+ */
+export const approveForSealIdentity = (id: string, owner: string): SealApproveBuilder => {
+  const prefix = normalizeSuiAddress(toHex(fromHex(id).slice(0, ADDRESS_BYTES)));
+  return prefix === normalizeSuiAddress(owner) ? approveAsOwner : approveForJobPolicy(prefix);
+};
+
+const findImage = async (
+  registry: DockerRegistryClient,
+  owner: string,
+  blobId: string
+): Promise<{ imageName: string; version: string } | undefined> => {
+  const images = await registry.getUserImages(owner);
+  return images.find(image => image.downloadUrls.some(url => extractBlobId(url) === blobId));
+};
+
+export const rotateSealedBlob = async (
+  target: SealRotationTarget,
+  options: SealRotationOptions
+): Promise<SealRotationResult> => {
+  const { sealService, signAndExecute, newPolicyId, onStep } = options;
+  const owner = sealService.address;
+
+  try {
+    // 1. Decrypt with whatever access the owner has today
+    onStep?.(target.blobId, 'decrypting');
+    const plaintext = await readFromWalrus(target.blobId, {
+      expectedDigest: target.expectedDigest,
+      decrypt: ciphertext =>
+        sealService.decrypt(ciphertext, approveForSealIdentity(parseSealEnvelope(ciphertext).id, owner))
+    });
+
+    // 2. Encrypt under a new identity; the old key no longer opens the new blob
+    onStep?.(target.blobId, 'encrypting');
+    const sealId = newPolicyId ? createPolicySealIdentity(newPolicyId) : createSealIdentity(owner);
+    const previous = await getBlobLifetime(target.blobId);
+    const label = target.label ?? previous?.label ?? target.blobId;
+    const uploaded = await sealService.encryptAndUpload(plaintext, {
+      sealId,
+      epochs: options.epochs,
+      // Kept deletable so the next rotation can clean it up
+      permanent: false,
+      walletAddress: owner,
+      metadata: { rotatedFrom: target.blobId },
+      onBackupKey: options.onBackupKey && (backup => options.onBackupKey?.({ ...backup, label }))
+    });
+    if (uploaded.status === 'error') {
+      throw new Error(`재암호화 blob 업로드 실패: ${uploaded.error}`);
+    }
+    await recordBlobLifetime(uploaded, { label, owner, deletable: true, sealId });
+
+    // 3. Point the registry entry at the new blob
+    onStep?.(target.blobId, 'registering');
+    let registryDigest: string | undefined;
+    const registry = new DockerRegistryClient(getSuiClient());
+    const image = target.image ?? await findImage(registry, owner, target.blobId);
+    if (image) {
+      if (!uploaded.url || !uploaded.digest) {
+        throw new Error('재암호화 blob의 URL 또는 다이제스트가 없습니다');
+      }
+      registryDigest = await registry.rotateImageBlob(
+        image.imageName,
+        image.version,
+        [uploaded.url],
+        uploaded.size ?? plaintext.length,
+        uploaded.digest,
+        { signAndExecuteTransaction: signAndExecute }
+      );
+      console.log(`📝 레지스트리 갱신 (${image.imageName}:${image.version}):`, registryDigest);
+    } else {
+      console.warn(`⚠️ ${target.blobId}: 레지스트리에 등록된 이미지가 없어 갱신 생략`);
+    }
+
+    // 4. The old ciphertext is still readable by anyone the old policy allowed until it is deleted
+    onStep?.(target.blobId, 'marking');
+    await markBlobForDeletion(target.blobId, uploaded.blobId, { label, owner });
+
+    onStep?.(target.blobId, 'done');
+    console.log(`🔁 Seal 키 교체 완료: ${target.blobId} → ${uploaded.blobId}`);
+    return { oldBlobId: target.blobId, status: 'rotated', newBlobId: uploaded.blobId, sealId, registryDigest };
+  } catch (error) {
+    console.error(`❌ Seal 키 교체 실패 (${target.blobId}):`, error);
+    return {
+      oldBlobId: target.blobId,
+      status: 'error',
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
+
+/**
+ * Rotates blobs one at a time (each needs its own wallet signature); failures do not stop the rest
+ */
+export const rotateSealedBlobs = async (
+  targets: SealRotationTarget[],
+  options: SealRotationOptions
+): Promise<SealRotationResult[]> => {
+  const results: SealRotationResult[] = [];
+  for (const target of targets) {
+    results.push(await rotateSealedBlob(target, options));
+  }
+  return results;
+};
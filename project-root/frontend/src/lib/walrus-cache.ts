@@ -0,0 +1,180 @@
+// Read-through cache for stored Walrus blobs
+// Blob IDs are content-addressed, so entries never go stale; they are only evicted (least recently used
+// first) to stay under the size limit. Every entry carries its sha256 and is re-checked when served.
+
+import { createRecordStore, hasIndexedDB } from './idb-store';
+import { computeDigest } from './walrus-integrity';
+
+interface CacheEntry {
+  blobId: string;
+  size: number;
+  digest: string;
+  storedAt: number;
+  lastAccessedAt: number;
+}
+
+interface CachedBytes {
+  blobId: string;
+  data: Uint8Array;
+}
+
+export interface WalrusCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  integrityFailures: number;
+  bytesServed: number;
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+}
+
+const parseMegabytes = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return (value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback) * 1024 * 1024;
+};
+
+export const WALRUS_CACHE_CONFIG = {
+  maxBytes: parseMegabytes(process.env.NEXT_PUBLIC_WALRUS_CACHE_MAX_MB, 512), // 0 disables the cache
+  maxEntryBytes: 64 * 1024 * 1024 // Upload chunks (32MB) fit; larger single blobs are not cached
+};
+
+// Metadata and bytes live in separate databases so the LRU index can be loaded without the data
+const entryStore = createRecordStore<CacheEntry>({
+  dbName: 'daas-walrus-cache-index',
+  storeName: 'entries',
+  keyPath: 'blobId',
+  keyOf: entry => entry.blobId,
+  label: 'Walrus 캐시 인덱스'
+});
+
+const bytesStore = createRecordStore<CachedBytes>({
+  dbName: 'daas-walrus-cache',
+  storeName: 'blobs',
+  keyPath: 'blobId',
+  keyOf: record => record.blobId,
+  label: 'Walrus 캐시',
+  mirrorInMemory: false
+});
+
+const metrics = { hits: 0, misses: 0, evictions: 0, integrityFailures: 0, bytesServed: 0 };
+const listeners = new Set<() => void>();
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+let indexPromise: Promise<Map<string, CacheEntry>> | null = null;
+
+const loadIndex = (): Promise<Map<string, CacheEntry>> => {
+  indexPromise ??= entryStore.getAll().then(entries => new Map(entries.map(entry => [entry.blobId, entry])));
+  return indexPromise;
+};
+
+// Only browsers with IndexedDB cache; the server and private windows read through every time
+const isCacheEnabled = (): boolean => WALRUS_CACHE_CONFIG.maxBytes > 0 && hasIndexedDB();
+
+const totalBytesOf = (index: Map<string, CacheEntry>): number =>
+  Array.from(index.values()).reduce((sum, entry) => sum + entry.size, 0);
+
+const removeEntry = async (index: Map<string, CacheEntry>, blobId: string): Promise<void> => {
+  index.delete(blobId);
+  await Promise.all([entryStore.delete(blobId), bytesStore.delete(blobId)]);
+};
+
+const evictLeastRecentlyUsed = async (index: Map<string, CacheEntry>): Promise<void> => {
+  let totalBytes = totalBytesOf(index);
+  if (totalBytes <= WALRUS_CACHE_CONFIG.maxBytes) return;
+
+  const byAge = Array.from(index.values()).sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+  for (const entry of byAge) {
+    if (totalBytes <= WALRUS_CACHE_CONFIG.maxBytes) break;
+    await removeEntry(index, entry.blobId);
+    totalBytes -= entry.size;
+    metrics.evictions++;
+  }
+};
+
+/**
+ * Cached bytes of a stored blob, or null on a miss. Entries that fail their digest check are dropped.
+ */
+export const getCachedBlob = async (blobId: string): Promise<Uint8Array | null> => {
+  if (!isCacheEnabled()) return null;
+
+  const index = await loadIndex();
+  const entry = index.get(blobId);
+  const record = entry ? await bytesStore.get(blobId) : null;
+
+  if (!entry || !record) {
+    if (entry) await removeEntry(index, blobId);
+    metrics.misses++;
+    notifyListeners();
+    return null;
+  }
+
+  if (await computeDigest(record.data) !== entry.digest) {
+    console.warn('⚠️ Walrus 캐시 무결성 검증 실패, 항목 삭제:', blobId);
+    await removeEntry(index, blobId);
+    metrics.integrityFailures++;
+    metrics.misses++;
+    notifyListeners();
+    return null;
+  }
+
+  entry.lastAccessedAt = Date.now();
+  await entryStore.put(entry);
+  metrics.hits++;
+  metrics.bytesServed += entry.size;
+  notifyListeners();
+  return record.data;
+};
+
+export const cacheBlob = async (blobId: string, data: Uint8Array): Promise<void> => {
+  if (!isCacheEnabled() || data.length > WALRUS_CACHE_CONFIG.maxEntryBytes || data.length > WALRUS_CACHE_CONFIG.maxBytes) {
+    return;
+  }
+
+  try {
+    const index = await loadIndex();
+    if (index.has(blobId)) return;
+
+    const now = Date.now();
+    const entry: CacheEntry = { blobId, size: data.length, digest: await computeDigest(data), storedAt: now, lastAccessedAt: now };
+    await bytesStore.put({ blobId, data });
+    await entryStore.put(entry);
+    index.set(blobId, entry);
+
+    await evictLeastRecentlyUsed(index);
+    notifyListeners();
+  } catch (error) {
+    // A full or unavailable cache never fails the read
+    console.warn('⚠️ Walrus 캐시 저장 실패:', error);
+  }
+};
+
+export const getWalrusCacheStats = async (): Promise<WalrusCacheStats> => {
+  const index = isCacheEnabled() ? await loadIndex() : new Map<string, CacheEntry>();
+  return {
+    ...metrics,
+    entries: index.size,
+    totalBytes: totalBytesOf(index),
+    maxBytes: WALRUS_CACHE_CONFIG.maxBytes
+  };
+};
+
+/**
+ * Notified after every hit, miss and insert; returns an unsubscribe function
+ */
+export const subscribeWalrusCacheStats = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const clearWalrusCache = async (): Promise<void> => {
+  if (!isCacheEnabled()) return;
+
+  const index = await loadIndex();
+  for (const blobId of Array.from(index.keys())) {
+    await removeEntry(index, blobId);
+  }
+  notifyListeners();
+};
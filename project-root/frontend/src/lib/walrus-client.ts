@@ -1,12 +1,64 @@
-// Hybrid Walrus implementation: SDK first, HTTP API fallback
-// Walrus client with SDK-first approach and HTTP API fallback
-// SDK is preferred for better performance and features, HTTP API as backup
+// Hybrid Walrus implementation: configured transport first, HTTP API fallback
+// Walrus client with pluggable transports (HTTP publisher, SDK, wallet-signed, in-memory)
+// Retries, chunking and progress live here; transports only move bytes
+
+import {
+  getSessionId,
+  loadUploadSession,
+  saveUploadSession,
+  deleteUploadSession,
+  type UploadSession
+} from './walrus-upload-session';
+import {
+  createAbortError,
+  isAbortError,
+  WalletRejectedError,
+  createHttpTransport,
+  createPooledHttpTransport,
+  createMemoryTransport,
+  DEFAULT_WALRUS_PUBLISHERS,
+  DEFAULT_WALRUS_AGGREGATORS,
+  LOCAL_WALRUS_ENDPOINTS,
+  sliceByteStream,
+  getWalrusSdkClient,
+  type WalrusTransport,
+  type WalrusReadStreamOptions
+} from './walrus-transport';
+import { WalrusEndpointPool, type EndpointHealth } from './walrus-endpoint-pool';
+import {
+  computeDigest,
+  createDigestHasher,
+  normalizeDigest,
+  verifyDigest,
+  WalrusIntegrityError,
+  isIntegrityError
+} from './walrus-integrity';
+import { getCachedBlob, cacheBlob } from './walrus-cache';
+import { assembleDockerImageTar, isDockerImageManifest, type DockerImageManifest } from './docker-image-tar';
+import type { SealEnvelope, SealService } from './seal-client';
+import { SUI_RPC_URL } from './docker-registry';
+
+export { isAbortError, WalrusIntegrityError, isIntegrityError };
+export type { WalrusTransport, EndpointHealth };
 
 export interface WalrusUploadOptions {
   epochs?: number;
   permanent?: boolean;
   metadata?: Record<string, unknown>;
   walletAddress?: string;
+  chunked?: boolean; // Force (true) or disable (false) chunked upload; defaults to size-based
+  chunkSize?: number;
+  onProgress?: (progress: WalrusUploadProgress) => void;
+  signal?: AbortSignal;
+  contentDigest?: string; // Precomputed sha256 of the data (skips hashing it again)
+}
+
+export interface WalrusUploadProgress {
+  bytesSent: number;
+  totalBytes: number;
+  percentage: number; // 0-100
+  throughput: number; // bytes per second
+  eta: number | null; // seconds remaining, null until throughput is known
 }
 
 export interface WalrusUploadResult {
@@ -15,6 +67,22 @@ export interface WalrusUploadResult {
   url?: string;
   size?: number;
   error?: string;
+  aborted?: boolean;
+  digest?: string; // sha256 of the uploaded content ("sha256:<hex>")
+  endEpoch?: number; // Earliest end epoch over all stored parts
+  parts?: WalrusStoredPart[]; // Physical blobs behind this upload (chunks, layers, manifests)
+}
+
+// One stored Walrus blob; extending a logical upload means extending every part
+export interface WalrusStoredPart {
+  blobId: string;
+  blobObjectId?: string;
+  endEpoch?: number;
+}
+
+export interface WalrusReadOptions {
+  expectedDigest?: string; // Verified against the stored (possibly encrypted) content; mismatches throw WalrusIntegrityError
+  decrypt?: (ciphertext: Uint8Array) => Promise<Uint8Array>; // Applied after verification, e.g. SealService.decrypt
 }
 
 export interface WalrusProjectUploadResult {
@@ -25,17 +93,64 @@ export interface WalrusProjectUploadResult {
   dockerUrl?: string;
   codeSize?: number;
   dockerSize?: number;
+  codeDigest?: string;
+  dockerDigest?: string;
   error?: string;
 }
 
-// Walrus testnet endpoints (현재 작동하는 엔드포인트)
-const WALRUS_CONFIG = {
-  publisher: 'https://publisher.walrus-testnet.walrus.space',
-  aggregator: 'https://aggregator.walrus-testnet.walrus.space'
+// Shared publisher/aggregator pools: health survives transport switches and is visible to the UI
+const endpointPools = {
+  publishers: new WalrusEndpointPool('publisher', DEFAULT_WALRUS_PUBLISHERS),
+  aggregators: new WalrusEndpointPool('aggregator', DEFAULT_WALRUS_AGGREGATORS)
 };
 
-// SDK is disabled - only using HTTP API
-// SDK initialization variables are kept for future re-enabling but not used
+export const getWalrusEndpointHealth = (): EndpointHealth[] => [
+  ...endpointPools.publishers.snapshot(),
+  ...endpointPools.aggregators.snapshot()
+];
+
+export const subscribeWalrusEndpointHealth = (listener: () => void): (() => void) => {
+  const unsubscribePublishers = endpointPools.publishers.subscribe(listener);
+  const unsubscribeAggregators = endpointPools.aggregators.subscribe(listener);
+  return () => {
+    unsubscribePublishers();
+    unsubscribeAggregators();
+  };
+};
+
+// Transport selection: NEXT_PUBLIC_WALRUS_TRANSPORT = 'http' (default) | 'local' | 'memory'
+// SDK and wallet transports need a signer, so they are installed at runtime via setWalrusTransport
+const createConfiguredTransport = (): WalrusTransport => {
+  switch (process.env.NEXT_PUBLIC_WALRUS_TRANSPORT) {
+    case 'memory':
+      return createMemoryTransport();
+    case 'local':
+      return createHttpTransport(LOCAL_WALRUS_ENDPOINTS);
+    default:
+      return createPooledHttpTransport(endpointPools);
+  }
+};
+
+let activeTransport: WalrusTransport | null = null;
+const httpFallbackTransport = createPooledHttpTransport(endpointPools);
+
+export const getWalrusTransport = (): WalrusTransport => {
+  activeTransport ??= createConfiguredTransport();
+  return activeTransport;
+};
+
+// Pass null to go back to the configured default
+export const setWalrusTransport = (transport: WalrusTransport | null): void => {
+  activeTransport = transport;
+  console.log('🔌 Walrus transport:', getWalrusTransport().kind);
+};
+
+// SDK and wallet transports fall back to the public publisher; local/memory never leave the machine
+const canFallBackToHttp = (transport: WalrusTransport): boolean =>
+  transport.kind === 'sdk' || transport.kind === 'wallet';
+
+// Wallet uploads are not redone by the publisher: the blob would silently stop being owned by the wallet
+const canFallBackToHttpUpload = (transport: WalrusTransport): boolean => transport.kind === 'sdk';
 
 // Retry configuration
 const RETRY_CONFIG = {
@@ -45,124 +160,159 @@ const RETRY_CONFIG = {
   backoffMultiplier: 2
 };
 
-// Helper function for exponential backoff
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Initialize Walrus SDK - DISABLED
-const initializeWalrusSDK = async (): Promise<boolean> => {
-  // SDK is currently disabled - always use HTTP API
-  console.log('ℹ️ Walrus SDK is disabled, using HTTP API for all operations');
-  return false;
+// Chunked upload configuration
+// Files above the threshold are split into chunk blobs plus a small manifest blob
+const CHUNK_CONFIG = {
+  threshold: 100 * 1024 * 1024, // 100MB
+  chunkSize: 32 * 1024 * 1024 // 32MB
 };
 
-// SDK upload implementation - DISABLED
-const uploadViaSDK = async (
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  data: Uint8Array | Blob | File,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  options?: WalrusUploadOptions
-): Promise<WalrusUploadResult> => {
-  // SDK is disabled, always return error to trigger HTTP API fallback
-  throw new Error('SDK is disabled, use HTTP API');
-};
+// Manifest stored as the logical blob of a chunked upload (layered Docker images use DockerImageManifest)
+export interface WalrusChunkManifest {
+  type: 'daas-chunked-blob';
+  version: 1;
+  fileName?: string;
+  totalSize: number;
+  chunkSize: number;
+  digest?: string; // sha256 of the reassembled content
+  chunks: Array<{ index: number; blobId: string; size: number; digest?: string }>;
+}
 
+// Manifest blobs above this size are treated as regular data when reading
+export const MANIFEST_BLOB_MAX_SIZE = 4 * 1024 * 1024;
 
+// Helper function for exponential backoff (resolves early and rejects when aborted)
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Turns raw byte counts into progress events with throughput and ETA
+export const createProgressTracker = (
+  totalBytes: number,
+  onProgress?: (progress: WalrusUploadProgress) => void,
+  initialBytes = 0
+) => {
+  const startedAt = Date.now();
+
+  return (bytesSent: number) => {
+    if (!onProgress) return;
+
+    const elapsedSeconds = (Date.now() - startedAt) / 1000;
+    const sentThisSession = Math.max(0, bytesSent - initialBytes);
+    const throughput = elapsedSeconds > 0 ? sentThisSession / elapsedSeconds : 0;
+    const remaining = Math.max(0, totalBytes - bytesSent);
+
+    onProgress({
+      bytesSent,
+      totalBytes,
+      percentage: totalBytes > 0 ? Math.min(100, (bytesSent / totalBytes) * 100) : 100,
+      throughput,
+      eta: throughput > 0 ? remaining / throughput : null
+    });
+  };
+};
 
-// HTTP API fallback implementation
-const uploadViaHttpApi = async (
+// Stores data through a transport; abort errors are rethrown so callers can stop instead of retrying
+const uploadViaTransport = async (
+  transport: WalrusTransport,
   data: Uint8Array | Blob | File,
-  options?: WalrusUploadOptions
+  options?: WalrusUploadOptions,
+  onBytesSent?: (loaded: number) => void
 ): Promise<WalrusUploadResult> => {
   try {
-    console.log('🔄 HTTP API 폴백 사용...');
+    console.log(`🔄 ${transport.kind} transport 업로드...`);
 
-    // Convert to binary data
-    let binaryData: ArrayBuffer;
+    // Blobs are passed through as-is so the transport can stream them instead of buffering
+    let body: ArrayBuffer | Blob;
     if (data instanceof Uint8Array) {
       const buffer = data.buffer as ArrayBuffer;  // Type assertion to handle SharedArrayBuffer case
-      binaryData = buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+      body = buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
     } else if (data instanceof Blob) {
-      binaryData = await data.arrayBuffer();
+      body = data;
     } else {
       throw new Error('Unsupported data type for upload');
     }
 
-    console.log('📦 HTTP API 데이터 크기:', binaryData.byteLength, 'bytes');
-
-    // Construct URL with epochs parameter (correct API path is /v1/blobs)
-    let url = `${WALRUS_CONFIG.publisher}/v1/blobs`;
-    if (options?.epochs) {
-      url += `?epochs=${options.epochs}`;
-    }
-
-    // HTTP PUT request to Walrus publisher
-    const response = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/octet-stream',
-      },
-      body: binaryData,
+    const stored = await transport.store(body, {
+      epochs: options?.epochs,
+      permanent: options?.permanent,
+      signal: options?.signal,
+      onBytesSent,
+      owner: options?.walletAddress
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      return {
-        status: 'error',
-        blobId: '',
-        error: `HTTP API blobs store failed: ${response.status} ${response.statusText} - ${errorText}`
-      };
-    }
-
-    const rawResult = await response.json();
-    console.log('✅ HTTP API store 완료!');
-    console.log('📄 HTTP API Result:', rawResult);
-
-    // Extract blobId from different response formats
-    const blobId = rawResult.newlyCreated?.blobObject?.blobId ||
-                   rawResult.alreadyCertified?.blobId ||
-                   rawResult.blobId;
-
-    if (!blobId) {
-      return {
-        status: 'error',
-        blobId: '',
-        error: 'No blobId received from HTTP API response'
-      };
-    }
-
-    const downloadUrl = `${WALRUS_CONFIG.aggregator}/v1/blobs/${blobId}`;
-    console.log('📥 다운로드 URL:', downloadUrl);
-    console.log('💾 Blob ID:', blobId);
+    console.log('✅ store 완료!');
+    console.log('📥 다운로드 URL:', stored.url);
+    console.log('💾 Blob ID:', stored.blobId);
 
     return {
-      status: rawResult.newlyCreated ? 'success' : 'alreadyExists',
-      blobId: blobId,
-      url: downloadUrl,
-      size: binaryData.byteLength,
+      status: stored.newlyCreated ? 'success' : 'alreadyExists',
+      blobId: stored.blobId,
+      url: stored.url,
+      size: stored.size,
+      endEpoch: stored.endEpoch,
+      parts: [{ blobId: stored.blobId, blobObjectId: stored.blobObjectId, endEpoch: stored.endEpoch }]
     };
   } catch (error) {
-    console.error('❌ HTTP API upload 실패:', error);
+    if (isAbortError(error) || error instanceof WalletRejectedError) {
+      throw error;
+    }
+    console.error(`❌ ${transport.kind} upload 실패:`, error);
     return {
       status: 'error',
       blobId: '',
-      error: `HTTP API upload 실패: ${error instanceof Error ? error.message : String(error)}`
+      error: `${transport.kind} upload 실패: ${error instanceof Error ? error.message : String(error)}`
     };
   }
 };
 
-// Generic retry wrapper
+// Same as uploadViaTransport but throws on error results so withRetry retries them
+const uploadViaTransportOrThrow = async (
+  transport: WalrusTransport,
+  data: Uint8Array | Blob,
+  options?: WalrusUploadOptions,
+  onBytesSent?: (loaded: number) => void
+): Promise<WalrusUploadResult> => {
+  const result = await uploadViaTransport(transport, data, options, onBytesSent);
+  if (result.status === 'error') {
+    throw new Error(result.error || 'Upload failed');
+  }
+  return result;
+};
+
+// Generic retry wrapper (aborts and declined wallet signatures are never retried)
 const withRetry = async <T>(
   fn: () => Promise<T>,
   context: string,
-  retryConfig = RETRY_CONFIG
+  retryConfig = RETRY_CONFIG,
+  signal?: AbortSignal
 ): Promise<T> => {
   let lastError: Error | null = null;
   
   for (let attempt = 1; attempt <= retryConfig.maxAttempts; attempt++) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
     try {
       console.log(`🔄 ${context} (attempt ${attempt}/${retryConfig.maxAttempts})...`);
       return await fn();
     } catch (error) {
+      if (isAbortError(error) || error instanceof WalletRejectedError) {
+        throw error;
+      }
       lastError = error instanceof Error ? error : new Error(String(error));
       console.error(`❌ ${context} attempt ${attempt} failed:`, lastError.message);
       
@@ -172,7 +322,7 @@ const withRetry = async <T>(
           retryConfig.maxDelay
         );
         console.log(`⏳ Retrying in ${delay}ms...`);
-        await sleep(delay);
+        await sleep(delay, signal);
       }
     }
   }
@@ -180,39 +330,189 @@ const withRetry = async <T>(
   throw lastError || new Error(`${context} failed after ${retryConfig.maxAttempts} attempts`);
 };
 
-// Main upload function with SDK-first, HTTP API fallback approach and retry logic
+// A logical upload expires with its first part; undefined when no part reported an end epoch
+export const earliestEndEpoch = (parts: WalrusStoredPart[]): number | undefined => {
+  const epochs = parts.map(part => part.endEpoch).filter((epoch): epoch is number => epoch !== undefined);
+  return epochs.length > 0 ? Math.min(...epochs) : undefined;
+};
+
+// Chunked upload: slices the file, persists progress per chunk and finishes with a manifest blob
+const uploadViaChunkedTransport = async (
+  data: Blob,
+  options?: WalrusUploadOptions
+): Promise<WalrusUploadResult> => {
+  const transport = getWalrusTransport();
+  const chunkSize = options?.chunkSize || CHUNK_CONFIG.chunkSize;
+  const totalChunks = Math.max(1, Math.ceil(data.size / chunkSize));
+  const sessionId = getSessionId(data, chunkSize);
+
+  let session: UploadSession | null = await loadUploadSession(sessionId);
+  if (session) {
+    console.log(`♻️ 업로드 재개: ${Object.keys(session.chunks).length}/${totalChunks} 청크 완료됨`);
+  } else {
+    session = {
+      id: sessionId,
+      fileName: data instanceof File ? data.name : 'blob',
+      fileSize: data.size,
+      lastModified: data instanceof File ? data.lastModified : 0,
+      chunkSize,
+      epochs: options?.epochs,
+      chunks: {},
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    await saveUploadSession(session);
+  }
+
+  // Chunks finished in an earlier session count as already sent
+  let completedBytes = Object.values(session.chunks).reduce((sum, chunk) => sum + chunk.size, 0);
+  const reportProgress = createProgressTracker(data.size, options?.onProgress, completedBytes);
+  reportProgress(completedBytes);
+
+  // Every chunk is read in order (including resumed ones) so the whole-file digest covers all bytes
+  const contentHasher = createDigestHasher();
+
+  try {
+    for (let index = 0; index < totalChunks; index++) {
+      const start = index * chunkSize;
+      const chunk = new Uint8Array(await data.slice(start, Math.min(start + chunkSize, data.size)).arrayBuffer());
+      contentHasher.update(chunk);
+
+      if (session.chunks[index]) continue;
+
+      const chunkDigest = await computeDigest(chunk);
+      const chunkResult = await withRetry(
+        () => uploadViaTransportOrThrow(transport, chunk, options, loaded => reportProgress(completedBytes + loaded)),
+        `Chunk ${index + 1}/${totalChunks} upload`,
+        RETRY_CONFIG,
+        options?.signal
+      );
+
+      session.chunks[index] = {
+        index,
+        blobId: chunkResult.blobId,
+        size: chunk.byteLength,
+        digest: chunkDigest,
+        blobObjectId: chunkResult.parts?.[0]?.blobObjectId,
+        endEpoch: chunkResult.endEpoch
+      };
+      completedBytes += chunk.byteLength;
+      reportProgress(completedBytes);
+      await saveUploadSession(session);
+    }
+
+    const digest = contentHasher.digest();
+    const manifest: WalrusChunkManifest = {
+      type: 'daas-chunked-blob',
+      version: 1,
+      fileName: session.fileName,
+      totalSize: data.size,
+      chunkSize,
+      digest,
+      chunks: Object.values(session.chunks)
+        .sort((a, b) => a.index - b.index)
+        .map(({ index, blobId, size, digest }) => ({ index, blobId, size, digest }))
+    };
+
+    const manifestBlob = new Blob([JSON.stringify(manifest)], { type: 'application/json' });
+    const manifestResult = await withRetry(
+      () => uploadViaTransportOrThrow(transport, manifestBlob, options),
+      'Chunk manifest upload',
+      RETRY_CONFIG,
+      options?.signal
+    );
+
+    await deleteUploadSession(sessionId);
+    console.log('✅ 청크 업로드 완료, manifest blob:', manifestResult.blobId);
+
+    const parts: WalrusStoredPart[] = [
+      ...Object.values(session.chunks).map(({ blobId, blobObjectId, endEpoch }) => ({ blobId, blobObjectId, endEpoch })),
+      ...(manifestResult.parts ?? [])
+    ];
+
+    return {
+      status: 'success',
+      blobId: manifestResult.blobId,
+      url: manifestResult.url,
+      size: data.size,
+      digest,
+      endEpoch: earliestEndEpoch(parts),
+      parts
+    };
+  } catch (error) {
+    // Session is kept so the next attempt resumes from the last completed chunk
+    return {
+      status: 'error',
+      blobId: '',
+      error: `Chunked upload interrupted: ${error instanceof Error ? error.message : String(error)}`,
+      aborted: isAbortError(error)
+    };
+  }
+};
+
+const shouldUseChunkedUpload = (
+  data: Uint8Array | Blob | File,
+  options?: WalrusUploadOptions
+): data is Blob => {
+  if (!(data instanceof Blob)) return false;
+  if (options?.chunked !== undefined) return options.chunked;
+  return data.size > CHUNK_CONFIG.threshold;
+};
+
+// Main upload function: configured transport with retry, HTTP API fallback for SDK/wallet transports
 export const uploadToWalrus = async (
   data: Uint8Array | Blob | File,
   options?: WalrusUploadOptions
 ): Promise<WalrusUploadResult> => {
   console.log('📤 Starting Walrus upload with intelligent fallback...');
-  
-  // Try SDK first if available
-  const sdkReady = await initializeWalrusSDK();
-  
-  if (sdkReady) {
+
+  if (shouldUseChunkedUpload(data, options)) {
+    console.log('🧩 Using chunked upload for large file...');
+    return uploadViaChunkedTransport(data, options);
+  }
+
+  const transport = getWalrusTransport();
+  const totalBytes = data instanceof Blob ? data.size : data.byteLength;
+  const reportProgress = createProgressTracker(totalBytes, options?.onProgress);
+  let digest: string | undefined;
+
+  const attempt = async (target: WalrusTransport, retryConfig = RETRY_CONFIG) => {
+    const result = await withRetry(
+      () => uploadViaTransportOrThrow(target, data, options, reportProgress),
+      `${target.kind} upload`,
+      retryConfig,
+      options?.signal
+    );
+    reportProgress(totalBytes);
+    return { ...result, digest };
+  };
+
+  try {
+    // Hashed before sending so the digest describes exactly the bytes the user picked
+    digest = options?.contentDigest ?? await computeDigest(data);
+    console.log('🔒 Content digest:', digest);
+
     try {
-      console.log('🔧 Attempting SDK upload (preferred method)...');
-      return await withRetry(
-        () => uploadViaSDK(data, options),
-        'SDK upload',
-        { ...RETRY_CONFIG, maxAttempts: 2 } // Fewer retries for SDK before fallback
+      return await attempt(
+        transport,
+        canFallBackToHttp(transport) ? { ...RETRY_CONFIG, maxAttempts: 2 } : RETRY_CONFIG // Fewer retries before fallback
       );
-    } catch (sdkError) {
-      console.warn('⚠️ All SDK upload attempts failed, falling back to HTTP API:', sdkError);
-      // Fall through to HTTP API
+    } catch (primaryError) {
+      if (isAbortError(primaryError) || primaryError instanceof WalletRejectedError || !canFallBackToHttpUpload(transport)) {
+        throw primaryError;
+      }
+      console.warn(`⚠️ All ${transport.kind} upload attempts failed, falling back to HTTP API:`, primaryError);
+      return await attempt(httpFallbackTransport);
     }
-  }
-  
-  // Fallback to HTTP API with retry
-  console.log('🔄 Using HTTP API fallback with retry logic...');
-  try {
-    return await withRetry(
-      () => uploadViaHttpApi(data, options),
-      'HTTP API upload'
-    );
   } catch (error) {
     // Final fallback: return error result instead of throwing
+    if (isAbortError(error)) {
+      console.log('🛑 Upload aborted by user');
+      return { status: 'error', blobId: '', error: 'Upload aborted', aborted: true };
+    }
+    if (error instanceof WalletRejectedError) {
+      return { status: 'error', blobId: '', error: error.message };
+    }
     console.error('❌ All upload methods failed:', error);
     return {
       status: 'error',
@@ -222,72 +522,352 @@ export const uploadToWalrus = async (
   }
 };
 
-// SDK read implementation - DISABLED
-const readViaSDK = async (
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  blobId: string
-): Promise<Uint8Array> => {
-  // SDK is disabled, always throw error to trigger HTTP API fallback
-  throw new Error('SDK is disabled, use HTTP API');
+// Cost estimation configuration
+// Gas is a rough per-blob figure for the register + certify transactions; the wallet shows the exact amount
+const COST_CONFIG = {
+  gasUnitsPerBlob: 4_000, // Computation units over both transactions
+  storageFeeMistPerBlob: 4_000_000, // Sui storage fee for the Blob object (partly rebated when it is deleted)
+  manifestBytesPerChunk: 150 // JSON entry per chunk in WalrusChunkManifest
 };
 
-// HTTP API read implementation
-const readViaHttpApi = async (blobId: string): Promise<Uint8Array> => {
-  try {
-    console.log('📥 Using HTTP API for read...');
-    
-    const response = await fetch(`${WALRUS_CONFIG.aggregator}/v1/blobs/${blobId}`);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP API read failed: ${response.status} ${response.statusText} - ${errorText}`);
+export interface WalrusCostEstimateOptions {
+  epochs?: number;
+  chunked?: boolean; // Same semantics as WalrusUploadOptions.chunked
+  chunkSize?: number;
+  paidBy?: 'wallet' | 'publisher'; // Defaults to what the active transport does
+}
+
+export interface WalrusStorageModeCost {
+  totalWal: bigint; // FROST
+  gasMist: bigint;
+  deletableEarly: boolean;
+  reclaimableWal: bigint; // Storage that can be reused for another blob after deleting this one (FROST)
+}
+
+export interface WalrusCostEstimate {
+  size: number; // Unencoded bytes
+  epochs: number;
+  blobCount: number; // Chunks plus manifest for chunked uploads
+  encodedSize: number; // Billed size after erasure coding (rounded up to storage units)
+  storageWal: bigint; // FROST, for all epochs
+  writeWal: bigint; // FROST, one-off upload fee
+  totalWal: bigint; // FROST
+  gasMist: bigint;
+  paidBy: 'wallet' | 'publisher'; // HTTP publishers pay for storage themselves
+  comparison: {
+    deletable: WalrusStorageModeCost;
+    permanent: WalrusStorageModeCost;
+  };
+}
+
+// Sizes of the blobs an upload of `size` bytes turns into (mirrors uploadToWalrus' chunking decision)
+const planUploadBlobs = (size: number, options?: WalrusCostEstimateOptions): number[] => {
+  const chunked = options?.chunked ?? size > CHUNK_CONFIG.threshold;
+  if (!chunked) return [size];
+
+  const chunkSize = options?.chunkSize || CHUNK_CONFIG.chunkSize;
+  const totalChunks = Math.max(1, Math.ceil(size / chunkSize));
+  const chunks = Array.from({ length: totalChunks }, (_, index) => Math.min(chunkSize, size - index * chunkSize));
+  return [...chunks, 256 + totalChunks * COST_CONFIG.manifestBytesPerChunk];
+};
+
+/**
+ * Expected WAL and gas cost of uploading `size` bytes for `epochs` epochs, using current on-chain prices.
+ * Walrus prices deletable and permanent storage the same; the comparison shows what each leaves you with.
+ */
+export const estimateWalrusUploadCost = async (
+  size: number,
+  options?: WalrusCostEstimateOptions
+): Promise<WalrusCostEstimate> => {
+  const epochs = options?.epochs || 10;
+  const blobSizes = planUploadBlobs(size, options);
+
+  // Same RPC endpoint as the registry client, so prices come from the configured network
+  const client = await getWalrusSdkClient('testnet', SUI_RPC_URL);
+  const [systemState, costs, gasPrice] = await Promise.all([
+    client.systemState(),
+    Promise.all(blobSizes.map(blobSize => client.storageCost(blobSize, epochs))),
+    import('@mysten/sui/client').then(({ SuiClient }) => new SuiClient({ url: SUI_RPC_URL }).getReferenceGasPrice())
+  ]);
+
+  const storageWal = costs.reduce((sum, cost) => sum + cost.storageCost, BigInt(0));
+  const writeWal = costs.reduce((sum, cost) => sum + cost.writeCost, BigInt(0));
+  const totalWal = storageWal + writeWal;
+  const gasMist = BigInt(blobSizes.length) *
+    (BigInt(COST_CONFIG.gasUnitsPerBlob) * BigInt(gasPrice) + BigInt(COST_CONFIG.storageFeeMistPerBlob));
+
+  // The write fee is charged per storage unit, so it also tells us the billed (encoded) size
+  const writePrice = BigInt(systemState.write_price_per_unit_size);
+  const storageUnits = writePrice > BigInt(0) ? Number(writeWal / writePrice) : 0;
+
+  const transport = getWalrusTransport();
+  return {
+    size,
+    epochs,
+    blobCount: blobSizes.length,
+    encodedSize: storageUnits * 1024 * 1024,
+    storageWal,
+    writeWal,
+    totalWal,
+    gasMist,
+    paidBy: options?.paidBy ?? (transport.kind === 'sdk' || transport.kind === 'wallet' ? 'wallet' : 'publisher'),
+    comparison: {
+      deletable: { totalWal, gasMist, deletableEarly: true, reclaimableWal: storageWal },
+      permanent: { totalWal, gasMist, deletableEarly: false, reclaimableWal: BigInt(0) }
     }
-    
-    const arrayBuffer = await response.arrayBuffer();
-    const data = new Uint8Array(arrayBuffer);
-    
-    console.log('✅ HTTP API read successful, size:', data.length);
+  };
+};
+
+// FROST/MIST (both 9 decimals) → "1.2345" style amount with up to `digits` decimals
+export const formatTokenAmount = (amount: bigint, digits = 4): string => {
+  const scale = BigInt(10) ** BigInt(9 - digits);
+  const rounded = (amount + scale / BigInt(2)) / scale;
+  const whole = rounded / BigInt(10) ** BigInt(digits);
+  const fraction = (rounded % BigInt(10) ** BigInt(digits)).toString().padStart(digits, '0').replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+};
+
+// Fetches a single stored blob (configured transport first, HTTP API fallback)
+const fetchBlobFromWalrus = async (blobId: string): Promise<Uint8Array> => {
+  console.log('📥 Starting Walrus read with intelligent fallback for blob:', blobId);
+
+  const transport = getWalrusTransport();
+
+  try {
+    const data = await withRetry(
+      () => transport.read(blobId),
+      `${transport.kind} read`,
+      canFallBackToHttp(transport) ? { ...RETRY_CONFIG, maxAttempts: 2 } : RETRY_CONFIG
+    );
+    console.log('✅ read successful, size:', data.length);
     return data;
   } catch (error) {
-    console.error('❌ HTTP API read failed:', error);
-    throw error;
+    if (!canFallBackToHttp(transport)) {
+      throw error;
+    }
+    console.warn(`⚠️ All ${transport.kind} read attempts failed, falling back to HTTP API:`, error);
   }
+
+  // Fallback to HTTP API with retry
+  return await withRetry(
+    () => httpFallbackTransport.read(blobId),
+    'HTTP API read'
+  );
 };
 
-// Main read function with SDK-first, HTTP API fallback approach and retry logic
-export const readFromWalrus = async (blobId: string): Promise<Uint8Array> => {
-  console.log('📥 Starting Walrus read with intelligent fallback for blob:', blobId);
-  
+// Reads a single stored blob without resolving chunk manifests; served from the local cache when possible
+export const readBlobFromWalrus = async (blobId: string): Promise<Uint8Array> => {
   // Validate blobId
   if (!blobId || blobId.trim() === '') {
     throw new Error('Invalid blobId: empty or null');
   }
-  
-  // Try SDK first if available
-  const sdkReady = await initializeWalrusSDK();
-  
-  if (sdkReady) {
-    try {
-      console.log('🔧 Attempting SDK read (preferred method)...');
-      return await withRetry(
-        () => readViaSDK(blobId),
-        'SDK read',
-        { ...RETRY_CONFIG, maxAttempts: 2 } // Fewer retries for SDK before fallback
-      );
-    } catch (sdkError) {
-      console.warn('⚠️ All SDK read attempts failed, falling back to HTTP API:', sdkError);
-      // Fall through to HTTP API
+
+  const cached = await getCachedBlob(blobId);
+  if (cached) {
+    console.log('⚡ Walrus cache hit:', blobId);
+    return cached;
+  }
+
+  const data = await fetchBlobFromWalrus(blobId);
+  await cacheBlob(blobId, data);
+  return data;
+};
+
+const openTransportStream = async (
+  transport: WalrusTransport,
+  blobId: string,
+  options: WalrusReadStreamOptions
+): Promise<ReadableStream<Uint8Array>> => {
+  if (transport.readStream) {
+    return transport.readStream(blobId, options);
+  }
+  const bytes = await transport.read(blobId, options.signal);
+  return new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(sliceByteStream(options.offset, options.length));
+};
+
+/**
+ * Streams (a byte range of) a single stored blob without resolving manifests. Only transports with
+ * native streaming (HTTP) keep memory bounded; the others read the whole blob first.
+ */
+export const openBlobStreamFromWalrus = async (
+  blobId: string,
+  options: WalrusReadStreamOptions = {}
+): Promise<ReadableStream<Uint8Array>> => {
+  if (!blobId || blobId.trim() === '') {
+    throw new Error('Invalid blobId: empty or null');
+  }
+
+  // Streams are not cached (they can be arbitrarily large) but are served from the cache
+  const cached = await getCachedBlob(blobId);
+  if (cached) {
+    return new Blob([cached as Uint8Array<ArrayBuffer>]).stream().pipeThrough(sliceByteStream(options.offset, options.length));
+  }
+
+  const transport = getWalrusTransport();
+
+  try {
+    return await withRetry(
+      () => openTransportStream(transport, blobId, options),
+      `${transport.kind} stream`,
+      canFallBackToHttp(transport) ? { ...RETRY_CONFIG, maxAttempts: 2 } : RETRY_CONFIG,
+      options.signal
+    );
+  } catch (error) {
+    if (!canFallBackToHttp(transport) || isAbortError(error)) {
+      throw error;
     }
+    console.warn(`⚠️ All ${transport.kind} stream attempts failed, falling back to HTTP API:`, error);
   }
-  
-  // Fallback to HTTP API with retry
-  console.log('🔄 Using HTTP API fallback for read with retry logic...');
+
   return await withRetry(
-    () => readViaHttpApi(blobId),
-    'HTTP API read'
+    () => openTransportStream(httpFallbackTransport, blobId, options),
+    'HTTP API stream',
+    RETRY_CONFIG,
+    options.signal
   );
 };
 
+// Detects manifest blobs (chunked uploads, layered Docker images) without trying to parse large binary blobs
+export const parseManifestBlob = (data: Uint8Array): WalrusChunkManifest | DockerImageManifest | null => {
+  if (data.length === 0 || data.length > MANIFEST_BLOB_MAX_SIZE || data[0] !== 0x7b /* '{' */) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(data));
+    if (parsed?.type === 'daas-chunked-blob' && Array.isArray(parsed.chunks)) {
+      return parsed as WalrusChunkManifest;
+    }
+    if (isDockerImageManifest(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Not JSON - a regular blob
+  }
+  return null;
+};
+
+/**
+ * The manifest stored at blobId, or null for plain blobs. Reads the first byte, then at most
+ * MANIFEST_BLOB_MAX_SIZE + 1 bytes, so a multi-GB tar is never downloaded to find out.
+ */
+export const readManifestFromWalrus = async (
+  blobId: string
+): Promise<WalrusChunkManifest | DockerImageManifest | null> => {
+  const readPrefix = async (length: number) => new Uint8Array(await new Response(
+    await openBlobStreamFromWalrus(blobId, { offset: 0, length }) as ReadableStream<Uint8Array<ArrayBuffer>>
+  ).arrayBuffer());
+
+  if ((await readPrefix(1))[0] !== 0x7b /* '{' */) return null;
+  return parseManifestBlob(await readPrefix(MANIFEST_BLOB_MAX_SIZE + 1));
+};
+
+// Reassembles a chunked upload into the original bytes, verifying each chunk that has a digest
+const readChunkedBlob = async (manifest: WalrusChunkManifest): Promise<Uint8Array> => {
+  const output = new Uint8Array(manifest.totalSize);
+
+  for (const chunk of manifest.chunks) {
+    const bytes = await withRetry(
+      () => readBlobFromWalrus(chunk.blobId),
+      `Chunk ${chunk.index + 1}/${manifest.chunks.length} read`
+    );
+    if (chunk.digest) {
+      await verifyDigest(chunk.blobId, bytes, chunk.digest);
+    }
+    output.set(bytes, chunk.index * manifest.chunkSize);
+  }
+
+  return output;
+};
+
+// Main read function: resolves manifests back into the original bytes and verifies digests
+export const readFromWalrus = async (blobId: string, options?: WalrusReadOptions): Promise<Uint8Array> => {
+  const stored = await readBlobFromWalrus(blobId);
+  const manifest = parseManifestBlob(stored);
+
+  let data = stored;
+  if (manifest?.type === 'daas-chunked-blob') {
+    console.log(`🧩 Chunked blob detected (${manifest.chunks.length} chunks), reassembling...`);
+    data = await readChunkedBlob(manifest);
+  } else if (manifest?.type === 'daas-docker-image') {
+    console.log(`🐳 Layered Docker image detected (${manifest.layers.length} layers), reassembling tar...`);
+    // Each stored entry is verified against its own digest as it is read
+    data = await assembleDockerImageTar(manifest, entry =>
+      readFromWalrus(entry.blobId as string, { expectedDigest: entry.digest })
+    );
+  }
+
+  const expectedDigests = [options?.expectedDigest, manifest?.digest].filter((digest): digest is string => !!digest);
+  if (expectedDigests.length > 0) {
+    const actual = await computeDigest(data);
+    for (const expected of expectedDigests) {
+      if (normalizeDigest(expected) !== actual) {
+        throw new WalrusIntegrityError(blobId, normalizeDigest(expected), actual);
+      }
+    }
+    console.log('🔒 Integrity verified:', actual);
+  }
+
+  return options?.decrypt ? options.decrypt(data) : data;
+};
+
+// Aggregator URLs look like .../v1/blobs/<blobId> (older registrations use .../v1/<blobId>)
+export const extractBlobId = (url: string): string | null => {
+  const match = url.match(/\/v1\/(?:blobs\/)?([A-Za-z0-9_-]+)\/?$/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Downloads a registered image URL with the same integrity checks as readFromWalrus.
+ * Walrus URLs go through the configured transports; other mirrors are fetched directly.
+ */
+export const downloadFromWalrusUrl = async (url: string, options?: WalrusReadOptions): Promise<Uint8Array> => {
+  const blobId = extractBlobId(url);
+  if (blobId) {
+    return readFromWalrus(blobId, options);
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+  const data = new Uint8Array(await response.arrayBuffer());
+  if (options?.expectedDigest) {
+    await verifyDigest(url, data, options.expectedDigest);
+  }
+  return options?.decrypt ? options.decrypt(data) : data;
+};
+
+/**
+ * Stores an existing blob again for `epochs` more epochs. Used when we don't own its Blob object
+ * (e.g. it was certified through a public publisher); the blob ID stays the same.
+ */
+export const renewBlobStorage = async (
+  blobId: string,
+  options?: WalrusUploadOptions
+): Promise<WalrusUploadResult> => {
+  try {
+    const data = await readBlobFromWalrus(blobId);
+    const result = await withRetry(
+      () => uploadViaTransportOrThrow(getWalrusTransport(), data, options),
+      `Renew ${blobId}`,
+      RETRY_CONFIG,
+      options?.signal
+    );
+    if (result.blobId !== blobId) {
+      throw new Error(`Renewed blob ID ${result.blobId} does not match ${blobId}`);
+    }
+    return result;
+  } catch (error) {
+    return {
+      status: 'error',
+      blobId,
+      error: `Blob renewal failed: ${error instanceof Error ? error.message : String(error)}`,
+      aborted: isAbortError(error)
+    };
+  }
+};
+
 // Docker image export and upload functions
 export const exportDockerImage = async (imageName: string): Promise<Blob> => {
   return new Promise((resolve) => {
@@ -368,13 +948,15 @@ export const uploadProjectToWalrus = async (
       status: dockerImageName && (!dockerResult || dockerResult.status === 'error') ? 'partial' : 'success',
       codeBlobId: codeResult.blobId,
       codeUrl: codeResult.url,
-      codeSize: codeResult.size
+      codeSize: codeResult.size,
+      codeDigest: codeResult.digest
     };
 
     if (dockerResult && dockerResult.status !== 'error') {
       result.dockerBlobId = dockerResult.blobId;
       result.dockerUrl = dockerResult.url;
       result.dockerSize = dockerResult.size;
+      result.dockerDigest = dockerResult.digest;
     }
 
     console.log('✅ 프로젝트 업로드 완료!');
@@ -394,70 +976,47 @@ export const uploadProjectToWalrus = async (
   }
 };
 
-// Define SealClient interface
-interface SealClient {
-  isSessionActive: () => boolean;
-  encryptAndUploadToWalrus: (
-    data: Uint8Array,
-    dataType: number,
-    uploadFunction: typeof uploadToWalrus
-  ) => Promise<{
-    blobId: string;
-    keyId: string;
-    encryptedKey: string;
-    metadata: { walrusUrl: string };
-  }>;
-}
-
 interface SealMetadata {
-  code?: { encrypted: boolean; keyId: string; encryptedKey: string };
-  docker?: { encrypted: boolean; keyId: string; encryptedKey: string };
+  code?: SealEnvelope;
+  docker?: SealEnvelope;
 }
 
-// Seal 통합 업로드 함수
+// Seal 통합 업로드 함수 (projectData가 Blob이면 JSON 대신 그 바이트를 그대로 업로드)
+// codeUpload는 소스코드 blob의 업로드 결과 그대로 (수명 추적용 parts/endEpoch 포함)
 export const uploadProjectWithSeal = async (
-  projectData: ProjectData | Record<string, unknown>,
+  projectData: ProjectData | Record<string, unknown> | Blob,
   dockerImageName?: string,
-  sealClient?: SealClient,
+  sealService?: SealService,
   options?: WalrusUploadOptions
-): Promise<WalrusProjectUploadResult & { sealMetadata?: SealMetadata }> => {
+): Promise<WalrusProjectUploadResult & { sealMetadata?: SealMetadata; codeUpload?: WalrusUploadResult }> => {
   try {
     console.log('🔐 Seal 암호화 + Walrus 업로드 시작...');
 
-    let codeSealMetadata;
-    let dockerSealMetadata;
+    let codeSealMetadata: SealEnvelope | undefined;
+    let dockerSealMetadata: SealEnvelope | undefined;
 
     // 1. 소스코드 처리
     console.log('📦 1단계: 소스코드 처리...');
-    const jsonData = JSON.stringify(projectData, null, 2);
-    const codeData = new TextEncoder().encode(jsonData);
-
     let codeResult: WalrusUploadResult;
 
-    if (sealClient && sealClient.isSessionActive()) {
+    if (sealService) {
       // Seal 암호화 후 업로드
       console.log('🔒 Seal 암호화 적용 중...');
-      const sealResult = await sealClient.encryptAndUploadToWalrus(
-        codeData,
-        0, // DataType.SECRETS
-        uploadToWalrus
-      );
-
-      codeResult = {
-        status: 'success',
-        blobId: sealResult.blobId,
-        url: sealResult.metadata.walrusUrl
-      };
-
-      codeSealMetadata = {
-        encrypted: true,
-        keyId: sealResult.keyId,
-        encryptedKey: sealResult.encryptedKey
-      };
+      const codeData = projectData instanceof Blob
+        ? new Uint8Array(await projectData.arrayBuffer())
+        : new TextEncoder().encode(JSON.stringify(projectData, null, 2));
+      const sealResult = await sealService.encryptAndUpload(codeData, {
+        ...options,
+        metadata: { type: 'source-code', ...options?.metadata }
+      });
+      codeResult = sealResult;
+      codeSealMetadata = sealResult.seal;
     } else {
       // 일반 업로드
       console.log('📤 일반 업로드 (암호화 없음)...');
-      const codeBlob = new Blob([codeData], { type: 'application/json' });
+      const codeBlob = projectData instanceof Blob
+        ? projectData
+        : new Blob([JSON.stringify(projectData, null, 2)], { type: 'application/json' });
       codeResult = await uploadToWalrus(codeBlob, {
         ...options,
         metadata: { type: 'source-code', ...options?.metadata }
@@ -467,7 +1026,8 @@ export const uploadProjectWithSeal = async (
     if (codeResult.status === 'error') {
       return {
         status: 'error',
-        error: `소스코드 업로드 실패: ${codeResult.error}`
+        error: `소스코드 업로드 실패: ${codeResult.error}`,
+        codeUpload: codeResult
       };
     }
 
@@ -478,28 +1038,16 @@ export const uploadProjectWithSeal = async (
       try {
         console.log('🐳 2단계: Docker 이미지 처리...');
         const dockerBlob = await exportDockerImage(dockerImageName);
-        const dockerData = await dockerBlob.arrayBuffer();
 
-        if (sealClient && sealClient.isSessionActive()) {
-          // Seal 암호화 후 업로드
+        if (sealService) {
+          // Seal 암호화 후 업로드 (레이어 단위 중복 제거 없이 tar 전체를 하나의 암호문으로)
           console.log('🔒 Docker 이미지 Seal 암호화 중...');
-          const sealResult = await sealClient.encryptAndUploadToWalrus(
-            new Uint8Array(dockerData),
-            1, // DataType.CONFIG
-            uploadToWalrus
-          );
-
-          dockerResult = {
-            status: 'success',
-            blobId: sealResult.blobId,
-            url: sealResult.metadata.walrusUrl
-          };
-
-          dockerSealMetadata = {
-            encrypted: true,
-            keyId: sealResult.keyId,
-            encryptedKey: sealResult.encryptedKey
-          };
+          const sealResult = await sealService.encryptAndUpload(new Uint8Array(await dockerBlob.arrayBuffer()), {
+            ...options,
+            metadata: { type: 'docker-image', imageName: dockerImageName, ...options?.metadata }
+          });
+          dockerResult = sealResult;
+          dockerSealMetadata = sealResult.seal;
         } else {
           // 일반 업로드
           dockerResult = await uploadToWalrus(dockerBlob, {
@@ -517,17 +1065,20 @@ export const uploadProjectWithSeal = async (
     }
 
     // 3. 결과 정리
-    const result: WalrusProjectUploadResult & { sealMetadata?: SealMetadata } = {
+    const result: WalrusProjectUploadResult & { sealMetadata?: SealMetadata; codeUpload?: WalrusUploadResult } = {
       status: dockerImageName && (!dockerResult || dockerResult.status === 'error') ? 'partial' : 'success',
       codeBlobId: codeResult.blobId,
       codeUrl: codeResult.url,
-      codeSize: codeResult.size
+      codeSize: codeResult.size,
+      codeDigest: codeResult.digest,
+      codeUpload: codeResult
     };
 
     if (dockerResult && dockerResult.status !== 'error') {
       result.dockerBlobId = dockerResult.blobId;
       result.dockerUrl = dockerResult.url;
       result.dockerSize = dockerResult.size;
+      result.dockerDigest = dockerResult.digest;
     }
 
     // Seal 메타데이터 추가
@@ -0,0 +1,317 @@
+// Layer-aware Docker image upload
+// Each layer (and the config) is stored once as a content-addressed Walrus blob, so new versions of an
+// image only upload the layers that changed. A small manifest blob references them; readFromWalrus
+// turns that manifest back into a loadable `docker save` tar.
+
+import {
+  uploadToWalrus,
+  createProgressTracker,
+  earliestEndEpoch,
+  extractBlobId,
+  openBlobStreamFromWalrus,
+  readManifestFromWalrus,
+  MANIFEST_BLOB_MAX_SIZE,
+  type WalrusUploadOptions,
+  type WalrusUploadResult,
+  type WalrusStoredPart
+} from './walrus-client';
+import { getCurrentWalrusEpoch } from './walrus-lifetime';
+import { createDigestHasher, type DigestHasher } from './walrus-integrity';
+import { createRecordStore } from './idb-store';
+import { getDockerRegistryClient, isRegistryConfigured, primaryUrl, type RegistryPage } from './docker-registry';
+import {
+  parseDockerSaveTar,
+  paddedSize,
+  assembledTarSize,
+  bytesToBase64,
+  INLINE_ENTRY_MAX_SIZE,
+  type DockerImageManifest,
+  type DockerTarEntry,
+  type ParsedTarEntry
+} from './docker-image-tar';
+
+export interface StoredLayerRecord {
+  digest: string;
+  blobId: string;
+  size: number;
+  storedAt: number;
+  epochs?: number;
+  endEpoch?: number;
+  parts?: WalrusStoredPart[];
+}
+
+export interface WalrusDockerUploadResult extends WalrusUploadResult {
+  repoTags?: string[];
+  layers?: {
+    total: number;
+    uploaded: number;
+    reused: number;
+    reusedBytes: number;
+  };
+}
+
+// digest -> blobId of everything stored so far, shared by all images uploaded from this browser
+const layerIndex = createRecordStore<StoredLayerRecord>({
+  dbName: 'daas-walrus-layers',
+  storeName: 'layers',
+  keyPath: 'digest',
+  keyOf: record => record.digest,
+  label: '레이어 인덱스'
+});
+
+export const listStoredLayers = (): Promise<StoredLayerRecord[]> => layerIndex.getAll();
+
+export const SHARED_LAYER_CONFIG = {
+  maxManifests: 200 // The uploader's registry images whose manifests are read per upload when looking for a layer
+};
+
+interface SharedLayerIndex {
+  find(digest: string, size: number): Promise<StoredLayerRecord | null>;
+}
+
+const readPrefix = async (blobId: string, length: number): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(
+    await openBlobStreamFromWalrus(blobId, { offset: 0, length }) as ReadableStream<Uint8Array<ArrayBuffer>>
+  ).arrayBuffer());
+
+// Still readable from an aggregator (expired or deleted blobs are not); reads a single byte
+const isBlobReadable = async (blobId: string): Promise<boolean> => {
+  try {
+    await readPrefix(blobId, 1);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Layered image manifest of a registered image, or null. Plain tars are recognised by their first byte, and
+// manifests are read with a bounded range, so a scan never downloads whole images.
+const readImageManifest = async (blobId: string): Promise<DockerImageManifest | null> => {
+  try {
+    const manifest = await readManifestFromWalrus(blobId);
+    return manifest?.type === 'daas-docker-image' ? manifest : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * digest -> blob of layers the uploader already stored from any browser: their layered Docker images in the
+ * registry list every config and layer blob. Other owners' images are not trusted: their manifests could name
+ * any blob for a digest, and they can delete those blobs. Manifests are read lazily, only until the digests
+ * asked for are found.
+ */
+const createSharedLayerIndex = (owner: string | undefined): SharedLayerIndex => {
+  const known = new Map<string, StoredLayerRecord>();
+  let pages: AsyncGenerator<RegistryPage> | null = null;
+  let scanned = 0;
+  let exhausted = !owner || !isRegistryConfigured();
+
+  const scanNextPage = async () => {
+    pages ??= getDockerRegistryClient().iterateUserImagePages(owner as string);
+    const next = await pages.next();
+    if (next.done) {
+      exhausted = true;
+      return;
+    }
+
+    for (const image of next.value.images) {
+      const blobId = image.uploadType === 'docker' ? extractBlobId(primaryUrl(image)) : null;
+      if (!blobId) continue;
+      if (++scanned > SHARED_LAYER_CONFIG.maxManifests) {
+        exhausted = true;
+        return;
+      }
+
+      const manifest = await readImageManifest(blobId);
+      if (!manifest) continue;
+      for (const entry of manifest.entries) {
+        if (entry.blobId && entry.digest && !known.has(entry.digest)) {
+          known.set(entry.digest, { digest: entry.digest, blobId: entry.blobId, size: entry.size, storedAt: image.timestamp });
+        }
+      }
+    }
+  };
+
+  return {
+    find: async (digest, size) => {
+      try {
+        while (!known.has(digest) && !exhausted) {
+          await scanNextPage();
+        }
+      } catch (error) {
+        console.warn('⚠️ 레지스트리 레이어 조회 실패, 로컬 인덱스만 사용:', error);
+        exhausted = true;
+      }
+
+      const record = known.get(digest);
+      if (!record || record.size !== size) return null;
+      if (!(await isBlobReadable(record.blobId))) {
+        known.delete(digest);
+        return null;
+      }
+      return record;
+    }
+  };
+};
+
+const HASH_SLICE_SIZE = 8 * 1024 * 1024;
+
+// Hashes an entry in slices, feeding the whole-tar hasher at the same time
+const hashEntry = async (data: Blob, tarHasher: DigestHasher): Promise<string> => {
+  const entryHasher = createDigestHasher();
+  for (let offset = 0; offset < data.size; offset += HASH_SLICE_SIZE) {
+    const slice = new Uint8Array(await data.slice(offset, Math.min(offset + HASH_SLICE_SIZE, data.size)).arrayBuffer());
+    entryHasher.update(slice);
+    tarHasher.update(slice);
+  }
+  return entryHasher.digest();
+};
+
+const isRegularFile = (entry: ParsedTarEntry): boolean => entry.typeflag === '0' || entry.typeflag === '7';
+
+/**
+ * Uploads a `docker save` tar layer by layer, reusing layers already stored on Walrus
+ */
+export const uploadDockerImageToWalrus = async (
+  file: Blob,
+  options?: WalrusUploadOptions
+): Promise<WalrusDockerUploadResult> => {
+  try {
+    console.log('🐳 Docker 이미지 레이어 분석 중...');
+    const parsed = await parseDockerSaveTar(file);
+    const referenced = new Set([parsed.configPath, ...parsed.layerPaths].filter(Boolean));
+
+    // Config and layers are always stored separately so they can be shared between images
+    const isStoredSeparately = (entry: ParsedTarEntry) =>
+      isRegularFile(entry) && (referenced.has(entry.path) || entry.size > INLINE_ENTRY_MAX_SIZE);
+
+    const totalBytes = parsed.entries.filter(isStoredSeparately).reduce((sum, entry) => sum + entry.size, 0);
+    const reportProgress = createProgressTracker(totalBytes, options?.onProgress);
+    const tarHasher = createDigestHasher();
+    const digestsByPath = new Map<string, string>();
+    const stats = { total: 0, uploaded: 0, reused: 0, reusedBytes: 0 };
+    const entries: DockerTarEntry[] = [];
+    const parts: WalrusStoredPart[] = [];
+    let completedBytes = 0;
+
+    // Layers that already expired (or are about to) are uploaded again instead of reused
+    const currentEpoch = await getCurrentWalrusEpoch();
+    const isReusable = (record: StoredLayerRecord) =>
+      currentEpoch === undefined || record.endEpoch === undefined || record.endEpoch > currentEpoch + 1;
+    const sharedLayers = createSharedLayerIndex(options?.walletAddress);
+
+    for (const entry of parsed.entries) {
+      tarHasher.update(entry.header);
+      const record: DockerTarEntry = {
+        path: entry.path,
+        typeflag: entry.typeflag,
+        size: entry.size,
+        header: bytesToBase64(entry.header)
+      };
+
+      if (isStoredSeparately(entry)) {
+        const digest = await hashEntry(entry.data, tarHasher);
+        digestsByPath.set(entry.path, digest);
+        stats.total++;
+
+        // Layers in the uploader's registry images first, then this browser's own uploads;
+        // the local record is kept when it is the same blob, since it knows the end epoch
+        const local = await layerIndex.get(digest);
+        const shared = await sharedLayers.find(digest, entry.size);
+        const existing = shared && shared.blobId !== local?.blobId ? shared : local;
+        if (existing && isReusable(existing)) {
+          console.log(`♻️ 레이어 재사용: ${entry.path} (${digest})`);
+          record.blobId = existing.blobId;
+          parts.push(...(existing.parts ?? [{ blobId: existing.blobId, endEpoch: existing.endEpoch }]));
+          stats.reused++;
+          stats.reusedBytes += entry.size;
+        } else {
+          const result = await uploadToWalrus(entry.data, {
+            ...options,
+            contentDigest: digest,
+            metadata: { ...options?.metadata, path: entry.path },
+            onProgress: progress => reportProgress(completedBytes + progress.bytesSent)
+          });
+          if (result.status === 'error') {
+            return { ...result, error: `레이어 업로드 실패 (${entry.path}): ${result.error}` };
+          }
+
+          record.blobId = result.blobId;
+          parts.push(...(result.parts ?? []));
+          stats.uploaded++;
+          await layerIndex.put({
+            digest,
+            blobId: result.blobId,
+            size: entry.size,
+            storedAt: Date.now(),
+            epochs: options?.epochs,
+            endEpoch: result.endEpoch,
+            parts: result.parts
+          });
+        }
+
+        record.digest = digest;
+        completedBytes += entry.size;
+        reportProgress(completedBytes);
+      } else {
+        const bytes = new Uint8Array(await entry.data.arrayBuffer());
+        tarHasher.update(bytes);
+        record.inline = bytesToBase64(bytes);
+      }
+
+      tarHasher.update(new Uint8Array(paddedSize(entry.size) - entry.size));
+      entries.push(record);
+    }
+
+    const totalSize = assembledTarSize(entries);
+    tarHasher.update(new Uint8Array(1024)); // End-of-archive blocks written on reassembly
+
+    const manifest: DockerImageManifest = {
+      type: 'daas-docker-image',
+      version: 1,
+      repoTags: parsed.repoTags,
+      config: parsed.configPath ? digestsByPath.get(parsed.configPath) : undefined,
+      layers: parsed.layerPaths.map(path => digestsByPath.get(path)).filter((digest): digest is string => !!digest),
+      totalSize,
+      digest: tarHasher.digest(),
+      entries
+    };
+
+    const manifestBlob = new Blob([JSON.stringify(manifest)], { type: 'application/json' });
+    if (manifestBlob.size > MANIFEST_BLOB_MAX_SIZE) {
+      throw new Error(`Docker image manifest too large (${manifestBlob.size} bytes)`);
+    }
+
+    const manifestResult = await uploadToWalrus(manifestBlob, {
+      ...options,
+      chunked: false,
+      onProgress: undefined
+    });
+    if (manifestResult.status === 'error') {
+      return manifestResult;
+    }
+
+    parts.push(...(manifestResult.parts ?? []));
+    console.log(`✅ Docker 이미지 업로드 완료: 레이어 ${stats.uploaded}개 업로드, ${stats.reused}개 재사용`);
+
+    return {
+      status: 'success',
+      blobId: manifestResult.blobId,
+      url: manifestResult.url,
+      size: totalSize,
+      digest: manifest.digest,
+      endEpoch: earliestEndEpoch(parts),
+      parts,
+      repoTags: parsed.repoTags,
+      layers: stats
+    };
+  } catch (error) {
+    console.error('❌ Docker 이미지 업로드 실패:', error);
+    return {
+      status: 'error',
+      blobId: '',
+      error: `Docker image upload failed: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+};
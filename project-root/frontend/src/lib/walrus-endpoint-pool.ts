@@ -0,0 +1,167 @@
+// Health tracking for Walrus publisher/aggregator endpoints
+// Every request reports its latency and outcome; callers ask for endpoints ordered healthiest first
+
+export type EndpointRole = 'publisher' | 'aggregator' | 'mirror'; // mirror: registry download URLs (mirror-downloader)
+export type EndpointStatus = 'healthy' | 'degraded' | 'down';
+
+export interface EndpointHealth {
+  url: string;
+  role: EndpointRole;
+  status: EndpointStatus;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  errorRate: number; // 0-1 over the recent window
+  avgLatencyMs: number | null; // exponentially weighted, null until the first response
+  lastError?: string;
+  lastCheckedAt?: number;
+}
+
+const POOL_CONFIG = {
+  downAfterConsecutiveFailures: 3,
+  downCooldownMs: 30_000, // A down endpoint is tried again after this long
+  degradedErrorRate: 0.2,
+  degradedLatencyMs: 5_000,
+  latencyWeight: 0.3, // EWMA weight of the newest sample
+  windowSize: 20 // Outcomes kept for the error rate
+};
+
+interface EndpointState {
+  url: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  recentOutcomes: boolean[];
+  avgLatencyMs: number | null;
+  lastError?: string;
+  lastCheckedAt?: number;
+}
+
+const STATUS_RANK: Record<EndpointStatus, number> = { healthy: 0, degraded: 1, down: 2 };
+
+export class WalrusEndpointPool {
+  readonly role: EndpointRole;
+  private endpoints: EndpointState[];
+  private listeners = new Set<() => void>();
+
+  constructor(role: EndpointRole, urls: string[]) {
+    if (urls.length === 0) {
+      throw new Error(`Walrus ${role} pool needs at least one endpoint`);
+    }
+    this.role = role;
+    this.endpoints = urls.map(url => ({
+      url: url.replace(/\/+$/, ''),
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      recentOutcomes: [],
+      avgLatencyMs: null
+    }));
+  }
+
+  /**
+   * Endpoints ordered for the next request: healthy before degraded before down, then by latency.
+   * Down endpoints whose cooldown has expired are moved up so they get a chance to recover.
+   */
+  ranked(): string[] {
+    const now = Date.now();
+    return [...this.endpoints]
+      .map((endpoint, index) => {
+        let status = this.statusOf(endpoint);
+        if (status === 'down' && now - (endpoint.lastCheckedAt ?? 0) > POOL_CONFIG.downCooldownMs) {
+          status = 'degraded';
+        }
+        return { endpoint, index, status };
+      })
+      .sort((a, b) =>
+        STATUS_RANK[a.status] - STATUS_RANK[b.status] ||
+        (a.endpoint.avgLatencyMs ?? 0) - (b.endpoint.avgLatencyMs ?? 0) ||
+        a.index - b.index // Configuration order breaks ties
+      )
+      .map(({ endpoint }) => endpoint.url);
+  }
+
+  best(): string {
+    return this.ranked()[0];
+  }
+
+  recordSuccess(url: string, latencyMs: number): void {
+    const endpoint = this.find(url);
+    if (!endpoint) return;
+
+    endpoint.successes++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.avgLatencyMs = endpoint.avgLatencyMs === null
+      ? latencyMs
+      : endpoint.avgLatencyMs * (1 - POOL_CONFIG.latencyWeight) + latencyMs * POOL_CONFIG.latencyWeight;
+    this.pushOutcome(endpoint, true);
+  }
+
+  recordFailure(url: string, error: unknown): void {
+    const endpoint = this.find(url);
+    if (!endpoint) return;
+
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+    this.pushOutcome(endpoint, false);
+  }
+
+  snapshot(): EndpointHealth[] {
+    return this.endpoints.map(endpoint => ({
+      url: endpoint.url,
+      role: this.role,
+      status: this.statusOf(endpoint),
+      successes: endpoint.successes,
+      failures: endpoint.failures,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      errorRate: this.errorRateOf(endpoint),
+      avgLatencyMs: endpoint.avgLatencyMs,
+      lastError: endpoint.lastError,
+      lastCheckedAt: endpoint.lastCheckedAt
+    }));
+  }
+
+  /**
+   * Notified after every recorded outcome; returns an unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private find(url: string): EndpointState | undefined {
+    return this.endpoints.find(endpoint => endpoint.url === url);
+  }
+
+  private pushOutcome(endpoint: EndpointState, ok: boolean): void {
+    endpoint.lastCheckedAt = Date.now();
+    endpoint.recentOutcomes.push(ok);
+    if (endpoint.recentOutcomes.length > POOL_CONFIG.windowSize) {
+      endpoint.recentOutcomes.shift();
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  private errorRateOf(endpoint: EndpointState): number {
+    if (endpoint.recentOutcomes.length === 0) return 0;
+    const failures = endpoint.recentOutcomes.filter(ok => !ok).length;
+    return failures / endpoint.recentOutcomes.length;
+  }
+
+  private statusOf(endpoint: EndpointState): EndpointStatus {
+    if (endpoint.consecutiveFailures >= POOL_CONFIG.downAfterConsecutiveFailures) {
+      return 'down';
+    }
+    if (
+      endpoint.consecutiveFailures > 0 ||
+      this.errorRateOf(endpoint) > POOL_CONFIG.degradedErrorRate ||
+      (endpoint.avgLatencyMs ?? 0) > POOL_CONFIG.degradedLatencyMs
+    ) {
+      return 'degraded';
+    }
+    return 'healthy';
+  }
+}
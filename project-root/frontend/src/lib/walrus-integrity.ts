@@ -0,0 +1,77 @@
+// SHA-256 content digests for Walrus blobs
+// Digests use the OCI form "sha256:<hex>" and always cover the original bytes, not the chunk manifest
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+
+const DIGEST_PREFIX = 'sha256:';
+const HASH_SLICE_SIZE = 8 * 1024 * 1024; // Blobs are hashed in slices so large files are never fully buffered
+
+export class WalrusIntegrityError extends Error {
+  readonly blobId: string;
+  readonly expected: string;
+  readonly actual: string;
+
+  constructor(blobId: string, expected: string, actual: string) {
+    super(`Integrity check failed for blob ${blobId}: expected ${expected}, got ${actual}`);
+    this.name = 'WalrusIntegrityError';
+    this.blobId = blobId;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+export const isIntegrityError = (error: unknown): error is WalrusIntegrityError =>
+  error instanceof WalrusIntegrityError;
+
+export const isValidDigest = (digest: string): boolean =>
+  /^sha256:[0-9a-f]{64}$/.test(normalizeDigest(digest));
+
+// Bare hex digests are accepted and compared case-insensitively
+export const normalizeDigest = (digest: string): string => {
+  const value = digest.trim().toLowerCase();
+  return value.startsWith(DIGEST_PREFIX) ? value : `${DIGEST_PREFIX}${value}`;
+};
+
+export interface DigestHasher {
+  update(bytes: Uint8Array): void;
+  digest(): string;
+}
+
+/**
+ * Incremental hasher for data that arrives in pieces (e.g. chunked uploads)
+ */
+export const createDigestHasher = (): DigestHasher => {
+  const hasher = sha256.create();
+  return {
+    update: bytes => {
+      hasher.update(bytes);
+    },
+    digest: () => `${DIGEST_PREFIX}${bytesToHex(hasher.digest())}`
+  };
+};
+
+export const computeDigest = async (data: Uint8Array | Blob): Promise<string> => {
+  const hasher = createDigestHasher();
+
+  if (data instanceof Uint8Array) {
+    hasher.update(data);
+  } else {
+    for (let offset = 0; offset < data.size; offset += HASH_SLICE_SIZE) {
+      const slice = data.slice(offset, Math.min(offset + HASH_SLICE_SIZE, data.size));
+      hasher.update(new Uint8Array(await slice.arrayBuffer()));
+    }
+  }
+
+  return hasher.digest();
+};
+
+/**
+ * Throws WalrusIntegrityError when the bytes don't match the expected digest
+ */
+export const verifyDigest = async (blobId: string, data: Uint8Array, expected: string): Promise<void> => {
+  const actual = await computeDigest(data);
+  if (actual !== normalizeDigest(expected)) {
+    throw new WalrusIntegrityError(blobId, normalizeDigest(expected), actual);
+  }
+};
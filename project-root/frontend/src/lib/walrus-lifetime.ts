@@ -0,0 +1,416 @@
+// Blob lifetime tracking and renewal
+// Walrus stores blobs until an end epoch; we remember it per upload so images don't silently expire
+
+import { Transaction } from '@mysten/sui/transactions';
+import { createRecordStore } from './idb-store';
+import { getWalrusSdkClient, type WalrusSdkClient } from './walrus-transport';
+import { SUI_RPC_URL } from './docker-registry';
+import {
+  renewBlobStorage,
+  earliestEndEpoch,
+  readManifestFromWalrus,
+  type WalrusUploadResult,
+  type WalrusStoredPart
+} from './walrus-client';
+
+export interface BlobLifetimeRecord {
+  blobId: string; // Logical blob (what gets registered on-chain)
+  label: string;
+  owner?: string;
+  size?: number;
+  deletable: boolean;
+  endEpoch?: number; // Earliest end epoch over all parts
+  parts: WalrusStoredPart[];
+  sealId?: string; // Seal identity the stored bytes are encrypted under
+  pendingDeletion?: { supersededBy: string; markedAt: number }; // Replaced (e.g. by key rotation); safe to delete
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type BlobLifetimeStatus = 'active' | 'expiring' | 'expired' | 'unknown';
+
+export interface WalrusEpochInfo {
+  epoch: number;
+  epochDurationMs: number;
+  fetchedAt: number;
+}
+
+export interface ExtendLifetimeOptions {
+  epochs: number;
+  owner: string;
+  signAndExecute: (input: { transaction: Transaction }) => Promise<{ digest: string }>;
+  signal?: AbortSignal;
+}
+
+export interface ExtendLifetimeResult {
+  blobId: string;
+  status: 'extended' | 'error';
+  endEpoch?: number;
+  error?: string;
+}
+
+export interface DeleteBlobsOptions {
+  owner: string;
+  signAndExecute: (input: { transaction: Transaction }) => Promise<{ digest: string }>;
+}
+
+export interface DeleteBlobResult {
+  blobId: string;
+  status: 'deleted' | 'skipped' | 'error';
+  reason?: string; // Why a blob was skipped
+  error?: string;
+}
+
+export const LIFETIME_CONFIG = {
+  warningEpochs: 2, // Warn when a blob has this many epochs (or fewer) left
+  epochInfoTtlMs: 10 * 60 * 1000,
+  ownedBlobMaxPages: 20 // Owned Blob object pages scanned for a deletable blob's end epoch
+};
+
+const lifetimeStore = createRecordStore<BlobLifetimeRecord>({
+  dbName: 'daas-walrus-lifetimes',
+  storeName: 'blobs',
+  keyPath: 'blobId',
+  keyOf: record => record.blobId,
+  label: 'Blob 수명 기록'
+});
+
+const listeners = new Set<() => void>();
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+/**
+ * Notified whenever a record is added or extended; returns an unsubscribe function
+ */
+export const subscribeBlobLifetimes = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordBlobLifetime = async (
+  result: WalrusUploadResult,
+  info: { label: string; owner?: string; deletable: boolean; sealId?: string }
+): Promise<BlobLifetimeRecord | null> => {
+  if (result.status === 'error' || !result.blobId) return null;
+
+  const parts = result.parts ?? [{ blobId: result.blobId, endEpoch: result.endEpoch }];
+  const record: BlobLifetimeRecord = {
+    blobId: result.blobId,
+    label: info.label,
+    owner: info.owner,
+    size: result.size,
+    deletable: info.deletable,
+    endEpoch: result.endEpoch ?? earliestEndEpoch(parts),
+    parts,
+    sealId: info.sealId,
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+  };
+  await lifetimeStore.put(record);
+  notifyListeners();
+  return record;
+};
+
+export const getBlobLifetime = (blobId: string): Promise<BlobLifetimeRecord | null> =>
+  lifetimeStore.get(blobId);
+
+export const listBlobLifetimes = async (owner?: string): Promise<BlobLifetimeRecord[]> => {
+  const records = await lifetimeStore.getAll();
+  return records
+    .filter(record => !owner || record.owner === owner)
+    .sort((a, b) => (a.endEpoch ?? Infinity) - (b.endEpoch ?? Infinity)); // Soonest to expire first
+};
+
+/**
+ * Flags a blob that has been replaced; it stays readable until deleted or expired.
+ * Blobs we never recorded get a minimal record so the flag is not lost.
+ */
+export const markBlobForDeletion = async (
+  blobId: string,
+  supersededBy: string,
+  info: { label: string; owner?: string } = { label: blobId }
+): Promise<BlobLifetimeRecord> => {
+  const existing = await lifetimeStore.get(blobId);
+  const record: BlobLifetimeRecord = {
+    ...(existing ?? { blobId, ...info, deletable: false, parts: [{ blobId }], createdAt: Date.now() }),
+    pendingDeletion: { supersededBy, markedAt: Date.now() },
+    updatedAt: Date.now()
+  };
+  await lifetimeStore.put(record);
+  notifyListeners();
+  return record;
+};
+
+export const listBlobsPendingDeletion = async (owner?: string): Promise<BlobLifetimeRecord[]> =>
+  (await listBlobLifetimes(owner)).filter(record => record.pendingDeletion);
+
+/**
+ * Deletes uploads from Walrus and drops their lifetime records. Only deletable blobs whose Blob
+ * objects we own can be deleted; parts still used by another recorded upload (shared image layers) are kept.
+ */
+export const deleteBlobs = async (blobIds: string[], options: DeleteBlobsOptions): Promise<DeleteBlobResult[]> => {
+  const all = await listBlobLifetimes(options.owner);
+  const targets = all.filter(record => blobIds.includes(record.blobId));
+  const results = new Map<string, DeleteBlobResult>(
+    blobIds
+      .filter(blobId => !targets.some(record => record.blobId === blobId))
+      .map(blobId => [blobId, { blobId, status: 'skipped', reason: '업로드 기록이 없어 Blob 객체를 알 수 없음' }])
+  );
+
+  const deletable = targets.filter(record => {
+    if (!record.deletable) {
+      results.set(record.blobId, { blobId: record.blobId, status: 'skipped', reason: '영구(permanent) blob은 삭제 불가' });
+    } else if (!record.parts.some(part => part.blobObjectId)) {
+      results.set(record.blobId, { blobId: record.blobId, status: 'skipped', reason: '소유한 Blob 객체 없음 (퍼블리셔 경유 업로드)' });
+    }
+    return !results.has(record.blobId);
+  });
+
+  if (deletable.length > 0) {
+    const sharedObjectIds = new Set(
+      all
+        .filter(record => !deletable.includes(record))
+        .flatMap(record => record.parts.map(part => part.blobObjectId))
+        .filter(Boolean)
+    );
+    const blobObjectIds = [
+      ...new Set(deletable.flatMap(record => record.parts.map(part => part.blobObjectId as string).filter(Boolean)))
+    ].filter(blobObjectId => !sharedObjectIds.has(blobObjectId));
+
+    try {
+      if (blobObjectIds.length > 0) {
+        const client = await getWalrusSdkClient();
+        const transaction = new Transaction();
+        transaction.setSender(options.owner);
+        for (const blobObjectId of blobObjectIds) {
+          // Storage resources go back to the owner
+          client.deleteBlobTransaction({
+            transaction,
+            blobObjectId,
+            owner: options.owner
+          });
+        }
+        const { digest } = await options.signAndExecute({ transaction });
+        console.log(`🗑️ Blob ${blobObjectIds.length}개 삭제 완료:`, digest);
+      }
+      for (const record of deletable) {
+        await lifetimeStore.delete(record.blobId);
+        results.set(record.blobId, { blobId: record.blobId, status: 'deleted' });
+      }
+    } catch (error) {
+      console.error('❌ Blob 삭제 트랜잭션 실패:', error);
+      for (const record of deletable) {
+        results.set(record.blobId, {
+          blobId: record.blobId,
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    notifyListeners();
+  }
+
+  return blobIds.map(blobId => results.get(blobId) as DeleteBlobResult);
+};
+
+let epochInfoCache: WalrusEpochInfo | null = null;
+
+/**
+ * Current Walrus epoch and epoch length from the staking object (cached for a few minutes)
+ */
+export const getWalrusEpochInfo = async (): Promise<WalrusEpochInfo> => {
+  if (epochInfoCache && Date.now() - epochInfoCache.fetchedAt < LIFETIME_CONFIG.epochInfoTtlMs) {
+    return epochInfoCache;
+  }
+
+  const client = await getWalrusSdkClient();
+  const state = await client.stakingState();
+  epochInfoCache = {
+    epoch: state.epoch,
+    epochDurationMs: Number(state.epoch_duration),
+    fetchedAt: Date.now()
+  };
+  return epochInfoCache;
+};
+
+// Callers that can work without epoch info (e.g. layer reuse) get undefined instead of an error
+export const getCurrentWalrusEpoch = async (): Promise<number | undefined> => {
+  try {
+    return (await getWalrusEpochInfo()).epoch;
+  } catch (error) {
+    console.warn('⚠️ Walrus epoch 조회 실패:', error);
+    return undefined;
+  }
+};
+
+export const getLifetimeStatus = (endEpoch: number | undefined, epochInfo: WalrusEpochInfo | null): BlobLifetimeStatus => {
+  if (endEpoch === undefined || !epochInfo) return 'unknown';
+  if (endEpoch <= epochInfo.epoch) return 'expired';
+  if (endEpoch - epochInfo.epoch <= LIFETIME_CONFIG.warningEpochs) return 'expiring';
+  return 'active';
+};
+
+// A deletable blob lives as long as its longest-lived certified Blob object, which only the owner's objects tell
+const findOwnedBlobEndEpoch = async (client: WalrusSdkClient, blobId: string, owner: string): Promise<number | undefined> => {
+  const [{ blobIdToInt }, { SuiClient }] = await Promise.all([import('@mysten/walrus'), import('@mysten/sui/client')]);
+  const suiClient = new SuiClient({ url: SUI_RPC_URL });
+  const target = blobIdToInt(blobId).toString();
+  const blobType = await client.getBlobType();
+
+  let endEpoch: number | undefined;
+  let cursor: string | null | undefined = null;
+  for (let page = 0; page < LIFETIME_CONFIG.ownedBlobMaxPages; page++) {
+    const result = await suiClient.getOwnedObjects({
+      owner,
+      filter: { StructType: blobType },
+      options: { showContent: true },
+      cursor
+    });
+    for (const object of result.data) {
+      const content = object.data?.content;
+      if (content?.dataType !== 'moveObject') continue;
+      const fields = content.fields as {
+        blob_id: string;
+        certified_epoch: number | null;
+        storage: { fields: { end_epoch: number | string } };
+      };
+      if (fields.blob_id !== target || fields.certified_epoch === null) continue;
+      endEpoch = Math.max(endEpoch ?? 0, Number(fields.storage.fields.end_epoch));
+    }
+    if (!result.hasNextPage) break;
+    cursor = result.nextCursor;
+  }
+  return endEpoch;
+};
+
+// Permanent blobs report their end epoch in the storage nodes' status; deletable ones need the Blob object
+const fetchPartEndEpoch = async (client: WalrusSdkClient, blobId: string, owner?: string): Promise<number | undefined> => {
+  const status = await client.getVerifiedBlobStatus({ blobId });
+  if (status.type === 'permanent') return status.endEpoch;
+  if (status.type === 'deletable' && owner) return findOwnedBlobEndEpoch(client, blobId, owner);
+  return undefined;
+};
+
+const storedEndEpochs = new Map<string, { endEpoch: Promise<number | undefined>; fetchedAt: number }>();
+
+/**
+ * End epoch of a stored upload read from Walrus and Sui, for blobs this browser has no lifetime record of
+ * (e.g. a provider looking at someone else's image). Chunked uploads and image manifests expire with their
+ * earliest part; undefined when any part's end epoch is unknown.
+ */
+export const fetchStoredEndEpoch = (blobId: string, owner?: string): Promise<number | undefined> => {
+  const key = `${blobId}:${owner ?? ''}`;
+  const cached = storedEndEpochs.get(key);
+  if (cached && Date.now() - cached.fetchedAt < LIFETIME_CONFIG.epochInfoTtlMs) return cached.endEpoch;
+
+  const endEpoch = (async () => {
+    const manifest = await readManifestFromWalrus(blobId);
+    const partIds = manifest?.type === 'daas-chunked-blob'
+      ? manifest.chunks.map(chunk => chunk.blobId)
+      : manifest?.entries.map(entry => entry.blobId).filter((id): id is string => !!id) ?? [];
+
+    const client = await getWalrusSdkClient();
+    const parts: WalrusStoredPart[] = [];
+    // One part at a time: every status query fans out to the whole committee
+    for (const partId of new Set([blobId, ...partIds])) {
+      const partEndEpoch = await fetchPartEndEpoch(client, partId, owner);
+      if (partEndEpoch === undefined) return undefined;
+      parts.push({ blobId: partId, endEpoch: partEndEpoch });
+    }
+    return earliestEndEpoch(parts);
+  })();
+
+  storedEndEpochs.set(key, { endEpoch, fetchedAt: Date.now() });
+  endEpoch.catch(() => storedEndEpochs.delete(key));
+  return endEpoch;
+};
+
+/**
+ * Approximate wall-clock expiry; the current epoch's progress is unknown, so this is an upper bound
+ */
+export const estimateExpiry = (endEpoch: number, epochInfo: WalrusEpochInfo): Date =>
+  new Date(epochInfo.fetchedAt + Math.max(0, endEpoch - epochInfo.epoch) * epochInfo.epochDurationMs);
+
+/**
+ * Extends one or more uploads by `epochs`. Parts whose Blob object we own are extended in a single
+ * wallet transaction; the rest are stored again, which keeps their blob IDs.
+ */
+export const extendBlobLifetimes = async (
+  selected: BlobLifetimeRecord[],
+  options: ExtendLifetimeOptions
+): Promise<ExtendLifetimeResult[]> => {
+  // Work on copies; parts are updated as extensions succeed
+  const records = selected.map(record => ({ ...record, parts: record.parts.map(part => ({ ...part })) }));
+  const results = new Map<string, ExtendLifetimeResult>();
+  const fail = (record: BlobLifetimeRecord, error: unknown) => {
+    results.set(record.blobId, {
+      blobId: record.blobId,
+      status: 'error',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  };
+
+  // 1. Owned Blob objects: one transaction for everything selected
+  const ownedParts = records.flatMap(record => record.parts.filter(part => part.blobObjectId));
+  if (ownedParts.length > 0) {
+    try {
+      const client = await getWalrusSdkClient();
+      const transaction = new Transaction();
+      transaction.setSender(options.owner);
+      // Layers shared between images appear in several records but must be extended once
+      const blobObjectIds = [...new Set(ownedParts.map(part => part.blobObjectId as string))];
+      for (const blobObjectId of blobObjectIds) {
+        await client.extendBlobTransaction({
+          transaction,
+          blobObjectId,
+          epochs: options.epochs
+        });
+      }
+      const { digest } = await options.signAndExecute({ transaction });
+      console.log(`✅ Blob ${blobObjectIds.length}개 연장 완료:`, digest);
+      ownedParts.forEach(part => {
+        if (part.endEpoch !== undefined) part.endEpoch += options.epochs;
+      });
+    } catch (error) {
+      console.error('❌ Blob 연장 트랜잭션 실패:', error);
+      records.filter(record => record.parts.some(part => part.blobObjectId)).forEach(record => fail(record, error));
+    }
+  }
+
+  // 2. Parts without a Blob object: store the same bytes again for the requested epochs
+  for (const record of records) {
+    if (results.has(record.blobId)) continue;
+
+    for (const part of record.parts.filter(part => !part.blobObjectId)) {
+      const renewed = await renewBlobStorage(part.blobId, {
+        epochs: options.epochs,
+        permanent: !record.deletable,
+        walletAddress: options.owner,
+        signal: options.signal
+      });
+      if (renewed.status === 'error') {
+        fail(record, renewed.error);
+        break;
+      }
+      part.blobObjectId = renewed.parts?.[0]?.blobObjectId;
+      part.endEpoch = renewed.endEpoch ?? part.endEpoch;
+    }
+  }
+
+  // 3. Persist whatever changed, including partially renewed records
+  for (const record of records) {
+    const updated: BlobLifetimeRecord = {
+      ...record,
+      endEpoch: earliestEndEpoch(record.parts),
+      updatedAt: Date.now()
+    };
+    await lifetimeStore.put(updated);
+    if (!results.has(record.blobId)) {
+      results.set(record.blobId, { blobId: record.blobId, status: 'extended', endEpoch: updated.endEpoch });
+    }
+  }
+
+  notifyListeners();
+  return records.map(record => results.get(record.blobId) as ExtendLifetimeResult);
+};
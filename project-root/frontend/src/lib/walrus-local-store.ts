@@ -0,0 +1,91 @@
+// Filesystem-backed blob store for the local Walrus publisher/aggregator (server side only)
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { WalrusBlobStore } from './walrus-transport';
+
+// Walrus blob IDs are base64url; anything else is rejected before touching the filesystem
+const BLOB_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export const isValidBlobId = (blobId: string): boolean => BLOB_ID_PATTERN.test(blobId);
+
+export const LOCAL_WALRUS_CONFIG = {
+  // Above the chunked-upload threshold, so every upload walrus-client sends unchunked still fits
+  maxBlobSize: process.env.WALRUS_LOCAL_MAX_BLOB_SIZE
+    ? parseInt(process.env.WALRUS_LOCAL_MAX_BLOB_SIZE)
+    : 128 * 1024 * 1024
+};
+
+/**
+ * The local publisher/aggregator is a development stand-in: served only when it is the selected
+ * transport or outside production builds
+ */
+export const isLocalWalrusEnabled = (): boolean =>
+  process.env.NEXT_PUBLIC_WALRUS_TRANSPORT === 'local' || process.env.NODE_ENV !== 'production';
+
+/**
+ * Reads a request body, giving up (null) as soon as it grows past `maxSize`
+ */
+export const readBodyWithLimit = async (
+  body: ReadableStream<Uint8Array> | null,
+  maxSize: number
+): Promise<Uint8Array | null> => {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (body) {
+    const reader = body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > maxSize) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+export const createFileSystemBlobStore = (
+  directory: string = process.env.WALRUS_LOCAL_DIR || path.join(process.cwd(), '.walrus-local')
+): WalrusBlobStore => {
+  const blobPath = (blobId: string) => {
+    if (!isValidBlobId(blobId)) {
+      throw new Error(`Invalid blob ID: ${blobId}`);
+    }
+    return path.join(directory, blobId);
+  };
+
+  return {
+    has: async blobId => {
+      try {
+        await fs.access(blobPath(blobId));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    get: async blobId => {
+      try {
+        return new Uint8Array(await fs.readFile(blobPath(blobId)));
+      } catch {
+        return null;
+      }
+    },
+
+    put: async (blobId, bytes) => {
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(blobPath(blobId), bytes);
+    }
+  };
+};
@@ -0,0 +1,427 @@
+// Streaming and ranged reads from Walrus
+// readFromWalrus buffers the whole blob; these helpers hand out a ReadableStream instead, resolving chunk
+// manifests one chunk at a time and layered Docker images one entry at a time, and can read a byte range
+// (e.g. manifest.json inside a multi-GB tar) without fetching the rest.
+
+import {
+  openBlobStreamFromWalrus,
+  readBlobFromWalrus,
+  parseManifestBlob,
+  MANIFEST_BLOB_MAX_SIZE,
+  type WalrusChunkManifest
+} from './walrus-client';
+import { createAbortError, streamFromUrl, type WalrusReadStreamOptions } from './walrus-transport';
+import { createDigestHasher, normalizeDigest, verifyDigest, WalrusIntegrityError } from './walrus-integrity';
+import {
+  base64ToBytes,
+  paddedSize,
+  readTarIndex,
+  type DockerImageManifest,
+  type TarIndexEntry
+} from './docker-image-tar';
+
+export interface WalrusStreamOptions {
+  offset?: number;
+  length?: number; // Up to the end of the blob when omitted
+  // Checked for full reads only; ranged reads still verify every chunk they read whole
+  expectedDigest?: string;
+  signal?: AbortSignal;
+  onProgress?: (bytesRead: number, totalBytes?: number) => void;
+}
+
+export interface WalrusSaveOptions extends Omit<WalrusStreamOptions, 'offset' | 'length'> {
+  suggestedName: string;
+}
+
+type ChunkSource = AsyncGenerator<Uint8Array, void, undefined>;
+
+// Where the stored bytes of a blob come from: the Walrus transports, or a URL such as a registry mirror
+type BlobOpener = (options: WalrusReadStreamOptions) => Promise<ReadableStream<Uint8Array>>;
+
+// A stored blob after looking at its first bytes: a plain blob or one of our manifests
+interface ResolvedBlob {
+  blobId: string;
+  size?: number; // Unknown for plain blobs until they are read to the end
+  digest?: string; // sha256 recorded in the manifest
+  read: (offset: number, length: number | undefined, signal?: AbortSignal) => ChunkSource;
+}
+
+// Consecutive byte ranges of a logical blob, read only when a requested range overlaps them
+interface Segment {
+  size: number;
+  read: (offset: number, length: number, signal?: AbortSignal) => ChunkSource;
+}
+
+const concatBytes = (chunks: Uint8Array[], size: number): Uint8Array => {
+  const output = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+const collect = async (source: ChunkSource): Promise<Uint8Array> => {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of source) {
+    chunks.push(chunk);
+    size += chunk.length;
+  }
+  return concatBytes(chunks, size);
+};
+
+async function* readerChunks(reader: ReadableStreamDefaultReader<Uint8Array>): ChunkSource {
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    // Stops the download when the consumer gives up early
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+async function* readSegments(segments: Segment[], offset: number, length: number | undefined, signal?: AbortSignal): ChunkSource {
+  const end = length === undefined ? Infinity : offset + length;
+  let position = 0;
+
+  for (const segment of segments) {
+    const start = position;
+    position += segment.size;
+    if (position <= offset || segment.size === 0) continue;
+    if (start >= end) return;
+    if (signal?.aborted) throw createAbortError();
+
+    const from = Math.max(offset, start) - start;
+    yield* segment.read(from, Math.min(end, position) - start - from, signal);
+  }
+}
+
+const bytesSegment = (bytes: Uint8Array): Segment => ({
+  size: bytes.length,
+  read: async function* (offset, length) {
+    yield bytes.subarray(offset, offset + length);
+  }
+});
+
+const zeroSegment = (size: number): Segment => ({
+  size,
+  read: async function* (_offset, length) {
+    yield new Uint8Array(length);
+  }
+});
+
+const resolvePlainBlob = (
+  blobId: string,
+  open: BlobOpener,
+  head: Uint8Array[],
+  headSize: number,
+  probe: ReadableStreamDefaultReader<Uint8Array> | null
+): ResolvedBlob => {
+  let pending = probe;
+  const headBytes = () => concatBytes(head, headSize);
+
+  return {
+    blobId,
+    size: probe ? undefined : headSize,
+    read: async function* (offset, length, signal) {
+      // A full read continues the probe request instead of starting a new one
+      if (pending && offset === 0 && length === undefined) {
+        const reader = pending;
+        pending = null;
+        yield* head;
+        yield* readerChunks(reader);
+        return;
+      }
+
+      await pending?.cancel().catch(() => undefined);
+      pending = null;
+
+      const end = length === undefined ? undefined : offset + length;
+      if (!probe || (end !== undefined && end <= headSize)) {
+        yield headBytes().subarray(offset, end);
+        return;
+      }
+      const stream = await open({ offset, length, signal });
+      yield* readerChunks(stream.getReader());
+    }
+  };
+};
+
+// Chunks are read (and verified) whole, so memory stays bounded by the chunk size
+const resolveChunkedBlob = (blobId: string, manifest: WalrusChunkManifest): ResolvedBlob => {
+  const segments = [...manifest.chunks]
+    .sort((a, b) => a.index - b.index)
+    .map((chunk): Segment => ({
+      size: chunk.size,
+      read: async function* (offset, length) {
+        const bytes = await readBlobFromWalrus(chunk.blobId);
+        if (chunk.digest) {
+          await verifyDigest(chunk.blobId, bytes, chunk.digest);
+        }
+        yield bytes.subarray(offset, offset + length);
+      }
+    }));
+
+  return {
+    blobId,
+    size: manifest.totalSize,
+    digest: manifest.digest,
+    read: (offset, length, signal) => readSegments(segments, offset, length, signal)
+  };
+};
+
+// Same byte layout as assembleDockerImageTar: header, data, padding per entry, then two zero blocks
+const resolveDockerImage = (blobId: string, manifest: DockerImageManifest): ResolvedBlob => {
+  const segments: Segment[] = [];
+
+  for (const entry of manifest.entries) {
+    segments.push(bytesSegment(base64ToBytes(entry.header)));
+    if (entry.inline !== undefined) {
+      segments.push(bytesSegment(base64ToBytes(entry.inline)));
+    } else if (entry.blobId) {
+      const entryBlobId = entry.blobId;
+      segments.push({
+        size: entry.size,
+        read: (offset, length, signal) => {
+          const isWhole = offset === 0 && length === entry.size;
+          return readBlob(entryBlobId, offset, isWhole ? undefined : length, isWhole ? entry.digest : undefined, signal);
+        }
+      });
+    } else {
+      segments.push(zeroSegment(entry.size));
+    }
+    segments.push(zeroSegment(paddedSize(entry.size) - entry.size));
+  }
+  segments.push(zeroSegment(1024));
+
+  return {
+    blobId,
+    size: manifest.totalSize,
+    digest: manifest.digest,
+    read: (offset, length, signal) => readSegments(segments, offset, length, signal)
+  };
+};
+
+/**
+ * Opens the stored blob and looks at its first bytes; only blobs that start with '{' and fit within
+ * MANIFEST_BLOB_MAX_SIZE are buffered to check whether they are manifests.
+ */
+const resolveBlob = async (
+  blobId: string,
+  signal?: AbortSignal,
+  open: BlobOpener = options => openBlobStreamFromWalrus(blobId, options)
+): Promise<ResolvedBlob> => {
+  const reader = (await open({ signal })).getReader();
+  const head: Uint8Array[] = [];
+  let headSize = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (value.length === 0) continue;
+
+    head.push(value);
+    headSize += value.length;
+    if (head[0][0] !== 0x7b /* '{' */ || headSize > MANIFEST_BLOB_MAX_SIZE) {
+      return resolvePlainBlob(blobId, open, head, headSize, reader);
+    }
+  }
+
+  const manifest = parseManifestBlob(concatBytes(head, headSize));
+  if (manifest?.type === 'daas-chunked-blob') return resolveChunkedBlob(blobId, manifest);
+  if (manifest?.type === 'daas-docker-image') return resolveDockerImage(blobId, manifest);
+  return resolvePlainBlob(blobId, open, head, headSize, null);
+};
+
+async function* verifiedRead(resolved: ResolvedBlob, expectedDigests: string[], signal?: AbortSignal): ChunkSource {
+  const hasher = createDigestHasher();
+  for await (const chunk of resolved.read(0, undefined, signal)) {
+    hasher.update(chunk);
+    yield chunk;
+  }
+
+  // The bytes were already handed out; erroring here stops consumers from committing them
+  const actual = hasher.digest();
+  for (const expected of expectedDigests) {
+    if (normalizeDigest(expected) !== actual) {
+      throw new WalrusIntegrityError(resolved.blobId, normalizeDigest(expected), actual);
+    }
+  }
+  console.log('🔒 Integrity verified:', actual);
+}
+
+async function* readBlob(
+  blobId: string,
+  offset: number,
+  length: number | undefined,
+  expectedDigest: string | undefined,
+  signal?: AbortSignal
+): ChunkSource {
+  yield* readResolved(await resolveBlob(blobId, signal), offset, length, expectedDigest, signal);
+}
+
+const readResolved = (
+  resolved: ResolvedBlob,
+  offset: number,
+  length: number | undefined,
+  expectedDigest: string | undefined,
+  signal?: AbortSignal
+): ChunkSource => {
+  const isFull = offset === 0 && (length === undefined || length === resolved.size);
+  const expectedDigests = [expectedDigest, resolved.digest].filter((digest): digest is string => !!digest);
+
+  return isFull && expectedDigests.length > 0
+    ? verifiedRead(resolved, expectedDigests, signal)
+    : resolved.read(offset, length, signal);
+};
+
+const toReadableStream = (source: ChunkSource, onChunk?: (chunk: Uint8Array) => void): ReadableStream<Uint8Array> =>
+  new ReadableStream<Uint8Array>({
+    pull: async controller => {
+      for (;;) {
+        const { done, value } = await source.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        if (value.length > 0) {
+          onChunk?.(value);
+          controller.enqueue(value);
+          return;
+        }
+      }
+    },
+    cancel: async () => {
+      await source.return(undefined);
+    }
+  });
+
+const streamResolved = (resolved: ResolvedBlob, options: WalrusStreamOptions): ReadableStream<Uint8Array> => {
+  const offset = options.offset ?? 0;
+  const available = resolved.size !== undefined ? Math.max(0, resolved.size - offset) : undefined;
+  const totalBytes = options.length !== undefined && available !== undefined
+    ? Math.min(options.length, available)
+    : options.length ?? available;
+
+  let bytesRead = 0;
+  return toReadableStream(
+    readResolved(resolved, offset, options.length, options.expectedDigest, options.signal),
+    chunk => {
+      bytesRead += chunk.length;
+      options.onProgress?.(bytesRead, totalBytes);
+    }
+  );
+};
+
+/**
+ * Streams a blob (or a byte range of it) with manifests resolved. Resolves once the blob has been
+ * located, so missing blobs reject here rather than mid-stream.
+ */
+export const streamFromWalrus = async (
+  blobId: string,
+  options: WalrusStreamOptions = {}
+): Promise<ReadableStream<Uint8Array>> =>
+  streamResolved(await resolveBlob(blobId, options.signal), options);
+
+/**
+ * Same as streamFromWalrus for a blob served at a URL (e.g. a registry mirror). The URL supplies the
+ * stored bytes; the chunks and layers a manifest points to are read through the Walrus transports.
+ */
+export const streamFromWalrusUrl = async (
+  url: string,
+  options: WalrusStreamOptions = {}
+): Promise<ReadableStream<Uint8Array>> =>
+  streamResolved(await resolveBlob(url, options.signal, range => streamFromUrl(url, range)), options);
+
+/**
+ * Reads `length` bytes at `offset`; shorter when the range runs past the end of the blob
+ */
+export const readRangeFromWalrus = async (
+  blobId: string,
+  offset: number,
+  length: number,
+  signal?: AbortSignal
+): Promise<Uint8Array> => {
+  const resolved = await resolveBlob(blobId, signal);
+  return collect(resolved.read(offset, length, signal));
+};
+
+const indexTar = (resolved: ResolvedBlob, signal?: AbortSignal): Promise<TarIndexEntry[]> =>
+  readTarIndex({
+    read: (offset, length) => collect(resolved.read(offset, length, signal))
+  });
+
+/**
+ * Lists the entries of a tar stored on Walrus by reading only its headers
+ */
+export const listWalrusTarEntries = async (blobId: string, signal?: AbortSignal): Promise<TarIndexEntry[]> =>
+  indexTar(await resolveBlob(blobId, signal), signal);
+
+/**
+ * Reads a single entry (e.g. manifest.json of a docker save tar) without downloading the archive
+ */
+export const readWalrusTarEntry = async (blobId: string, path: string, signal?: AbortSignal): Promise<Uint8Array> => {
+  const resolved = await resolveBlob(blobId, signal);
+  const normalize = (value: string) => value.replace(/^\.\//, '');
+  const entries = await indexTar(resolved, signal);
+
+  const entry = entries.find(candidate => normalize(candidate.path) === normalize(path));
+  if (!entry) {
+    throw new Error(`Entry not found in tar ${blobId}: ${path}`);
+  }
+  return collect(resolved.read(entry.offset, entry.size, signal));
+};
+
+// File System Access API (Chromium); not yet part of the DOM typings
+type SaveFilePicker = (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+/**
+ * Writes a stream straight to disk. With the File System Access API the stream is written as it
+ * arrives and a stream error (e.g. a failed integrity check) discards the file; other browsers get a
+ * regular download of a Blob, which Chromium keeps on disk but Firefox/Safari may hold in memory.
+ */
+export const saveStreamToDisk = async (
+  open: () => Promise<ReadableStream<Uint8Array>>,
+  options: { suggestedName: string; signal?: AbortSignal }
+): Promise<'file-system-access' | 'download'> => {
+  const showSaveFilePicker = typeof window !== 'undefined'
+    ? (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker
+    : undefined;
+
+  if (showSaveFilePicker) {
+    // The picker needs the user gesture, so it must open before any network work
+    const handle = await showSaveFilePicker({ suggestedName: options.suggestedName });
+    const writable = await handle.createWritable();
+    try {
+      const stream = await open();
+      await stream.pipeTo(writable, { signal: options.signal });
+    } catch (error) {
+      await writable.abort().catch(() => undefined);
+      throw error;
+    }
+    return 'file-system-access';
+  }
+
+  const blob = await new Response(await open()).blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = options.suggestedName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  return 'download';
+};
+
+/**
+ * Downloads a blob straight to disk with manifests resolved and the digest checked (see saveStreamToDisk)
+ */
+export const saveWalrusBlobToDisk = (
+  blobId: string,
+  options: WalrusSaveOptions
+): Promise<'file-system-access' | 'download'> =>
+  saveStreamToDisk(() => streamFromWalrus(blobId, options), options);
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WalrusEndpointPool } from './walrus-endpoint-pool';
+import { WalrusHttpError, createPooledHttpTransport } from './walrus-transport';
+
+const AGGREGATORS = ['https://a.example', 'https://b.example'];
+
+// Aggregator a answers with `status`, b with the blob
+const stubAggregators = (status: number) => {
+  const fetchMock = vi.fn(async (url: string) =>
+    url.startsWith(AGGREGATORS[0])
+      ? new Response('error', { status })
+      : new Response(new Uint8Array([1, 2, 3]))
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const createTransport = () => {
+  const aggregators = new WalrusEndpointPool('aggregator', AGGREGATORS);
+  const transport = createPooledHttpTransport({
+    publishers: new WalrusEndpointPool('publisher', ['https://publisher.example']),
+    aggregators
+  });
+  return { transport, aggregators };
+};
+
+const failuresOf = (pool: WalrusEndpointPool, url: string) =>
+  pool.snapshot().find(endpoint => endpoint.url === url)?.failures;
+
+describe('pooled HTTP transport failover', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('does not fail over or mark the endpoint on 404', async () => {
+    const fetchMock = stubAggregators(404);
+    const { transport, aggregators } = createTransport();
+
+    await expect(transport.read('missing')).rejects.toBeInstanceOf(WalrusHttpError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(failuresOf(aggregators, AGGREGATORS[0])).toBe(0);
+  });
+
+  it.each([500, 503, 429, 408])('fails over on %i', async status => {
+    const fetchMock = stubAggregators(status);
+    const { transport, aggregators } = createTransport();
+
+    expect(await transport.read('blob')).toEqual(new Uint8Array([1, 2, 3]));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(failuresOf(aggregators, AGGREGATORS[0])).toBe(1);
+  });
+
+  it('fails over on network errors', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url.startsWith(AGGREGATORS[0])) throw new TypeError('fetch failed');
+      return new Response(new Uint8Array([4]));
+    }));
+    const { transport } = createTransport();
+
+    expect(await transport.read('blob')).toEqual(new Uint8Array([4]));
+  });
+});
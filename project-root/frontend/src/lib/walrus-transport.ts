@@ -0,0 +1,573 @@
+// Walrus transports: how blobs actually reach storage and come back
+// walrus-client picks one by configuration; retries, chunking and progress stay in walrus-client
+
+import type { Signer } from '@mysten/sui/cryptography';
+import type { WalrusWalletClient, WalletSignAndExecute } from './walrus-wallet-client';
+import { WalrusEndpointPool } from './walrus-endpoint-pool';
+
+export type WalrusTransportKind = 'http' | 'sdk' | 'wallet' | 'memory';
+
+export interface WalrusStoreOptions {
+  epochs?: number;
+  permanent?: boolean;
+  signal?: AbortSignal;
+  onBytesSent?: (loaded: number) => void;
+  owner?: string; // Address that receives the Blob object (needed to extend it later)
+}
+
+export interface WalrusStoreResponse {
+  blobId: string;
+  newlyCreated: boolean;
+  url: string;
+  size: number;
+  endEpoch?: number; // First epoch in which the blob is no longer stored
+  blobObjectId?: string; // Sui Blob object, absent when someone else's certified copy was reused
+}
+
+export interface WalrusReadStreamOptions {
+  signal?: AbortSignal;
+  offset?: number;
+  length?: number; // Up to the end of the blob when omitted
+}
+
+export interface WalrusTransport {
+  readonly kind: WalrusTransportKind;
+  store: (data: ArrayBuffer | Blob, options?: WalrusStoreOptions) => Promise<WalrusStoreResponse>;
+  read: (blobId: string, signal?: AbortSignal) => Promise<Uint8Array>;
+  // Optional; walrus-client slices a full read() for transports without native streaming
+  readStream?: (blobId: string, options?: WalrusReadStreamOptions) => Promise<ReadableStream<Uint8Array>>;
+  blobUrl: (blobId: string) => string;
+}
+
+export interface WalrusEndpoints {
+  publisher: string;
+  aggregator: string;
+}
+
+export interface WalrusEndpointPools {
+  publishers: WalrusEndpointPool;
+  aggregators: WalrusEndpointPool;
+}
+
+// Comma-separated list wins over the single URL variable
+const parseEndpointList = (list: string | undefined, single: string | undefined, fallback: string): string[] => {
+  const urls = (list || single || fallback).split(',').map(url => url.trim()).filter(Boolean);
+  return urls.length > 0 ? urls : [fallback];
+};
+
+// Walrus testnet endpoints (현재 작동하는 엔드포인트)
+export const DEFAULT_WALRUS_PUBLISHERS = parseEndpointList(
+  process.env.NEXT_PUBLIC_WALRUS_PUBLISHER_URLS,
+  process.env.NEXT_PUBLIC_WALRUS_PUBLISHER_URL,
+  'https://publisher.walrus-testnet.walrus.space'
+);
+export const DEFAULT_WALRUS_AGGREGATORS = parseEndpointList(
+  process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR_URLS,
+  process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR_URL,
+  'https://aggregator.walrus-testnet.walrus.space'
+);
+
+export const DEFAULT_WALRUS_ENDPOINTS: WalrusEndpoints = {
+  publisher: DEFAULT_WALRUS_PUBLISHERS[0],
+  aggregator: DEFAULT_WALRUS_AGGREGATORS[0]
+};
+
+// Same-origin publisher/aggregator served by the Next.js app (see app/api/walrus-local)
+export const LOCAL_WALRUS_ENDPOINTS: WalrusEndpoints = {
+  publisher: '/api/walrus-local',
+  aggregator: '/api/walrus-local'
+};
+
+export const createAbortError = () => {
+  const error = new Error('Upload aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+// The user declined a wallet signature; retrying or falling back would only ask again or pay twice
+export class WalletRejectedError extends Error {
+  constructor(cause: unknown) {
+    super(`지갑 서명이 거부되었습니다: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'WalletRejectedError';
+  }
+}
+
+// Wallets report a declined request only through the message (or an EIP-1193 style 4001 code)
+export const isWalletRejection = (error: unknown): boolean =>
+  error instanceof WalletRejectedError ||
+  (typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 4001) ||
+  (error instanceof Error && /reject|denied|declined|cancel/i.test(error.message));
+
+// Non-2xx answer from a publisher or aggregator
+export class WalrusHttpError extends Error {
+  readonly status: number;
+
+  constructor(operation: string, status: number, statusText: string, body: string) {
+    super(`HTTP API ${operation} failed: ${status} ${statusText} - ${body}`);
+    this.name = 'WalrusHttpError';
+    this.status = status;
+  }
+}
+
+// 4xx describes the request or the blob (missing, expired, too large), not the endpoint;
+// 408 and 429 are the endpoint being slow or busy, so another one may succeed
+const isRequestError = (error: unknown): boolean =>
+  error instanceof WalrusHttpError && error.status >= 400 && error.status < 500 && error.status !== 408 && error.status !== 429;
+
+const toUint8Array = async (data: ArrayBuffer | Blob): Promise<Uint8Array> =>
+  data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : new Uint8Array(data);
+
+const byteSize = (data: ArrayBuffer | Blob): number =>
+  data instanceof Blob ? data.size : data.byteLength;
+
+interface PutResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  text: string;
+}
+
+// PUT with upload progress: XMLHttpRequest exposes upload events, fetch does not
+const putWithProgress = (
+  url: string,
+  body: ArrayBuffer | Blob,
+  onBytesSent?: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<PutResponse> => {
+  if (typeof XMLHttpRequest === 'undefined') {
+    return fetch(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body,
+      signal,
+    }).then(async response => ({
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      text: await response.text()
+    }));
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    xhr.upload.onprogress = event => onBytesSent?.(event.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve({
+        ok: xhr.status >= 200 && xhr.status < 300,
+        status: xhr.status,
+        statusText: xhr.statusText,
+        text: xhr.responseText
+      });
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error('Network error during upload'));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(createAbortError());
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(body);
+  });
+};
+
+const readFromAggregator = async (
+  aggregator: string,
+  blobId: string,
+  signal?: AbortSignal
+): Promise<Uint8Array> => {
+  const response = await fetch(`${aggregator}/v1/blobs/${blobId}`, { signal });
+
+  if (!response.ok) {
+    throw new WalrusHttpError('read', response.status, response.statusText, await response.text());
+  }
+
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Drops bytes outside [offset, offset + length) from a stream that starts at byte 0
+ */
+export const sliceByteStream = (offset = 0, length?: number): TransformStream<Uint8Array, Uint8Array> => {
+  const end = length === undefined ? Infinity : offset + length;
+  let position = 0;
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      const chunkStart = position;
+      position += chunk.length;
+      if (position <= offset || chunkStart >= end) return;
+      controller.enqueue(chunk.subarray(Math.max(0, offset - chunkStart), Math.min(chunk.length, end - chunkStart)));
+      if (position >= end) controller.terminate();
+    }
+  });
+};
+
+const emptyStream = (): ReadableStream<Uint8Array> =>
+  new ReadableStream({ start: controller => controller.close() });
+
+/**
+ * Streams (a byte range of) any URL that serves blob bytes, e.g. an aggregator or a registry mirror
+ */
+export const streamFromUrl = async (
+  url: string,
+  options: WalrusReadStreamOptions = {}
+): Promise<ReadableStream<Uint8Array>> => {
+  const { offset = 0, length, signal } = options;
+  if (length === 0) return emptyStream();
+
+  const isRange = offset > 0 || length !== undefined;
+  const headers: Record<string, string> = {};
+  if (isRange) {
+    headers.Range = `bytes=${offset}-${length !== undefined ? offset + length - 1 : ''}`;
+  }
+
+  const response = await fetch(url, { signal, headers });
+  if (response.status === 416) {
+    return emptyStream(); // Range starts past the end of the blob
+  }
+  if (!response.ok || !response.body) {
+    throw new WalrusHttpError('read', response.status, response.statusText, await response.text());
+  }
+
+  // Aggregators without range support answer 200 with the whole blob
+  return isRange && response.status !== 206
+    ? response.body.pipeThrough(sliceByteStream(offset, length))
+    : response.body;
+};
+
+const streamFromAggregator = (
+  aggregator: string,
+  blobId: string,
+  options?: WalrusReadStreamOptions
+): Promise<ReadableStream<Uint8Array>> => streamFromUrl(`${aggregator}/v1/blobs/${blobId}`, options);
+
+const storeAtPublisher = async (
+  publisher: string,
+  data: ArrayBuffer | Blob,
+  options?: WalrusStoreOptions
+): Promise<Omit<WalrusStoreResponse, 'url' | 'size'>> => {
+  // Construct URL with epochs parameter (correct API path is /v1/blobs)
+  const params = new URLSearchParams();
+  if (options?.epochs) params.set('epochs', String(options.epochs));
+  if (options?.permanent) params.set('permanent', 'true');
+  if (options?.owner) params.set('send_object_to', options.owner);
+  const query = params.toString();
+  const url = `${publisher}/v1/blobs${query ? `?${query}` : ''}`;
+
+  // Blobs are passed as-is so the browser streams them instead of buffering
+  const response = await putWithProgress(url, data, options?.onBytesSent, options?.signal);
+
+  if (!response.ok) {
+    throw new WalrusHttpError('blobs store', response.status, response.statusText, response.text);
+  }
+
+  const rawResult = JSON.parse(response.text);
+  console.log('📄 HTTP API Result:', rawResult);
+
+  // Extract blobId from different response formats
+  const blobId = rawResult.newlyCreated?.blobObject?.blobId ||
+                 rawResult.alreadyCertified?.blobId ||
+                 rawResult.blobId;
+
+  if (!blobId) {
+    throw new Error('No blobId received from HTTP API response');
+  }
+
+  return {
+    blobId,
+    newlyCreated: !!rawResult.newlyCreated,
+    endEpoch: rawResult.newlyCreated?.blobObject?.storage?.endEpoch ?? rawResult.alreadyCertified?.endEpoch,
+    blobObjectId: rawResult.newlyCreated?.blobObject?.id
+  };
+};
+
+const BYTES_PER_MIB = 1024 * 1024;
+
+// Tries endpoints healthiest first and fails over to the next one on network errors and 5xx.
+// 4xx answers are passed through without counting against the endpoint.
+// `weight` normalises latency (e.g. per MiB for uploads) so large files don't look like slow endpoints.
+const withFailover = async <T>(
+  pool: WalrusEndpointPool,
+  operation: (url: string) => Promise<T>,
+  signal?: AbortSignal,
+  weight = 1
+): Promise<T> => {
+  let lastError: unknown = null;
+
+  for (const url of pool.ranked()) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await operation(url);
+      pool.recordSuccess(url, (Date.now() - startedAt) / Math.max(1, weight));
+      return result;
+    } catch (error) {
+      if (isAbortError(error) || isRequestError(error)) {
+        throw error;
+      }
+      pool.recordFailure(url, error);
+      lastError = error;
+      console.warn(`⚠️ Walrus ${pool.role} 실패, 다음 엔드포인트로 전환:`, url);
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(`All Walrus ${pool.role} endpoints failed`);
+};
+
+/**
+ * Publisher/aggregator HTTP API transport over endpoint pools with health-based failover
+ */
+export const createPooledHttpTransport = (pools: WalrusEndpointPools): WalrusTransport => ({
+  kind: 'http',
+
+  store: async (data, options) => {
+    const size = byteSize(data);
+    const stored = await withFailover(
+      pools.publishers,
+      publisher => storeAtPublisher(publisher, data, options),
+      options?.signal,
+      size / BYTES_PER_MIB
+    );
+
+    return {
+      ...stored,
+      url: `${pools.aggregators.best()}/v1/blobs/${stored.blobId}`,
+      size
+    };
+  },
+
+  read: (blobId, signal) => withFailover(
+    pools.aggregators,
+    aggregator => readFromAggregator(aggregator, blobId, signal),
+    signal
+  ),
+
+  // Failover only covers opening the stream; errors mid-body surface to the reader
+  readStream: (blobId, options) => withFailover(
+    pools.aggregators,
+    aggregator => streamFromAggregator(aggregator, blobId, options),
+    options?.signal
+  ),
+
+  blobUrl: blobId => `${pools.aggregators.best()}/v1/blobs/${blobId}`
+});
+
+/**
+ * Single publisher/aggregator pair (public testnet or any compatible endpoint)
+ */
+export const createHttpTransport = (endpoints: WalrusEndpoints = DEFAULT_WALRUS_ENDPOINTS): WalrusTransport =>
+  createPooledHttpTransport({
+    publishers: new WalrusEndpointPool('publisher', [endpoints.publisher]),
+    aggregators: new WalrusEndpointPool('aggregator', [endpoints.aggregator])
+  });
+
+export interface SdkTransportConfig {
+  signer: Signer;
+  network?: 'mainnet' | 'testnet';
+  suiRpcUrl?: string;
+  aggregator?: string; // Used only to build shareable download URLs
+}
+
+// Dynamic import to avoid SSR/WASM issues until the SDK is actually used
+const loadSdkClient = async (network: 'mainnet' | 'testnet', suiRpcUrl?: string) => {
+  const [{ WalrusClient }, { getFullnodeUrl }] = await Promise.all([
+    import('@mysten/walrus'),
+    import('@mysten/sui/client')
+  ]);
+  return new WalrusClient({
+    network,
+    suiRpcUrl: suiRpcUrl || getFullnodeUrl(network),
+  });
+};
+
+export type WalrusSdkClient = Awaited<ReturnType<typeof loadSdkClient>>;
+
+const sdkClients = new Map<string, Promise<WalrusSdkClient>>();
+
+/**
+ * Shared @mysten/walrus client per network/RPC, loaded on first use
+ */
+export const getWalrusSdkClient = (network: 'mainnet' | 'testnet' = 'testnet', suiRpcUrl?: string): Promise<WalrusSdkClient> => {
+  const key = `${network}:${suiRpcUrl ?? ''}`;
+  let client = sdkClients.get(key);
+  if (!client) {
+    client = loadSdkClient(network, suiRpcUrl);
+    client.catch(() => sdkClients.delete(key)); // Allow a retry after a failed load
+    sdkClients.set(key, client);
+  }
+  return client;
+};
+
+/**
+ * @mysten/walrus SDK transport: encodes and writes slivers directly to storage nodes, paid by the signer
+ */
+export const createSdkTransport = (config: SdkTransportConfig): WalrusTransport => {
+  const network = config.network || 'testnet';
+  const aggregator = config.aggregator || DEFAULT_WALRUS_ENDPOINTS.aggregator;
+  const getClient = () => getWalrusSdkClient(network, config.suiRpcUrl);
+
+  return {
+    kind: 'sdk',
+
+    store: async (data, options) => {
+      const client = await getClient();
+      const blob = await toUint8Array(data);
+      const { blobId, blobObject } = await client.writeBlob({
+        blob,
+        epochs: options?.epochs || 10,
+        deletable: !options?.permanent,
+        signer: config.signer,
+        signal: options?.signal,
+        owner: options?.owner,
+      });
+      options?.onBytesSent?.(blob.byteLength);
+
+      return {
+        blobId,
+        newlyCreated: true,
+        url: `${aggregator}/v1/blobs/${blobId}`,
+        size: blob.byteLength,
+        endEpoch: blobObject.storage.end_epoch,
+        blobObjectId: blobObject.id.id
+      };
+    },
+
+    read: async (blobId, signal) => {
+      const client = await getClient();
+      return client.readBlob({ blobId, signal });
+    },
+
+    blobUrl: blobId => `${aggregator}/v1/blobs/${blobId}`
+  };
+};
+
+export interface WalletTransportConfig {
+  client: WalrusWalletClient; // from createWalletIntegratedClient()
+  walletAddress: string;
+  signAndExecute: WalletSignAndExecute;
+  aggregator?: string;
+}
+
+/**
+ * Wallet-signed transport: the connected wallet pays for storage and owns the Blob object,
+ * reads go through the aggregator
+ */
+export const createWalletTransport = (config: WalletTransportConfig): WalrusTransport => {
+  const aggregator = config.aggregator || DEFAULT_WALRUS_ENDPOINTS.aggregator;
+
+  return {
+    kind: 'wallet',
+
+    store: async (data, options) => {
+      const blob = await toUint8Array(data);
+      const { blobId, endEpoch, blobObjectId } = await config.client.uploadWithWallet(
+        blob,
+        config.walletAddress,
+        config.signAndExecute,
+        {
+          epochs: options?.epochs,
+          permanent: options?.permanent,
+          owner: options?.owner,
+          signal: options?.signal
+        }
+      );
+      options?.onBytesSent?.(blob.byteLength);
+
+      return {
+        blobId,
+        newlyCreated: true,
+        url: `${aggregator}/v1/blobs/${blobId}`,
+        size: blob.byteLength,
+        endEpoch,
+        blobObjectId
+      };
+    },
+
+    read: (blobId, signal) => readFromAggregator(aggregator, blobId, signal),
+
+    readStream: (blobId, options) => streamFromAggregator(aggregator, blobId, options),
+
+    blobUrl: blobId => `${aggregator}/v1/blobs/${blobId}`
+  };
+};
+
+/**
+ * Content-addressed blob ID: base64url SHA-256, the same shape as Walrus blob IDs
+ */
+export const computeLocalBlobId = async (bytes: Uint8Array): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes as Uint8Array<ArrayBuffer>));
+  let binary = '';
+  digest.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Minimal storage backend shared by the in-memory transport and the local publisher route
+ */
+export interface WalrusBlobStore {
+  has: (blobId: string) => Promise<boolean>;
+  get: (blobId: string) => Promise<Uint8Array | null>;
+  put: (blobId: string, bytes: Uint8Array) => Promise<void>;
+}
+
+export const createMemoryBlobStore = (): WalrusBlobStore => {
+  const blobs = new Map<string, Uint8Array>();
+  return {
+    has: async blobId => blobs.has(blobId),
+    get: async blobId => blobs.get(blobId) ?? null,
+    put: async (blobId, bytes) => { blobs.set(blobId, bytes); }
+  };
+};
+
+/**
+ * In-memory transport for offline development and tests; nothing leaves the process
+ */
+export const createMemoryTransport = (
+  store: WalrusBlobStore = createMemoryBlobStore(),
+  baseUrl = 'memory://walrus'
+): WalrusTransport => ({
+  kind: 'memory',
+
+  store: async (data, options) => {
+    if (options?.signal?.aborted) throw createAbortError();
+
+    const bytes = await toUint8Array(data);
+    const blobId = await computeLocalBlobId(bytes);
+    const exists = await store.has(blobId);
+    if (!exists) {
+      await store.put(blobId, bytes);
+    }
+    options?.onBytesSent?.(bytes.byteLength);
+
+    return { blobId, newlyCreated: !exists, url: `${baseUrl}/v1/blobs/${blobId}`, size: bytes.byteLength };
+  },
+
+  read: async blobId => {
+    const bytes = await store.get(blobId);
+    if (!bytes) {
+      throw new Error(`Blob not found in local store: ${blobId}`);
+    }
+    return bytes;
+  },
+
+  blobUrl: blobId => `${baseUrl}/v1/blobs/${blobId}`
+});
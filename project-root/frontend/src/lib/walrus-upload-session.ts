@@ -0,0 +1,57 @@
+// Persistent state for chunked Walrus uploads
+// Each in-flight upload is stored in IndexedDB so it can resume after a reload or network drop
+
+import { createRecordStore } from './idb-store';
+
+export interface ChunkRecord {
+  index: number;
+  blobId: string;
+  size: number;
+  digest?: string; // sha256 of the chunk bytes
+  blobObjectId?: string;
+  endEpoch?: number;
+}
+
+export interface UploadSession {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  lastModified: number;
+  chunkSize: number;
+  epochs?: number;
+  chunks: Record<number, ChunkRecord>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const sessionStore = createRecordStore<UploadSession>({
+  dbName: 'daas-walrus-uploads',
+  storeName: 'sessions',
+  keyPath: 'id',
+  keyOf: session => session.id,
+  label: '업로드 세션'
+});
+
+/**
+ * Stable key for a file: the same file picked again after a reload maps to the same session
+ */
+export const getSessionId = (file: File | Blob, chunkSize: number): string => {
+  const name = file instanceof File ? file.name : 'blob';
+  const lastModified = file instanceof File ? file.lastModified : 0;
+  return `${name}:${file.size}:${lastModified}:${chunkSize}`;
+};
+
+export const loadUploadSession = (id: string): Promise<UploadSession | null> =>
+  sessionStore.get(id);
+
+export const saveUploadSession = (session: UploadSession): Promise<void> =>
+  sessionStore.put({ ...session, updatedAt: Date.now() });
+
+export const deleteUploadSession = (id: string): Promise<void> =>
+  sessionStore.delete(id);
+
+/**
+ * List unfinished sessions, e.g. to offer "resume upload" after a reload
+ */
+export const listUploadSessions = (): Promise<UploadSession[]> =>
+  sessionStore.getAll();
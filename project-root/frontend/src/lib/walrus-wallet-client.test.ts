@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WalletRejectedError } from './walrus-transport';
+import { createWalletIntegratedClient, type WalletSignAndExecute } from './walrus-wallet-client';
+
+// Step-wise SDK upload flow; `uploads` records the register digest each upload step resumed from
+const sdk = vi.hoisted(() => ({ uploads: [] as string[], failNextUpload: false }));
+
+vi.mock('./walrus-transport', async importOriginal => ({
+  ...await importOriginal<typeof import('./walrus-transport')>(),
+  getWalrusSdkClient: async () => ({
+    writeBlobFlow: () => ({
+      encode: async () => {},
+      register: () => ({ setSender: () => {} }),
+      upload: async ({ digest }: { digest: string }) => {
+        sdk.uploads.push(digest);
+        if (sdk.failNextUpload) {
+          sdk.failNextUpload = false;
+          throw new Error('not enough storage node confirmations');
+        }
+      },
+      certify: () => ({ setSender: () => {} }),
+      getBlob: async () => ({ blobId: 'blob-id', blobObject: { id: { id: '0xb10b' }, storage: { end_epoch: 20 } } })
+    })
+  })
+}));
+
+const WALLET = '0x0000000000000000000000000000000000000000000000000000000000000a11';
+
+describe('uploadWithWallet', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', {});
+    sdk.uploads = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('continues from the registered Blob object when the upload is retried', async () => {
+    let transactions = 0;
+    const signAndExecute = vi.fn<WalletSignAndExecute>(async () => ({ digest: `tx-${transactions++}` }));
+    const client = await createWalletIntegratedClient();
+    const data = new TextEncoder().encode('resumed blob');
+
+    sdk.failNextUpload = true;
+    await expect(client.uploadWithWallet(data, WALLET, signAndExecute)).rejects.toThrow('confirmations');
+    const result = await client.uploadWithWallet(data, WALLET, signAndExecute);
+
+    expect(sdk.uploads).toEqual(['tx-0', 'tx-0']);
+    expect(signAndExecute).toHaveBeenCalledTimes(2); // One register, one certify
+    expect(result).toMatchObject({ txDigest: 'tx-0', certifyTxDigest: 'tx-1', blobObjectId: '0xb10b', endEpoch: 20 });
+  });
+
+  it('reports a declined signature as WalletRejectedError', async () => {
+    const signAndExecute = vi.fn<WalletSignAndExecute>(async () => {
+      throw new Error('User rejected the request.');
+    });
+    const client = await createWalletIntegratedClient();
+
+    await expect(client.uploadWithWallet(new TextEncoder().encode('declined blob'), WALLET, signAndExecute))
+      .rejects.toBeInstanceOf(WalletRejectedError);
+    expect(sdk.uploads).toEqual([]);
+  });
+});
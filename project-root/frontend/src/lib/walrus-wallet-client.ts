@@ -1,111 +1,145 @@
 // Walrus client with proper wallet integration for transaction signing
-import { getFullnodeUrl } from '@mysten/sui/client';
-import { Transaction } from '@mysten/sui/transactions';
-import { ConnectButton, useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
+// The connected wallet pays for storage and owns the resulting Blob object; no publisher is involved
+import type { Transaction } from '@mysten/sui/transactions';
+import { useCurrentAccount, useSignAndExecuteTransaction } from '@mysten/dapp-kit';
+import { WalletRejectedError, computeLocalBlobId, createAbortError, getWalrusSdkClient, isWalletRejection } from './walrus-transport';
 
 // Types for wallet-integrated upload
 export interface WalrusWalletUploadOptions {
   epochs?: number;
   permanent?: boolean;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, unknown>; // Written as Blob attributes
+  owner?: string; // Receives the Blob object; defaults to the signing wallet
+  signal?: AbortSignal;
+  onStep?: (step: WalletUploadStep) => void;
+}
+
+export type WalletUploadStep = 'encoding' | 'registering' | 'uploading' | 'certifying';
+
+export type WalletSignAndExecute = (input: { transaction: Transaction }) => Promise<{ digest: string }>;
+
+export interface WalrusWalletUploadResult {
+  blobId: string;
+  txDigest: string; // Register transaction (storage reservation + Blob object creation)
+  certifyTxDigest: string;
+  blobObjectId: string;
+  endEpoch: number; // First epoch in which the blob is no longer stored
 }
 
 export interface WalrusWalletClient {
   uploadWithWallet: (
     data: Uint8Array,
     walletAddress: string,
-    signAndExecute: any,
+    signAndExecute: WalletSignAndExecute,
     options?: WalrusWalletUploadOptions
-  ) => Promise<{ blobId: string; txDigest?: string }>;
+  ) => Promise<WalrusWalletUploadResult>;
 }
 
+// Blob attributes are string-valued on chain
+const toBlobAttributes = (metadata?: Record<string, unknown>): Record<string, string> | undefined => {
+  if (!metadata) return undefined;
+  const entries = Object.entries(metadata)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+// Declined signatures become WalletRejectedError so retry loops stop instead of prompting again
+const signWithWallet = async (signAndExecute: WalletSignAndExecute, transaction: Transaction) => {
+  try {
+    return await signAndExecute({ transaction });
+  } catch (error) {
+    throw isWalletRejection(error) ? new WalletRejectedError(error) : error;
+  }
+};
+
+// Register transactions of uploads that failed after registering, by owner/lifetime/content. Retrying the same
+// bytes continues from the registered Blob object instead of reserving (and paying for) storage again.
+const pendingRegistrations = new Map<string, string>();
+
 // Create wallet-integrated Walrus client
 export const createWalletIntegratedClient = async (): Promise<WalrusWalletClient> => {
   if (typeof window === 'undefined') {
     throw new Error('Wallet integration only available on client side');
   }
 
-  try {
-    // Dynamic import to avoid SSR issues
-    const { WalrusClient } = await import('@mysten/walrus');
-
-    // Create Walrus client
-    const walrusClient = new WalrusClient({
-      network: 'testnet',
-      suiRpcUrl: getFullnodeUrl('testnet'),
-    });
-
-    return {
-      uploadWithWallet: async (
-        data: Uint8Array,
-        walletAddress: string,
-        signAndExecute: any,
-        options?: WalrusWalletUploadOptions
-      ) => {
-        console.log('🔐 지갑 통합 업로드 시작...');
-        console.log('💳 사용자 지갑:', walletAddress);
-        console.log('📦 데이터 크기:', data.length, 'bytes');
-
-        // The Walrus SDK should handle transaction creation internally
-        // But if it doesn't trigger wallet, we need to create transaction manually
-        try {
-          // First try the SDK's writeBlob method
-          const result = await walrusClient.writeBlob({
-            blob: data,
-            epochs: options?.epochs || 10,
-            deletable: true,
-            signer: null as any  // Should be provided by wallet
-          });
-
-          console.log('✅ SDK writeBlob 성공:', result);
-          return {
-            blobId: result.blobId,
-            txDigest: (result as any).txDigest
-          };
-        } catch (sdkError) {
-          console.warn('⚠️ SDK writeBlob 실패, 수동 트랜잭션 시도:', sdkError);
-
-          // If SDK doesn't work, create transaction manually
-          const tx = new Transaction();
-
-          // Add Walrus storage transaction
-          // Note: This is a placeholder - actual Walrus Move calls would be needed
-          // The exact Move function calls depend on Walrus package deployment
-          tx.moveCall({
-            target: '0x1234::walrus::store_blob', // Placeholder - need actual package ID
-            arguments: [
-              tx.pure.vector('u8', Array.from(data)),  // Convert Uint8Array to vector
-              tx.pure.u64(BigInt(options?.epochs || 10))  // Use BigInt for u64
-            ],
-          });
-
-          // Sign and execute transaction through wallet
-          console.log('🔐 지갑 트랜잭션 서명 요청...');
-          const result = await signAndExecute({
-            transaction: tx,
-          });
-
-          console.log('✅ 트랜잭션 완료:', result);
-
-          // Extract blob ID from transaction result
-          // This would need proper parsing of transaction effects
-          return {
-            blobId: 'blob_from_tx_' + result.digest,
-            txDigest: result.digest
-          };
-        }
+  const walrusClient = await getWalrusSdkClient('testnet');
+
+  return {
+    uploadWithWallet: async (data, walletAddress, signAndExecute, options) => {
+      console.log('🔐 지갑 통합 업로드 시작...');
+      console.log('💳 사용자 지갑:', walletAddress);
+      console.log('📦 데이터 크기:', data.length, 'bytes');
+
+      const owner = options?.owner || walletAddress;
+      const epochs = options?.epochs || 10;
+      const registrationKey = `${owner}:${epochs}:${!options?.permanent}:${await computeLocalBlobId(data)}`;
+      const flow = walrusClient.writeBlobFlow({ blob: data });
+
+      // 1. Erasure-code locally; this yields the blob ID and root hash the register call commits to
+      options?.onStep?.('encoding');
+      await flow.encode();
+      throwIfAborted(options?.signal);
+
+      // 2. Reserve storage and register the blob, paid in WAL/SUI from the wallet
+      options?.onStep?.('registering');
+      // Built even when resuming: the flow's upload step reads the encoded blob from the register step
+      const registerTx = flow.register({
+        epochs,
+        deletable: !options?.permanent,
+        owner,
+        attributes: toBlobAttributes(options?.metadata)
+      });
+      let registerDigest = pendingRegistrations.get(registrationKey);
+      if (registerDigest) {
+        console.log('♻️ 이미 등록된 Blob 객체로 이어서 업로드:', registerDigest);
+      } else {
+        // register() makes `owner` the sender when none is set; the wallet signs and pays, so it must be the sender
+        registerTx.setSender(walletAddress);
+        console.log('🔐 지갑 트랜잭션 서명 요청 (storage 예약 + blob 등록)...');
+        ({ digest: registerDigest } = await signWithWallet(signAndExecute, registerTx));
+        pendingRegistrations.set(registrationKey, registerDigest);
+        console.log('✅ Blob 등록 완료:', registerDigest);
       }
-    };
-  } catch (error) {
-    console.error('❌ 지갑 통합 클라이언트 생성 실패:', error);
-    throw error;
-  }
+      throwIfAborted(options?.signal);
+
+      // 3. Send slivers to the storage nodes and collect their confirmations
+      options?.onStep?.('uploading');
+      await flow.upload({ digest: registerDigest });
+      throwIfAborted(options?.signal);
+
+      // 4. Certify with the confirmations; the blob becomes readable once this lands
+      options?.onStep?.('certifying');
+      console.log('🔐 지갑 트랜잭션 서명 요청 (blob 인증)...');
+      const certifyTx = flow.certify();
+      certifyTx.setSender(walletAddress);
+      const { digest: certifyDigest } = await signWithWallet(signAndExecute, certifyTx);
+      pendingRegistrations.delete(registrationKey);
+
+      const { blobId, blobObject } = await flow.getBlob();
+      console.log('✅ 지갑 업로드 완료:', blobId, '(Blob 객체:', blobObject.id.id + ')');
+
+      return {
+        blobId,
+        txDigest: registerDigest,
+        certifyTxDigest: certifyDigest,
+        blobObjectId: blobObject.id.id,
+        endEpoch: blobObject.storage.end_epoch
+      };
+    }
+  };
 };
 
 // Hook for using wallet-integrated Walrus in components
 export const useWalrusWithWallet = () => {
   const account = useCurrentAccount();
-  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { mutateAsync: signAndExecuteTransaction } = useSignAndExecuteTransaction();
 
   const uploadToWalrus = async (
     data: Uint8Array | Blob | File,
@@ -134,7 +168,7 @@ export const useWalrusWithWallet = () => {
       const result = await client.uploadWithWallet(
         binaryData,
         account.address,
-        signAndExecuteTransaction,
+        input => signAndExecuteTransaction(input),
         options
       );
 
@@ -142,6 +176,8 @@ export const useWalrusWithWallet = () => {
         success: true,
         blobId: result.blobId,
         txDigest: result.txDigest,
+        blobObjectId: result.blobObjectId,
+        endEpoch: result.endEpoch,
       };
     } catch (error) {
       console.error('❌ 지갑 업로드 실패:', error);
@@ -157,4 +193,4 @@ export const useWalrusWithWallet = () => {
     isWalletConnected: !!account,
     walletAddress: account?.address,
   };
-};
\ No newline at end of file
+};
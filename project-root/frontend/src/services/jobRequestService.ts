@@ -3,14 +3,23 @@
 import { SuiClient } from '@mysten/sui/client'
 import { Transaction } from '@mysten/sui/transactions'
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { toHex } from '@mysten/sui/utils'
+import type { DeploymentSecretsRef } from '@/types'
 import {
   JOB_CONTRACT_CONFIG,
   JOB_MOVE_FUNCTIONS,
   JobRequest,
   JobRequirements,
+  JobStatus,
   JOB_STATUS
 } from '@/contracts/types'
 
+// 시뮬레이션 모드의 작업 요청 저장소 (컨트랙트 미배포 상태에서 역할 전환/새로고침 후에도 유지)
+const SIMULATED_REQUESTS_KEY = 'daas-simulated-job-requests'
+
+// 작업 상태 변경 브라우저 이벤트 (detail: 변경된 JobRequest)
+const JOB_STATUS_EVENT = 'jobRequestStatus'
+
 export class JobRequestService {
   private suiClient: SuiClient
   private packageId: string
@@ -28,11 +37,15 @@ export class JobRequestService {
   async createJobRequest(
     signer: Ed25519Keypair | null,
     params: {
+      requesterAddress: string
       providerAddress: string
       projectName: string
       requirements: JobRequirements
       estimatedDuration: number
       offeredPrice: number
+      imageName?: string
+      policyId?: string // 이미지와 secret을 보호하는 ImageAccessPolicy
+      secrets?: DeploymentSecretsRef // 노드가 컨테이너 시작 시 복호화
     }
   ): Promise<string> {
     console.log('🚀 작업 요청 생성:', {
@@ -56,6 +69,10 @@ export class JobRequestService {
           txb.pure(params.requirements.bandwidth_mbps),
           txb.pure(params.estimatedDuration),
           txb.pure(params.offeredPrice),
+          txb.pure.string(params.imageName ?? ''),
+          txb.pure.option('address', params.policyId ?? null),
+          // secret 값은 Walrus blob에만 있고, 요청에는 blob 참조(이름, Seal ID)만 기록
+          txb.pure.string(params.secrets ? JSON.stringify(params.secrets) : ''),
         ],
       })
 
@@ -79,11 +96,29 @@ export class JobRequestService {
       } else {
         // 시뮬레이션 모드
         const mockTxHash = `0x${Math.random().toString(16).substr(2, 64)}`
+        const now = Date.now()
+        const jobId = `0x${toHex(crypto.getRandomValues(new Uint8Array(32)))}`
+        this.saveSimulatedRequest({
+          id: jobId,
+          requester: params.requesterAddress,
+          provider_address: params.providerAddress,
+          project_name: params.projectName,
+          requirements: params.requirements,
+          estimated_duration: params.estimatedDuration,
+          offered_price: params.offeredPrice,
+          status: JOB_STATUS.PENDING,
+          created_at: now,
+          updated_at: now,
+          image_name: params.imageName,
+          policy_id: params.policyId,
+          secrets: params.secrets
+        })
         console.log('✅ 작업 요청 생성 시뮬레이션 완료, 제공자에게 이벤트 전송 시뮬레이션')
 
         // 제공자에게 즉시 알림 시뮬레이션
         this.notifyProvider(params.providerAddress, {
           type: 'NEW_JOB_REQUEST',
+          jobId,
           projectName: params.projectName,
           requirements: params.requirements,
           offeredPrice: params.offeredPrice,
@@ -98,6 +133,113 @@ export class JobRequestService {
     }
   }
 
+  private loadSimulatedRequests(): JobRequest[] {
+    if (typeof window === 'undefined') return []
+    try {
+      return JSON.parse(localStorage.getItem(SIMULATED_REQUESTS_KEY) ?? '[]') as JobRequest[]
+    } catch {
+      return []
+    }
+  }
+
+  private saveSimulatedRequest(request: JobRequest) {
+    const requests = this.loadSimulatedRequests().filter(existing => existing.id !== request.id)
+    localStorage.setItem(SIMULATED_REQUESTS_KEY, JSON.stringify([...requests, request]))
+  }
+
+  /**
+   * 작업 요청 조회 (시뮬레이션 저장소)
+   */
+  async getJobRequest(jobId: string): Promise<JobRequest | null> {
+    return this.loadSimulatedRequests().find(request => request.id === jobId) ?? null
+  }
+
+  /**
+   * 아직 수락되지 않은 요청 (제공자가 이미지 name:version으로 찾음)
+   */
+  async getOpenRequests(imageName: string): Promise<JobRequest[]> {
+    return this.loadSimulatedRequests().filter(
+      request => request.status === JOB_STATUS.PENDING && request.image_name === imageName
+    )
+  }
+
+  /**
+   * 요청자(이미지 소유자)가 만든 요청 목록 (시뮬레이션 저장소)
+   */
+  async getRequesterRequests(requesterAddress: string): Promise<JobRequest[]> {
+    return this.loadSimulatedRequests().filter(request => request.requester === requesterAddress)
+  }
+
+  /**
+   * 작업 상태 변경 (수락/거절/완료). 수락하면 제공자 주소가 기록되고, 요청자 쪽에서
+   * subscribeToRequesterJobs로 받아 ImageAccessPolicy 권한을 맞춤 (seal-policy syncJobAccess)
+   */
+  async updateRequestStatus(
+    signer: Ed25519Keypair | null,
+    job: JobRequest,
+    status: JobStatus,
+    providerAddress: string = job.provider_address
+  ): Promise<JobRequest> {
+    const txb = new Transaction()
+    txb.moveCall({
+      target: `${this.packageId}::${JOB_CONTRACT_CONFIG.MODULE_NAME}::${JOB_MOVE_FUNCTIONS.UPDATE_REQUEST_STATUS}`,
+      arguments: [txb.object(this.registryObjectId), txb.pure.id(job.id), txb.pure.u8(status)],
+    })
+
+    if (signer) {
+      const result = await this.suiClient.signAndExecuteTransaction({
+        signer,
+        transaction: txb,
+        options: { showEffects: true },
+      })
+      if (result.effects?.status?.status !== 'success') {
+        throw new Error(`작업 상태 변경 실패: ${result.effects?.status?.error}`)
+      }
+    }
+
+    const updated: JobRequest = { ...job, status, provider_address: providerAddress, updated_at: Date.now() }
+    if (!signer) {
+      this.saveSimulatedRequest(updated)
+    }
+    console.log(`✅ 작업 ${job.id} 상태 변경: ${job.status} → ${status}`)
+
+    window.dispatchEvent(new CustomEvent(JOB_STATUS_EVENT, { detail: updated }))
+    return updated
+  }
+
+  /**
+   * 요청자가 만든 작업의 상태 변경 구독 (같은 탭은 브라우저 이벤트, 다른 탭은 storage 이벤트)
+   */
+  subscribeToRequesterJobs(
+    requesterAddress: string,
+    callback: (job: JobRequest) => void
+  ): () => void {
+    const handleStatus = (event: CustomEvent<JobRequest>) => {
+      if (event.detail.requester === requesterAddress) {
+        callback(event.detail)
+      }
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== SIMULATED_REQUESTS_KEY || !event.newValue) return
+      const previous = new Map(
+        (JSON.parse(event.oldValue ?? '[]') as JobRequest[]).map(request => [request.id, request.updated_at])
+      )
+      for (const request of JSON.parse(event.newValue) as JobRequest[]) {
+        if (request.requester === requesterAddress && previous.get(request.id) !== request.updated_at) {
+          callback(request)
+        }
+      }
+    }
+
+    window.addEventListener(JOB_STATUS_EVENT, handleStatus as EventListener)
+    window.addEventListener('storage', handleStorage)
+    return () => {
+      window.removeEventListener(JOB_STATUS_EVENT, handleStatus as EventListener)
+      window.removeEventListener('storage', handleStorage)
+    }
+  }
+
   /**
    * 제공자에게 즉시 알림 (시뮬레이션)
    */
@@ -122,10 +264,7 @@ export class JobRequestService {
       // 실제 컨트랙트가 배포되지 않았으므로 시뮬레이션 모드로 동작
       console.log(`✅ 제공자 ${providerAddress}의 요청 목록 조회 (시뮬레이션)`)
 
-      // 시뮬레이션용 더미 데이터 반환
-      const mockRequests: JobRequest[] = []
-
-      return mockRequests
+      return this.loadSimulatedRequests().filter(request => request.provider_address === providerAddress)
     } catch (error) {
       console.error('제공자 요청 목록 조회 실패:', error)
       return []
@@ -63,7 +63,8 @@ export interface Deployment {
   version: string
   nodes: WorkerNode[]
   status: 'pending' | 'deploying' | 'running' | 'stopped' | 'error'
-  environment: Record<string, string>
+  environment: Record<string, string> // 평문 환경 변수만 (secret 값은 secrets blob에만 존재)
+  secrets?: DeploymentSecretsRef
   runtime: 'nodejs' | 'python' | 'go' | 'docker'
   resources: {
     cpu: number
@@ -74,6 +75,14 @@ export interface Deployment {
   createdAt: Date
 }
 
+// Seal로 암호화되어 별도 Walrus blob에 저장된 secret 환경 변수
+export interface DeploymentSecretsRef {
+  blobId: string
+  names: string[] // UI에는 이름과 마스킹된 값만 표시
+  sealId: string
+  policyId?: string // seal_policy ImageAccessPolicy (없으면 소유자 전용)
+}
+
 // 모니터링 관련 타입
 export interface DeploymentMetrics {
   requests: number
@@ -116,8 +125,12 @@ export interface UploadProgress {
   fileId: string
   fileName: string
   progress: number // 0-100
-  status: 'uploading' | 'completed' | 'error'
+  status: 'uploading' | 'completed' | 'error' | 'cancelled'
   error?: string
+  bytesSent?: number
+  totalBytes?: number
+  throughput?: number // bytes per second
+  eta?: number | null // seconds remaining
 }
 
 export interface ProjectUploadData {
@@ -134,6 +147,9 @@ export interface Task {
   name: string
   description: string
   walrusBlobUrl: string
+  mirrorUrls?: string[] // All registry download URLs; walrusBlobUrl is the primary one
+  primaryUrlIndex?: number
+  contentDigest?: string // sha256 recorded on-chain at upload
   requiredResources: {
     cpu: number
     memory: number // GB
@@ -1,7 +1,297 @@
+// Seal encryption for server-side and provider-node use
+// Same key servers, identities and owner policy as frontend/src/lib/seal-client.ts, but session keys are
+// signed by a local keypair instead of a wallet.
 
-const { encryptedObject: encryptedBytes, key: backupKey } = await client.encrypt({
-    threshold: 2,
-    packageId: fromHEX(packageId),
-    id: fromHEX(id),
-    data,
-});
\ No newline at end of file
+import { SealClient, SessionKey, EncryptedObject, type KeyServerConfig } from '@mysten/seal';
+import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import type { Signer } from '@mysten/sui/cryptography';
+import { fromHex, toHex, normalizeSuiAddress, fromBase64, toBase64 } from '@mysten/sui/utils';
+import { randomBytes, webcrypto } from 'crypto';
+import { spawn } from 'child_process';
+
+export interface SealConfig {
+  packageId: string; // Package that defines seal_approve
+  policyModule: string;
+  keyServers: KeyServerConfig[];
+  threshold: number;
+  rpcUrl: string;
+  aggregatorUrl: string; // Walrus aggregator for fetching encrypted blobs (deployment secrets)
+  sessionTtlMin: number;
+}
+
+// Mysten Labs testnet key servers (open mode)
+const DEFAULT_KEY_SERVERS = [
+  '0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75',
+  '0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8'
+];
+
+// "objectId[:weight]" entries separated by commas
+const parseKeyServers = (value: string | undefined): KeyServerConfig[] =>
+  (value || DEFAULT_KEY_SERVERS.join(','))
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [objectId, weight] = entry.split(':');
+      return { objectId, weight: Number(weight) || 1 };
+    });
+
+export const loadSealConfig = (env: NodeJS.ProcessEnv = process.env): SealConfig => {
+  const keyServers = parseKeyServers(env.SEAL_KEY_SERVERS);
+  if (!env.SEAL_PACKAGE_ID) {
+    throw new Error('SEAL_PACKAGE_ID is not set');
+  }
+  return {
+    packageId: env.SEAL_PACKAGE_ID,
+    policyModule: env.SEAL_POLICY_MODULE || 'seal_policy',
+    keyServers,
+    threshold: Math.min(Number(env.SEAL_THRESHOLD) || 2, keyServers.length),
+    rpcUrl: env.SUI_RPC_URL || getFullnodeUrl('testnet'),
+    aggregatorUrl:
+      env.WALRUS_AGGREGATOR_URL || env.NEXT_PUBLIC_WALRUS_AGGREGATOR_URL || 'https://aggregator.walrus-testnet.walrus.space',
+    sessionTtlMin: 30
+  };
+};
+
+export interface SealEnvelope {
+  id: string;
+  packageId: string;
+  threshold: number;
+}
+
+export type SealApproveBuilder = (tx: Transaction, id: string) => void;
+
+// Mirrors DeploymentSecretsRef in frontend/src/types
+export interface DeploymentSecretsRef {
+  blobId: string;
+  names: string[];
+  sealId: string;
+  policyId?: string;
+}
+
+export const createSealIdentity = (owner: string, nonceBytes = 5): string =>
+  toHex(new Uint8Array([...fromHex(normalizeSuiAddress(owner)), ...randomBytes(nonceBytes)]));
+
+export const createSealEncryptor = (config: SealConfig = loadSealConfig()) => {
+  const suiClient = new SuiClient({ url: config.rpcUrl });
+  const client = new SealClient({ suiClient, serverConfigs: config.keyServers, verifyKeyServers: false });
+
+  const approveAsOwner: SealApproveBuilder = (tx, id) => {
+    tx.moveCall({
+      target: `${config.packageId}::${config.policyModule}::seal_approve`,
+      arguments: [tx.pure.vector('u8', fromHex(id))]
+    });
+  };
+
+  // Provider nodes pass this check once the image owner granted their job in the ImageAccessPolicy
+  const approveForJobPolicy = (policyId: string): SealApproveBuilder => (tx, id) => {
+    tx.moveCall({
+      target: `${config.packageId}::${config.policyModule}::seal_approve_job`,
+      arguments: [tx.pure.vector('u8', fromHex(id)), tx.object(policyId)]
+    });
+  };
+
+  let sessionKey: SessionKey | null = null;
+
+  const getSessionKey = async (signer: Signer): Promise<SessionKey> => {
+    const address = signer.toSuiAddress();
+    if (sessionKey && !sessionKey.isExpired() && sessionKey.getAddress() === address) {
+      return sessionKey;
+    }
+    // With a signer the personal message is signed during create()
+    sessionKey = await SessionKey.create({
+      address,
+      packageId: config.packageId,
+      ttlMin: config.sessionTtlMin,
+      signer,
+      suiClient
+    });
+    return sessionKey;
+  };
+
+  const decrypt = async (ciphertext: Uint8Array, signer: Signer, approve: SealApproveBuilder = approveAsOwner) => {
+    const { id } = EncryptedObject.parse(ciphertext);
+    const tx = new Transaction();
+    approve(tx, id);
+    const txBytes = await tx.build({ client: suiClient, onlyTransactionKind: true });
+    return client.decrypt({ data: ciphertext, sessionKey: await getSessionKey(signer), txBytes });
+  };
+
+  return {
+    /**
+     * Encrypts `data` under a fresh identity for `owner`. The backup key decrypts without key servers;
+     * keep it with createBackupKeyFile or drop it.
+     */
+    encrypt: async (data: Uint8Array, owner: string, id = createSealIdentity(owner)) => {
+      const { encryptedObject, key } = await client.encrypt({
+        threshold: config.threshold,
+        packageId: config.packageId,
+        id,
+        data
+      });
+      const envelope: SealEnvelope = { id, packageId: config.packageId, threshold: config.threshold };
+      return { ciphertext: encryptedObject, backupKey: key, envelope };
+    },
+
+    decrypt,
+
+    approveForJobPolicy,
+
+    /**
+     * Called by the assigned node right before container start: fetches the deployment's secrets blob,
+     * decrypts it with the node's key and returns the variables. Nothing is written to disk.
+     */
+    loadDeploymentSecrets: async (ref: DeploymentSecretsRef, signer: Signer): Promise<Record<string, string>> => {
+      const response = await fetch(`${config.aggregatorUrl}/v1/blobs/${ref.blobId}`);
+      if (!response.ok) {
+        throw new Error(`Secrets blob ${ref.blobId} fetch failed: ${response.status} ${response.statusText}`);
+      }
+      const ciphertext = new Uint8Array(await response.arrayBuffer());
+      if (EncryptedObject.parse(ciphertext).id !== ref.sealId) {
+        throw new Error(`Secrets blob ${ref.blobId} is not encrypted under ${ref.sealId}`);
+      }
+
+      const plaintext = await decrypt(ciphertext, signer, ref.policyId ? approveForJobPolicy(ref.policyId) : approveAsOwner);
+      const payload = JSON.parse(new TextDecoder().decode(plaintext)) as {
+        type?: string;
+        variables?: Record<string, string>;
+      };
+      if (payload.type !== 'daas-deployment-secrets' || !payload.variables) {
+        throw new Error(`Blob ${ref.blobId} is not a deployment secrets blob`);
+      }
+      return payload.variables;
+    }
+  };
+};
+
+// `docker run` arguments; values go through the process env so they never appear in the command line
+export const toDockerEnvArgs = (variables: Record<string, string>): { args: string[]; env: NodeJS.ProcessEnv } => ({
+  args: Object.keys(variables).flatMap(name => ['--env', name]),
+  env: { ...process.env, ...variables }
+});
+
+export type SealEncryptor = ReturnType<typeof createSealEncryptor>;
+
+export interface JobContainer {
+  image: string; // Image reference docker can pull (e.g. through the OCI gateway)
+  secrets?: DeploymentSecretsRef; // `secrets` of the accepted JobRequest
+  dockerArgs?: string[]; // Extra `docker run` options before the image
+}
+
+/**
+ * Starts a job's container on the provider node. The secrets blob is decrypted with the node's key (the
+ * provider address the image owner granted) right before `docker run`; resolves with docker's exit code.
+ */
+export const runJobContainer = async (
+  job: JobContainer,
+  signer: Signer,
+  encryptor: SealEncryptor = createSealEncryptor()
+): Promise<number> => {
+  const variables = job.secrets ? await encryptor.loadDeploymentSecrets(job.secrets, signer) : {};
+  const { args, env } = toDockerEnvArgs(variables);
+
+  const child = spawn('docker', ['run', '--rm', ...args, ...(job.dockerArgs ?? []), job.image], { env, stdio: 'inherit' });
+  return new Promise((resolve, reject) => {
+    child.on('error', reject);
+    child.on('exit', code => resolve(code ?? 1));
+  });
+};
+
+// Backup key files: same format as frontend/src/lib/seal-backup.ts, so either side can open them
+export interface SealBackupKeyFile {
+  type: 'daas-seal-backup-key';
+  version: 1;
+  sealId: string;
+  packageId: string;
+  threshold: number;
+  blobId?: string;
+  label?: string;
+  createdAt: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  iv: string;
+  ciphertext: string;
+}
+
+const PBKDF2_ITERATIONS = 310_000;
+
+// Seal's AES-256-GCM DEM always uses this IV (keys are never reused); see @mysten/seal dem.ts
+const SEAL_DEM_IV = Uint8Array.from([138, 55, 153, 253, 198, 46, 121, 219, 160, 128, 89, 7, 214, 156, 148, 220]);
+
+const derivePassphraseKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await webcrypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return webcrypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Wraps the backup key returned by encrypt() in a passphrase-protected file instead of dropping it
+ */
+export const createBackupKeyFile = async (
+  backupKey: Uint8Array,
+  envelope: SealEnvelope,
+  passphrase: string,
+  info: { blobId?: string; label?: string } = {}
+): Promise<SealBackupKeyFile> => {
+  if (passphrase.length < 8) {
+    throw new Error('Passphrase must be at least 8 characters');
+  }
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = new Uint8Array(await webcrypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, backupKey));
+  return {
+    type: 'daas-seal-backup-key',
+    version: 1,
+    sealId: envelope.id,
+    packageId: envelope.packageId,
+    threshold: envelope.threshold,
+    ...info,
+    createdAt: Date.now(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    iv: toBase64(iv),
+    ciphertext: toBase64(ciphertext)
+  };
+};
+
+export const openBackupKeyFile = async (file: SealBackupKeyFile, passphrase: string): Promise<Uint8Array> => {
+  if (file.type !== 'daas-seal-backup-key' || file.version !== 1) {
+    throw new Error('Not a Seal backup key file');
+  }
+  const key = await derivePassphraseKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations);
+  try {
+    return new Uint8Array(
+      await webcrypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(file.iv) }, key, fromBase64(file.ciphertext))
+    );
+  } catch {
+    throw new Error('Wrong passphrase for backup key file');
+  }
+};
+
+/**
+ * Decrypts a Seal ciphertext with its backup key, without key servers or an on-chain policy check
+ */
+export const decryptWithBackupKey = async (ciphertext: Uint8Array, backupKey: Uint8Array): Promise<Uint8Array> => {
+  const parsed = EncryptedObject.parse(ciphertext);
+  const dem = parsed.ciphertext;
+  if (!('Aes256Gcm' in dem) || !dem.Aes256Gcm) {
+    throw new Error('Backup key recovery only supports AES-256-GCM ciphertexts');
+  }
+  const key = await webcrypto.subtle.importKey('raw', backupKey, 'AES-GCM', false, ['decrypt']);
+  try {
+    return new Uint8Array(
+      await webcrypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: SEAL_DEM_IV, additionalData: new Uint8Array(dem.Aes256Gcm.aad ?? []) },
+        key,
+        new Uint8Array(dem.Aes256Gcm.blob)
+      )
+    );
+  } catch {
+    throw new Error(`Backup key does not match ciphertext ${parsed.id}`);
+  }
+};
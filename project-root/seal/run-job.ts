@@ -0,0 +1,27 @@
+// Provider node entry point: npm run run-job -- <image> [secrets-ref.json]
+// secrets-ref.json holds the `secrets` field of the accepted JobRequest. NODE_PRIVATE_KEY (suiprivkey...) must be
+// the provider address the image owner granted in the ImageAccessPolicy, otherwise the key servers refuse.
+
+import { readFileSync } from 'fs';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { runJobContainer, type DeploymentSecretsRef } from './index';
+
+const main = async () => {
+  const [image, secretsPath] = process.argv.slice(2);
+  if (!image) {
+    console.error('usage: run-job <image> [secrets-ref.json]');
+    process.exit(2);
+  }
+  if (!process.env.NODE_PRIVATE_KEY) {
+    throw new Error('NODE_PRIVATE_KEY is not set');
+  }
+
+  const signer = Ed25519Keypair.fromSecretKey(process.env.NODE_PRIVATE_KEY);
+  const secrets = secretsPath ? (JSON.parse(readFileSync(secretsPath, 'utf8')) as DeploymentSecretsRef) : undefined;
+  process.exitCode = await runJobContainer({ image, secrets }, signer);
+};
+
+main().catch(error => {
+  console.error('❌ 작업 컨테이너 시작 실패:', error);
+  process.exit(1);
+});